@@ -8,8 +8,23 @@ import {
   SidebarMenuButton,
   SidebarMenuItem,
 } from "@/components/ui/sidebar";
-import { type TradingPair, cryptoPairs, forexPairs } from "@shared/schema";
-import { TrendingUp, DollarSign } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { useQuery } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { type TradingPair, type WatchlistHit } from "@shared/schema";
+import { usePairCatalog } from "@/hooks/usePairCatalog";
+import { TrendingUp, DollarSign, Radar, ArrowUpRight, ArrowDownRight } from "lucide-react";
+
+interface WatchlistDigestScan {
+  id: string;
+  watchlistName: string;
+  hits: WatchlistHit[];
+  scanned: number;
+  neutral: number;
+  skipped: number;
+  creditsCharged: number;
+  completedAt: string;
+}
 
 interface AppSidebarProps {
   onPairSelect: (pair: TradingPair) => void;
@@ -17,9 +32,63 @@ interface AppSidebarProps {
 }
 
 export function AppSidebar({ onPairSelect, selectedPair }: AppSidebarProps) {
+  const { data: digest = [] } = useQuery<WatchlistDigestScan[]>({
+    queryKey: ["/api/user/watchlist-digest"],
+    refetchInterval: 60000,
+  });
+  const { pairs } = usePairCatalog();
+  const cryptoPairs = pairs.filter((pair) => pair.category === "crypto").map((pair) => pair.symbol);
+  const forexPairs = pairs.filter((pair) => pair.category === "forex").map((pair) => pair.symbol);
+
   return (
     <Sidebar data-testid="sidebar-trading-pairs">
       <SidebarContent>
+        {digest.length > 0 && (
+          <SidebarGroup data-testid="sidebar-watchlist-digest">
+            <SidebarGroupLabel className="flex items-center gap-2">
+              <Radar className="h-4 w-4" />
+              Watchlist Digest
+            </SidebarGroupLabel>
+            <SidebarGroupContent>
+              {digest.slice(0, 3).map((scan) => (
+                <div key={scan.id} className="px-2 pb-3">
+                  <div className="flex items-center justify-between text-xs text-muted-foreground mb-1">
+                    <span className="font-medium truncate">{scan.watchlistName}</span>
+                    <span className="flex-shrink-0 ml-2">
+                      {formatDistanceToNow(new Date(scan.completedAt), { addSuffix: true })}
+                    </span>
+                  </div>
+                  {scan.hits.length === 0 ? (
+                    <p className="text-xs text-muted-foreground/70" data-testid={`text-digest-empty-${scan.id}`}>
+                      No actionable setups ({scan.scanned} scanned{scan.skipped > 0 ? `, ${scan.skipped} skipped - out of credits` : ""})
+                    </p>
+                  ) : (
+                    <SidebarMenu>
+                      {scan.hits.slice(0, 5).map((hit) => (
+                        <SidebarMenuItem key={`${hit.pair}-${hit.timeframe}`}>
+                          <SidebarMenuButton
+                            onClick={() => onPairSelect(hit.pair)}
+                            data-testid={`button-digest-${hit.pair.toLowerCase().replace("/", "-")}-${hit.timeframe.toLowerCase()}`}
+                          >
+                            {hit.direction === "UP" ? (
+                              <ArrowUpRight className="h-4 w-4 text-emerald-500" />
+                            ) : (
+                              <ArrowDownRight className="h-4 w-4 text-red-500" />
+                            )}
+                            <span className="font-medium">{hit.pair}</span>
+                            <Badge variant="secondary" className="text-xs">{hit.timeframe}</Badge>
+                            <span className="ml-auto text-xs font-mono">{hit.confidence}%</span>
+                          </SidebarMenuButton>
+                        </SidebarMenuItem>
+                      ))}
+                    </SidebarMenu>
+                  )}
+                </div>
+              ))}
+            </SidebarGroupContent>
+          </SidebarGroup>
+        )}
+
         <SidebarGroup>
           <SidebarGroupLabel className="flex items-center gap-2">
             <TrendingUp className="h-4 w-4" />
@@ -0,0 +1,502 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Calculator, Pencil, Percent, Plus, Trash2 } from "lucide-react";
+import { type CommissionRuleType, type CommissionTier } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+interface CommissionRuleRow {
+  id: string;
+  name: string;
+  companyId: string | null;
+  planId: string | null;
+  type: CommissionRuleType;
+  value: number;
+  tiers: CommissionTier[];
+  effectiveFrom: string;
+  effectiveTo: string | null;
+}
+
+interface CommissionRulesResponse {
+  rules: CommissionRuleRow[];
+  defaultRule: CommissionRuleRow;
+}
+
+interface CommissionPreview {
+  amount: number;
+  payments: number;
+  total: number;
+  breakdown: { fromPayment: number; toPayment: number; commissionPerPayment: number; subtotal: number }[];
+}
+
+interface TierForm {
+  minPayments: string;
+  value: string;
+}
+
+interface RuleForm {
+  name: string;
+  companyId: string;
+  planId: string;
+  type: CommissionRuleType;
+  value: string;
+  tiers: TierForm[];
+  effectiveFrom: string;
+  effectiveTo: string;
+}
+
+const today = () => format(new Date(), "yyyy-MM-dd");
+
+const emptyForm = (): RuleForm => ({
+  name: "",
+  companyId: "",
+  planId: "",
+  type: "percentage",
+  value: "50",
+  tiers: [],
+  effectiveFrom: today(),
+  effectiveTo: "",
+});
+
+function toForm(rule: CommissionRuleRow): RuleForm {
+  return {
+    name: rule.name,
+    companyId: rule.companyId ?? "",
+    planId: rule.planId ?? "",
+    type: rule.type,
+    value: String(rule.value),
+    tiers: rule.tiers.map((tier) => ({ minPayments: String(tier.minPayments), value: String(tier.value) })),
+    effectiveFrom: rule.effectiveFrom.slice(0, 10),
+    effectiveTo: rule.effectiveTo ? rule.effectiveTo.slice(0, 10) : "",
+  };
+}
+
+function termsFromForm(form: RuleForm) {
+  return {
+    type: form.type,
+    value: parseFloat(form.value),
+    tiers: form.tiers
+      .filter((tier) => tier.minPayments && tier.value)
+      .map((tier) => ({ minPayments: parseInt(tier.minPayments, 10), value: parseFloat(tier.value) })),
+  };
+}
+
+function fromForm(form: RuleForm) {
+  return {
+    ...termsFromForm(form),
+    name: form.name.trim(),
+    companyId: form.companyId.trim() || null,
+    planId: form.planId.trim() || null,
+    // Date inputs are UTC calendar days
+    effectiveFrom: new Date(form.effectiveFrom).toISOString(),
+    effectiveTo: form.effectiveTo ? new Date(form.effectiveTo).toISOString() : null,
+  };
+}
+
+// Only the name and end date change in place; anything else ends the rule and starts a revision
+function changesTerms(rule: CommissionRuleRow, form: RuleForm): boolean {
+  const { name: _name, effectiveTo: _effectiveTo, ...original } = toForm(rule);
+  const { name: _editedName, effectiveTo: _editedEffectiveTo, ...edited } = form;
+  return JSON.stringify(original) !== JSON.stringify(edited);
+}
+
+const formatCents = (cents: number) => `$${(cents / 100).toFixed(2)}`;
+
+function describeValue(type: CommissionRuleType, value: number): string {
+  return type === "percentage" ? `${value}%` : formatCents(value);
+}
+
+function ruleState(rule: CommissionRuleRow): "Active" | "Scheduled" | "Ended" {
+  const now = Date.now();
+  if (new Date(rule.effectiveFrom).getTime() > now) return "Scheduled";
+  if (rule.effectiveTo && new Date(rule.effectiveTo).getTime() <= now) return "Ended";
+  return "Active";
+}
+
+export function CommissionRulesCard() {
+  const { toast } = useToast();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  // Id of the rule being edited; null while adding a new rule
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<RuleForm>(emptyForm);
+  const [previewAmount, setPreviewAmount] = useState("35.00");
+  const [previewPayments, setPreviewPayments] = useState("20");
+  const [preview, setPreview] = useState<CommissionPreview | null>(null);
+
+  const { data, isLoading, error } = useQuery<CommissionRulesResponse>({
+    queryKey: ["/api/admin/commission-rules"],
+  });
+
+  const editingRule = data?.rules.find((rule) => rule.id === editingId) ?? null;
+  const revising = editingRule !== null && changesTerms(editingRule, form);
+
+  const saveRuleMutation = useMutation({
+    mutationFn: async (values: RuleForm) => {
+      let response: Response;
+      if (!editingRule) {
+        response = await apiRequest("POST", "/api/admin/commission-rules", fromForm(values));
+      } else if (changesTerms(editingRule, values)) {
+        // An unchanged start date means the revision takes over from now
+        const startChanged = values.effectiveFrom !== toForm(editingRule).effectiveFrom;
+        response = await apiRequest("POST", `/api/admin/commission-rules/${editingRule.id}/revise`, {
+          ...fromForm(values),
+          effectiveFrom: startChanged ? fromForm(values).effectiveFrom : undefined,
+        });
+      } else {
+        const { name, effectiveTo } = fromForm(values);
+        response = await apiRequest("PATCH", `/api/admin/commission-rules/${editingRule.id}`, { name, effectiveTo });
+      }
+      return await response.json();
+    },
+    onSuccess: (rule: CommissionRuleRow) => {
+      const title = !editingRule ? "Rule Added" : rule.id !== editingRule.id ? "Rule Revised" : "Rule Updated";
+      toast({
+        title,
+        description: `"${rule.name}" applies from ${format(new Date(rule.effectiveFrom), "MMM d, yyyy")}.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/commission-rules"] });
+      setDialogOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Save Failed",
+        description: error.message || "Failed to save the commission rule.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/admin/commission-rules/preview", {
+        rule: termsFromForm(form),
+        amount: Math.round(parseFloat(previewAmount) * 100),
+        payments: parseInt(previewPayments, 10),
+      });
+      return await response.json();
+    },
+    onSuccess: (result: CommissionPreview) => setPreview(result),
+    onError: (error: Error) => {
+      toast({
+        title: "Preview Failed",
+        description: error.message || "Failed to preview the commission rule.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openDialog = (rule: CommissionRuleRow | null) => {
+    setEditingId(rule?.id ?? null);
+    setForm(rule ? toForm(rule) : emptyForm());
+    setPreview(null);
+    setDialogOpen(true);
+  };
+
+  const updateForm = (field: Exclude<keyof RuleForm, "tiers">, value: string) => {
+    setForm((current) => ({ ...current, [field]: value }));
+    setPreview(null);
+  };
+
+  const updateTier = (index: number, field: keyof TierForm, value: string) => {
+    setForm((current) => ({
+      ...current,
+      tiers: current.tiers.map((tier, i) => (i === index ? { ...tier, [field]: value } : tier)),
+    }));
+    setPreview(null);
+  };
+
+  const addTier = () => setForm((current) => ({ ...current, tiers: [...current.tiers, { minPayments: "", value: "" }] }));
+  const removeTier = (index: number) => setForm((current) => ({ ...current, tiers: current.tiers.filter((_, i) => i !== index) }));
+
+  const rules = data?.rules ?? [];
+  const valueUnit = form.type === "percentage" ? "%" : "cents";
+
+  // Only owner company admins manage commission rules
+  if (error?.message.startsWith("403")) {
+    return null;
+  }
+
+  return (
+    <Card data-testid="card-commission-rules" className="relative overflow-hidden bg-gradient-to-br from-card via-card to-amber-500/5 backdrop-blur-sm border-amber-500/20 shadow-lg">
+      <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-transparent via-amber-500/50 to-transparent"></div>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <div className="h-8 w-8 md:h-10 md:w-10 rounded-lg bg-gradient-to-br from-amber-500/20 to-orange-500/20 border border-amber-500/30 flex items-center justify-center flex-shrink-0">
+              <Percent className="h-4 w-4 md:h-5 md:w-5 text-amber-400" />
+            </div>
+            <div className="min-w-0">
+              <CardTitle className="text-sm md:text-base bg-gradient-to-r from-amber-400 to-orange-400 bg-clip-text text-transparent font-black">Commission Rules</CardTitle>
+              <CardDescription className="mt-1 text-xs md:text-sm">
+                {isLoading || !data
+                  ? "Loading rules..."
+                  : `Payments no rule matches earn the default ${describeValue(data.defaultRule.type, data.defaultRule.value)}`}
+              </CardDescription>
+            </div>
+          </div>
+          <Button size="sm" variant="outline" onClick={() => openDialog(null)} data-testid="button-add-commission-rule">
+            <Plus className="h-4 w-4 mr-1" />
+            Add Rule
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-32 w-full" />
+        ) : rules.length > 0 ? (
+          <div className="max-h-96 overflow-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Rule</TableHead>
+                  <TableHead className="hidden md:table-cell">Applies to</TableHead>
+                  <TableHead className="text-right">Commission</TableHead>
+                  <TableHead className="hidden md:table-cell">Effective</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rules.map((rule) => {
+                  const state = ruleState(rule);
+                  return (
+                    <TableRow key={rule.id} data-testid={`row-commission-rule-${rule.id}`} className={state === "Ended" ? "opacity-60" : ""}>
+                      <TableCell className="font-medium">{rule.name}</TableCell>
+                      <TableCell className="hidden md:table-cell text-xs text-muted-foreground">
+                        {rule.companyId ?? "All companies"} · {rule.planId ?? "All plans"}
+                      </TableCell>
+                      <TableCell className="text-right font-mono">
+                        {describeValue(rule.type, rule.value)}
+                        {rule.tiers.length > 0 && (
+                          <span className="block text-xs text-muted-foreground">+{rule.tiers.length} tier{rule.tiers.length === 1 ? "" : "s"}</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="hidden md:table-cell text-xs whitespace-nowrap">
+                        {format(new Date(rule.effectiveFrom), "MMM d, yyyy")} – {rule.effectiveTo ? format(new Date(rule.effectiveTo), "MMM d, yyyy") : "open"}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={state === "Active" ? "default" : "outline"} className="text-xs">{state}</Badge>
+                      </TableCell>
+                      <TableCell>
+                        <Button size="icon" variant="ghost" onClick={() => openDialog(rule)} data-testid={`button-edit-commission-rule-${rule.id}`}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground" data-testid="text-no-commission-rules">
+            No commission rules yet - every payment uses the default split
+          </p>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent data-testid="dialog-commission-rule" className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingId ? `Edit ${form.name || "Rule"}` : "Add Commission Rule"}</DialogTitle>
+            <DialogDescription>
+              The most specific rule in effect wins: company and plan, then company, then plan, then rules for everyone.
+              {revising && " Changing the terms, scope or start date ends this rule and starts a revision, so past commissions keep their rule."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-3 py-2">
+            <div className="space-y-2 col-span-2">
+              <Label htmlFor="rule-name">Name</Label>
+              <Input
+                id="rule-name"
+                placeholder="Launch promo"
+                value={form.name}
+                onChange={(e) => updateForm("name", e.target.value)}
+                data-testid="input-rule-name"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rule-company">Company ID</Label>
+              <Input
+                id="rule-company"
+                placeholder="All companies"
+                value={form.companyId}
+                onChange={(e) => updateForm("companyId", e.target.value)}
+                data-testid="input-rule-company"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rule-plan">Plan ID</Label>
+              <Input
+                id="rule-plan"
+                placeholder="All plans"
+                value={form.planId}
+                onChange={(e) => updateForm("planId", e.target.value)}
+                data-testid="input-rule-plan"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select value={form.type} onValueChange={(value) => updateForm("type", value)}>
+                <SelectTrigger data-testid="select-rule-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="percentage">Percentage of payment</SelectItem>
+                  <SelectItem value="fixed">Fixed amount</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rule-value">Value ({valueUnit})</Label>
+              <Input
+                id="rule-value"
+                type="number"
+                min="0"
+                step={form.type === "percentage" ? "any" : "1"}
+                value={form.value}
+                onChange={(e) => updateForm("value", e.target.value)}
+                data-testid="input-rule-value"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rule-from">Effective from</Label>
+              <Input
+                id="rule-from"
+                type="date"
+                value={form.effectiveFrom}
+                onChange={(e) => updateForm("effectiveFrom", e.target.value)}
+                data-testid="input-rule-from"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rule-to">Effective until</Label>
+              <Input
+                id="rule-to"
+                type="date"
+                value={form.effectiveTo}
+                onChange={(e) => updateForm("effectiveTo", e.target.value)}
+                data-testid="input-rule-to"
+              />
+            </div>
+
+            <div className="space-y-2 col-span-2">
+              <div className="flex items-center justify-between">
+                <Label>Volume tiers</Label>
+                <Button size="sm" variant="ghost" onClick={addTier} data-testid="button-add-tier">
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add Tier
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                From the Nth commissioned payment in a calendar month, the tier value replaces the base value.
+              </p>
+              {form.tiers.map((tier, index) => (
+                <div key={index} className="flex items-center gap-2" data-testid={`row-tier-${index}`}>
+                  <Input
+                    type="number"
+                    min="1"
+                    step="1"
+                    placeholder="From payment #"
+                    value={tier.minPayments}
+                    onChange={(e) => updateTier(index, "minPayments", e.target.value)}
+                    data-testid={`input-tier-min-${index}`}
+                  />
+                  <Input
+                    type="number"
+                    min="0"
+                    step="any"
+                    placeholder={`Value (${valueUnit})`}
+                    value={tier.value}
+                    onChange={(e) => updateTier(index, "value", e.target.value)}
+                    data-testid={`input-tier-value-${index}`}
+                  />
+                  <Button size="icon" variant="ghost" onClick={() => removeTier(index)} data-testid={`button-remove-tier-${index}`}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-3 col-span-2 rounded-lg border border-amber-500/20 bg-amber-500/5 p-3">
+              <div className="flex items-end gap-2">
+                <div className="space-y-1 flex-1">
+                  <Label htmlFor="preview-amount" className="text-xs">Payment ($)</Label>
+                  <Input
+                    id="preview-amount"
+                    type="number"
+                    min="0.01"
+                    step="0.01"
+                    value={previewAmount}
+                    onChange={(e) => setPreviewAmount(e.target.value)}
+                    data-testid="input-preview-amount"
+                  />
+                </div>
+                <div className="space-y-1 flex-1">
+                  <Label htmlFor="preview-payments" className="text-xs">Payments / month</Label>
+                  <Input
+                    id="preview-payments"
+                    type="number"
+                    min="1"
+                    max="1000"
+                    step="1"
+                    value={previewPayments}
+                    onChange={(e) => setPreviewPayments(e.target.value)}
+                    data-testid="input-preview-payments"
+                  />
+                </div>
+                <Button
+                  variant="outline"
+                  onClick={() => previewMutation.mutate()}
+                  disabled={previewMutation.isPending}
+                  data-testid="button-preview-rule"
+                >
+                  <Calculator className="h-4 w-4 mr-1" />
+                  Preview
+                </Button>
+              </div>
+              {preview && (
+                <div className="space-y-1 text-sm" data-testid="text-rule-preview">
+                  {preview.breakdown.map((range) => (
+                    <div key={range.fromPayment} className="flex justify-between text-muted-foreground">
+                      <span>
+                        Payments {range.fromPayment}{range.toPayment > range.fromPayment ? `–${range.toPayment}` : ""} × {formatCents(range.commissionPerPayment)}
+                      </span>
+                      <span className="font-mono">{formatCents(range.subtotal)}</span>
+                    </div>
+                  ))}
+                  <div className="flex justify-between font-semibold border-t border-amber-500/20 pt-1">
+                    <span>Monthly earnings</span>
+                    <span className="font-mono">{formatCents(preview.total)}</span>
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+          <DialogFooter className="gap-2 sm:gap-0">
+            <Button variant="outline" onClick={() => setDialogOpen(false)} data-testid="button-cancel-commission-rule">
+              Cancel
+            </Button>
+            <Button
+              onClick={() => saveRuleMutation.mutate(form)}
+              disabled={saveRuleMutation.isPending || !form.name.trim() || !form.value || !form.effectiveFrom}
+              data-testid="button-save-commission-rule"
+            >
+              {saveRuleMutation.isPending ? "Saving..." : "Save Rule"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -1,11 +1,16 @@
 import { Button } from "@/components/ui/button";
-import { type TradingPair, cryptoPairs, forexPairs } from "@shared/schema";
+import { type TradingPair } from "@shared/schema";
+import { usePairCatalog } from "@/hooks/usePairCatalog";
 
 interface CryptoPairButtonsProps {
   onSelect: (pair: TradingPair) => void;
 }
 
 export function CryptoPairButtons({ onSelect }: CryptoPairButtonsProps) {
+  const { pairs } = usePairCatalog();
+  const cryptoPairs = pairs.filter((pair) => pair.category === "crypto").map((pair) => pair.symbol);
+  const forexPairs = pairs.filter((pair) => pair.category === "forex").map((pair) => pair.symbol);
+
   return (
     <div className="flex flex-col gap-4" data-testid="crypto-pair-buttons">
       <div className="flex flex-col gap-2">
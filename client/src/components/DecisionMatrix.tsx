@@ -1,5 +1,5 @@
 import * as React from "react";
-import { AuditCheck } from "@shared/schema";
+import { AuditCheck, ConfluenceMatrix, ConfluenceRow } from "@shared/schema";
 import {
     CheckCircle2,
     XCircle,
@@ -7,7 +7,8 @@ import {
     ShieldAlert,
     TrendingUp,
     Zap,
-    Activity
+    Activity,
+    Layers
 } from "lucide-react";
 import {
     Tooltip,
@@ -163,3 +164,78 @@ export function DecisionMatrix({ checks, score }: DecisionMatrixProps) {
         </div>
     );
 }
+
+const getBiasColor = (bias: string) => {
+    switch (bias) {
+        case "BULLISH":
+        case "HIGH":
+            return "bg-emerald-500/10 border-emerald-500/30 text-emerald-400";
+        case "BEARISH":
+            return "bg-red-500/10 border-red-500/30 text-red-400";
+        case "LOW":
+            return "bg-amber-500/10 border-amber-500/30 text-amber-400";
+        default:
+            return "bg-muted/50 border-border/50 text-muted-foreground";
+    }
+};
+
+const confluenceMetrics: { key: "trend" | "momentum" | "volatility"; label: string; detail: (row: ConfluenceRow) => string }[] = [
+    { key: "trend", label: "Trend", detail: (row) => `ADX ${row.adx.toFixed(1)}` },
+    { key: "momentum", label: "Momentum", detail: (row) => `RSI ${row.rsi.toFixed(1)}` },
+    { key: "volatility", label: "Volatility", detail: (row) => `BB/KC ${row.squeezeRatio.toFixed(2)}` },
+];
+
+export function ConfluenceMatrixGrid({ matrix }: { matrix: ConfluenceMatrix }) {
+    return (
+        <div className="space-y-4 animate-slide-up" data-testid="confluence-matrix">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+                <div className="flex items-center gap-2 text-sm font-semibold text-muted-foreground uppercase tracking-wider">
+                    <Layers className="w-4 h-4" />
+                    Timeframe Confluence
+                </div>
+                <div className="flex items-center gap-2">
+                    <Badge variant="outline" className={`font-mono text-[10px] ${getBiasColor(matrix.bias)}`}>
+                        {matrix.bias}
+                    </Badge>
+                    <span className={`text-2xl font-black ${getScoreColor(matrix.alignmentScore)}`}>
+                        {matrix.alignmentScore}%
+                    </span>
+                </div>
+            </div>
+
+            <div
+                className="grid gap-2"
+                style={{ gridTemplateColumns: `minmax(80px, auto) repeat(${matrix.rows.length}, minmax(0, 1fr))` }}
+            >
+                <div />
+                {matrix.rows.map((row) => (
+                    <div key={row.timeframe} className="text-center space-y-0.5">
+                        <div className="font-mono text-sm font-bold text-foreground">{row.timeframe}</div>
+                        <div className="text-[10px] uppercase tracking-wider text-muted-foreground">{row.role}</div>
+                    </div>
+                ))}
+
+                {confluenceMetrics.map((metric) => (
+                    <React.Fragment key={metric.key}>
+                        <div className="flex items-center text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+                            {metric.label}
+                        </div>
+                        {matrix.rows.map((row) => (
+                            <div
+                                key={`${metric.key}-${row.timeframe}`}
+                                className={`p-2 rounded-lg border text-center ${row.available ? getBiasColor(row[metric.key]) : "bg-muted/20 border-border/30 text-muted-foreground/50"}`}
+                            >
+                                <div className="font-mono text-xs font-bold">{row.available ? row[metric.key] : "N/A"}</div>
+                                {row.available && (
+                                    <div className="text-[10px] opacity-70">{metric.detail(row)}</div>
+                                )}
+                            </div>
+                        ))}
+                    </React.Fragment>
+                ))}
+            </div>
+
+            <p className="text-xs text-muted-foreground">{matrix.summary}</p>
+        </div>
+    );
+}
@@ -1,5 +1,6 @@
 import { ArrowTrendingUpIcon, ArrowTrendingDownIcon, MinusIcon } from "@heroicons/react/24/solid";
 import { Badge } from "@/components/ui/badge";
+import { type TradeTargetValidation } from "@shared/schema";
 
 interface PredictionCardProps {
   prediction: {
@@ -12,6 +13,9 @@ interface PredictionCardProps {
       target: { low: number; high: number };
       stop: number;
     };
+    detailedAnalysis?: {
+      tradeTargetValidation?: TradeTargetValidation;
+    };
   };
 }
 
@@ -39,6 +43,8 @@ export function PredictionCard({ prediction }: PredictionCardProps) {
   const isDown = prediction.direction === "DOWN";
   const isNeutral = prediction.direction === "NEUTRAL";
 
+  const targetValidation = prediction.detailedAnalysis?.tradeTargetValidation;
+
   const priceDecimals = prediction.tradeTargets
     ? getPriceDecimals(prediction.tradeTargets.entry.low)
     : 2;
@@ -87,26 +93,52 @@ export function PredictionCard({ prediction }: PredictionCardProps) {
       </div>
 
       {!isNeutral && prediction.tradeTargets && (
-        <div className="grid grid-cols-3 gap-2 mt-4 pt-4 border-t border-border/40">
-          <div className="space-y-1">
-            <div className="text-[10px] font-bold text-muted-foreground/60 uppercase tracking-wider">Entry</div>
-            <div className="font-mono text-xs font-bold">
-              {formatPrice(prediction.tradeTargets.entry.low, priceDecimals)}-{formatPrice(prediction.tradeTargets.entry.high, priceDecimals)}
+        <>
+          <div className="grid grid-cols-3 gap-2 mt-4 pt-4 border-t border-border/40">
+            <div className="space-y-1">
+              <div className="text-[10px] font-bold text-muted-foreground/60 uppercase tracking-wider">Entry</div>
+              <div className="font-mono text-xs font-bold">
+                {formatPrice(prediction.tradeTargets.entry.low, priceDecimals)}-{formatPrice(prediction.tradeTargets.entry.high, priceDecimals)}
+              </div>
             </div>
-          </div>
-          <div className="space-y-1">
-            <div className="text-[10px] font-bold text-muted-foreground/60 uppercase tracking-wider">Target</div>
-            <div className="font-mono text-xs font-bold text-chart-2">
-              {formatPrice(prediction.tradeTargets.target.low, priceDecimals)}-{formatPrice(prediction.tradeTargets.target.high, priceDecimals)}
+            <div className="space-y-1">
+              <div className="text-[10px] font-bold text-muted-foreground/60 uppercase tracking-wider">Target</div>
+              <div className="font-mono text-xs font-bold text-chart-2">
+                {formatPrice(prediction.tradeTargets.target.low, priceDecimals)}-{formatPrice(prediction.tradeTargets.target.high, priceDecimals)}
+              </div>
             </div>
-          </div>
-          <div className="space-y-1">
-            <div className="text-[10px] font-bold text-muted-foreground/60 uppercase tracking-wider">Stop</div>
-            <div className="font-mono text-xs font-bold text-destructive">
-              {formatPrice(prediction.tradeTargets.stop, priceDecimals)}
+            <div className="space-y-1">
+              <div className="text-[10px] font-bold text-muted-foreground/60 uppercase tracking-wider">Stop</div>
+              <div className="font-mono text-xs font-bold text-destructive">
+                {formatPrice(prediction.tradeTargets.stop, priceDecimals)}
+              </div>
             </div>
           </div>
-        </div>
+          {targetValidation && targetValidation.source !== "model" && (
+            <>
+              <div className="flex items-center gap-2 mt-3" data-testid="trade-target-source">
+                <Badge variant="outline" className="text-[10px] uppercase tracking-wider text-amber-400 border-amber-500/30">
+                  {targetValidation.source === "repaired" ? "Repaired targets" : "Synthesized targets"}
+                </Badge>
+                <span className="text-[10px] text-muted-foreground/70 font-mono">
+                  R:R {targetValidation.riskReward.toFixed(2)}
+                </span>
+              </div>
+              {targetValidation.issues.length > 0 && (
+                <ul className="mt-2 space-y-1" data-testid="trade-target-issues">
+                  {targetValidation.issues.map((issue, idx) => (
+                    <li key={idx} className="flex items-start gap-2 text-[10px] text-muted-foreground">
+                      <span className={`font-bold uppercase ${issue.action === "rejected" ? "text-orange-400" : "text-amber-400"}`}>
+                        {issue.action}
+                      </span>
+                      <span className="flex-1">{issue.message}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </>
+          )}
+        </>
       )}
     </div>
   );
@@ -1,6 +1,6 @@
 import * as React from "react";
 import { useState, useEffect } from "react";
-import { NewsHeadline } from "@shared/schema";
+import { NewsHeadline, NewsSentiment } from "@shared/schema";
 import {
     Newspaper,
     Globe2,
@@ -20,6 +20,7 @@ import { motion, AnimatePresence } from "framer-motion";
 interface SentinelNewsAuditProps {
     headlines: NewsHeadline[];
     isScanning: boolean;
+    sentiment?: NewsSentiment;
 }
 
 // Initial seed keywords for the scanner to look for
@@ -29,7 +30,7 @@ const KEYWORD_SEED = [
     "Support", "Resistance", "Institution", "Whale", "Exchange", "Stablecoin"
 ];
 
-export function SentinelNewsAudit({ headlines, isScanning }: SentinelNewsAuditProps) {
+export function SentinelNewsAudit({ headlines, isScanning, sentiment }: SentinelNewsAuditProps) {
     const [isOpen, setIsOpen] = useState(true);
     const [scannedCount, setScannedCount] = useState(0);
 
@@ -80,6 +81,13 @@ export function SentinelNewsAudit({ headlines, isScanning }: SentinelNewsAuditPr
 
     const dynamicKeywords = getDynamicKeywords();
 
+    // The weighted server score when available, otherwise a plain headcount
+    const positiveCount = headlines.filter(h => h.sentiment === "positive").length;
+    const negativeCount = headlines.filter(h => h.sentiment === "negative").length;
+    const consensus = sentiment
+        ? sentiment.label
+        : positiveCount > negativeCount ? "BULLISH" : negativeCount > positiveCount ? "BEARISH" : "NEUTRAL";
+
     // Scanning simulation
     useEffect(() => {
         if (isScanning) {
@@ -159,9 +167,16 @@ export function SentinelNewsAudit({ headlines, isScanning }: SentinelNewsAuditPr
                                                     className="p-3 rounded-lg bg-card/50 border border-border/40 hover:bg-card/80 transition-all group"
                                                 >
                                                     <div className="flex flex-col gap-1">
-                                                        <span className="text-xs font-bold text-primary opacity-70">
-                                                            #{idx + 1}
-                                                        </span>
+                                                        <div className="flex items-center gap-2">
+                                                            <span className="text-xs font-bold text-primary opacity-70">
+                                                                #{idx + 1}
+                                                            </span>
+                                                            {getSentimentIcon(item.sentiment)}
+                                                            <Badge variant="outline" className={`text-[10px] px-1.5 py-0 ${getImpactColor(item.impact)}`}>
+                                                                {item.impact}
+                                                            </Badge>
+                                                            <span className="text-[10px] text-muted-foreground truncate">{item.source}</span>
+                                                        </div>
                                                         <p className="text-sm font-medium leading-snug group-hover:text-primary transition-colors">
                                                             {item.title}
                                                         </p>
@@ -206,19 +221,28 @@ export function SentinelNewsAudit({ headlines, isScanning }: SentinelNewsAuditPr
                                 <div className="mt-auto pt-4 border-t border-primary/10">
                                     <div className="flex justify-between items-center text-xs">
                                         <span className="text-muted-foreground">Consensus:</span>
-                                        <span className={`font-bold ${headlines.filter(h => h.sentiment === "positive").length > headlines.filter(h => h.sentiment === "negative").length
+                                        <span className={`font-bold ${consensus === "BULLISH"
                                                 ? "text-emerald-400"
-                                                : headlines.filter(h => h.sentiment === "negative").length > headlines.filter(h => h.sentiment === "positive").length
+                                                : consensus === "BEARISH"
                                                     ? "text-red-400"
                                                     : "text-amber-400"
                                             }`}>
-                                            {headlines.filter(h => h.sentiment === "positive").length > headlines.filter(h => h.sentiment === "negative").length
+                                            {consensus === "BULLISH"
                                                 ? "Leaning Bullish"
-                                                : headlines.filter(h => h.sentiment === "negative").length > headlines.filter(h => h.sentiment === "positive").length
+                                                : consensus === "BEARISH"
                                                     ? "Leaning Bearish"
                                                     : "Balanced / Neutral"}
+                                            {sentiment && ` (${sentiment.score > 0 ? "+" : ""}${sentiment.score})`}
                                         </span>
                                     </div>
+                                    {sentiment && sentiment.drivers.length > 0 && (
+                                        <div className="mt-2 space-y-1">
+                                            <span className="text-[10px] uppercase tracking-wider text-muted-foreground">Key Drivers</span>
+                                            {sentiment.drivers.map(title => (
+                                                <p key={title} className="text-[11px] leading-snug text-muted-foreground line-clamp-2">{title}</p>
+                                            ))}
+                                        </div>
+                                    )}
                                 </div>
                             </div>
                         </div>
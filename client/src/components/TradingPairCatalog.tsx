@@ -0,0 +1,366 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ListChecks, Pencil, Plus } from "lucide-react";
+import { pairCategories, type PairCategory, type PairProviderSymbols, type TradingPairConfig } from "@shared/schema";
+import { pairCategoryLabels } from "@/hooks/usePairCatalog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+interface TradingPairRow {
+  symbol: string;
+  category: PairCategory;
+  providerSymbols: PairProviderSymbols;
+  providerOrder: TradingPairConfig["providerOrder"];
+  decimals: number;
+  minTick: number;
+  enabled: boolean;
+  updatedAt: string;
+}
+
+interface PairForm {
+  symbol: string;
+  category: PairCategory;
+  cryptocompareFrom: string;
+  cryptocompareTo: string;
+  yahoo: string;
+  // Comma-separated provider ids; blank uses the category default
+  providerOrder: string;
+  decimals: string;
+  minTick: string;
+}
+
+const emptyForm: PairForm = {
+  symbol: "",
+  category: "crypto",
+  cryptocompareFrom: "",
+  cryptocompareTo: "",
+  yahoo: "",
+  providerOrder: "",
+  decimals: "2",
+  minTick: "0.01",
+};
+
+function toForm(pair: TradingPairRow): PairForm {
+  return {
+    symbol: pair.symbol,
+    category: pair.category,
+    cryptocompareFrom: pair.providerSymbols.cryptocompare?.from ?? "",
+    cryptocompareTo: pair.providerSymbols.cryptocompare?.to ?? "",
+    yahoo: pair.providerSymbols.yahoo ?? "",
+    providerOrder: pair.providerOrder.join(", "),
+    decimals: String(pair.decimals),
+    minTick: String(pair.minTick),
+  };
+}
+
+function fromForm(form: PairForm) {
+  const from = form.cryptocompareFrom.trim().toUpperCase();
+  const to = form.cryptocompareTo.trim().toUpperCase();
+  const yahoo = form.yahoo.trim();
+
+  return {
+    category: form.category,
+    providerSymbols: {
+      ...(from && to ? { cryptocompare: { from, to } } : {}),
+      ...(yahoo ? { yahoo } : {}),
+    },
+    providerOrder: form.providerOrder
+      .split(",")
+      .map((id) => id.trim().toLowerCase())
+      .filter(Boolean),
+    decimals: parseInt(form.decimals, 10),
+    minTick: parseFloat(form.minTick),
+  };
+}
+
+function describeProviders(pair: TradingPairRow): string {
+  const symbols = pair.providerSymbols;
+  const parts: string[] = [];
+  if (symbols.cryptocompare) parts.push(`CC ${symbols.cryptocompare.from}/${symbols.cryptocompare.to}`);
+  if (symbols.yahoo) parts.push(`Yahoo ${symbols.yahoo}`);
+  if (pair.providerOrder.length > 0) parts.push(`Order ${pair.providerOrder.join(" > ")}`);
+  return parts.join(" · ") || "None";
+}
+
+export function TradingPairCatalog() {
+  const { toast } = useToast();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  // Symbol of the pair being edited; null while adding a new pair
+  const [editingSymbol, setEditingSymbol] = useState<string | null>(null);
+  const [form, setForm] = useState<PairForm>(emptyForm);
+
+  const { data: pairs, isLoading, error } = useQuery<TradingPairRow[]>({
+    queryKey: ["/api/admin/pairs"],
+  });
+
+  const invalidatePairs = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/pairs"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/pairs"] });
+  };
+
+  const savePairMutation = useMutation({
+    mutationFn: async (values: PairForm) => {
+      const body = fromForm(values);
+      const response = editingSymbol
+        ? await apiRequest("PATCH", `/api/admin/pairs/${editingSymbol}`, body)
+        : await apiRequest("POST", "/api/admin/pairs", { ...body, symbol: values.symbol.trim().toUpperCase() });
+      return await response.json();
+    },
+    onSuccess: (pair: TradingPairRow) => {
+      toast({
+        title: editingSymbol ? "Pair Updated" : "Pair Added",
+        description: `${pair.symbol} saved to the catalog.`,
+      });
+      invalidatePairs();
+      setDialogOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Save Failed",
+        description: error.message || "Failed to save the trading pair.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleEnabledMutation = useMutation({
+    mutationFn: async ({ symbol, enabled }: { symbol: string; enabled: boolean }) => {
+      const response = await apiRequest("PATCH", `/api/admin/pairs/${symbol}`, { enabled });
+      return await response.json();
+    },
+    onSuccess: () => invalidatePairs(),
+    onError: (error: Error) => {
+      toast({
+        title: "Update Failed",
+        description: error.message || "Failed to update the trading pair.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openAddDialog = () => {
+    setEditingSymbol(null);
+    setForm(emptyForm);
+    setDialogOpen(true);
+  };
+
+  const openEditDialog = (pair: TradingPairRow) => {
+    setEditingSymbol(pair.symbol);
+    setForm(toForm(pair));
+    setDialogOpen(true);
+  };
+
+  const updateForm = (field: keyof PairForm, value: string) => {
+    setForm((current) => ({ ...current, [field]: value }));
+  };
+
+  const enabledCount = pairs?.filter((pair) => pair.enabled).length ?? 0;
+
+  // Only owner company admins manage the shared pair catalog
+  if (error?.message.startsWith("403")) {
+    return null;
+  }
+
+  return (
+    <Card data-testid="card-trading-pairs" className="relative overflow-hidden bg-gradient-to-br from-card via-card to-emerald-500/5 backdrop-blur-sm border-emerald-500/20 shadow-lg">
+      <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-transparent via-emerald-500/50 to-transparent"></div>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <div className="h-8 w-8 md:h-10 md:w-10 rounded-lg bg-gradient-to-br from-emerald-500/20 to-teal-500/20 border border-emerald-500/30 flex items-center justify-center flex-shrink-0">
+              <ListChecks className="h-4 w-4 md:h-5 md:w-5 text-emerald-400" />
+            </div>
+            <div className="min-w-0">
+              <CardTitle className="text-sm md:text-base bg-gradient-to-r from-emerald-400 to-teal-400 bg-clip-text text-transparent font-black">Trading Pairs</CardTitle>
+              <CardDescription className="mt-1 text-xs md:text-sm">
+                {isLoading ? "Loading catalog..." : `${enabledCount} of ${pairs?.length ?? 0} pairs enabled for analysis`}
+              </CardDescription>
+            </div>
+          </div>
+          <Button size="sm" variant="outline" onClick={openAddDialog} data-testid="button-add-pair">
+            <Plus className="h-4 w-4 mr-1" />
+            Add Pair
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-32 w-full" />
+        ) : pairs && pairs.length > 0 ? (
+          <div className="max-h-96 overflow-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Pair</TableHead>
+                  <TableHead>Category</TableHead>
+                  <TableHead className="hidden md:table-cell">Providers</TableHead>
+                  <TableHead className="text-right">Decimals</TableHead>
+                  <TableHead className="text-right hidden md:table-cell">Min Tick</TableHead>
+                  <TableHead className="text-center">Enabled</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {pairs.map((pair) => {
+                  const testId = pair.symbol.toLowerCase().replace("/", "-");
+                  return (
+                    <TableRow key={pair.symbol} data-testid={`row-pair-${testId}`} className={pair.enabled ? "" : "opacity-60"}>
+                      <TableCell className="font-mono font-medium">{pair.symbol}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className="text-xs">{pairCategoryLabels[pair.category]}</Badge>
+                      </TableCell>
+                      <TableCell className="hidden md:table-cell text-xs text-muted-foreground">{describeProviders(pair)}</TableCell>
+                      <TableCell className="text-right font-mono">{pair.decimals}</TableCell>
+                      <TableCell className="text-right font-mono hidden md:table-cell">{pair.minTick}</TableCell>
+                      <TableCell className="text-center">
+                        <Switch
+                          checked={pair.enabled}
+                          disabled={toggleEnabledMutation.isPending}
+                          onCheckedChange={(enabled) => toggleEnabledMutation.mutate({ symbol: pair.symbol, enabled })}
+                          data-testid={`switch-pair-enabled-${testId}`}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Button size="icon" variant="ghost" onClick={() => openEditDialog(pair)} data-testid={`button-edit-pair-${testId}`}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground" data-testid="text-no-pairs">
+            Trading pair catalog unavailable
+          </p>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent data-testid="dialog-trading-pair" className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editingSymbol ? `Edit ${editingSymbol}` : "Add Trading Pair"}</DialogTitle>
+            <DialogDescription>
+              Provider symbols tell the market data and news sources which instrument to fetch.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-3 py-2">
+            <div className="space-y-2 col-span-2">
+              <Label htmlFor="pair-symbol">Pair</Label>
+              <Input
+                id="pair-symbol"
+                placeholder="BTC/USDT"
+                value={form.symbol}
+                disabled={editingSymbol !== null}
+                onChange={(e) => updateForm("symbol", e.target.value)}
+                data-testid="input-pair-symbol"
+              />
+            </div>
+            <div className="space-y-2 col-span-2">
+              <Label>Category</Label>
+              <Select value={form.category} onValueChange={(value) => updateForm("category", value)}>
+                <SelectTrigger data-testid="select-pair-category">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {pairCategories.map((category) => (
+                    <SelectItem key={category} value={category}>{pairCategoryLabels[category]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="pair-cc-from">CryptoCompare from</Label>
+              <Input
+                id="pair-cc-from"
+                placeholder="BTC"
+                value={form.cryptocompareFrom}
+                onChange={(e) => updateForm("cryptocompareFrom", e.target.value)}
+                data-testid="input-pair-cc-from"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="pair-cc-to">CryptoCompare to</Label>
+              <Input
+                id="pair-cc-to"
+                placeholder="USDT"
+                value={form.cryptocompareTo}
+                onChange={(e) => updateForm("cryptocompareTo", e.target.value)}
+                data-testid="input-pair-cc-to"
+              />
+            </div>
+            <div className="space-y-2 col-span-2">
+              <Label htmlFor="pair-yahoo">Yahoo ticker</Label>
+              <Input
+                id="pair-yahoo"
+                placeholder="EURUSD=X"
+                value={form.yahoo}
+                onChange={(e) => updateForm("yahoo", e.target.value)}
+                data-testid="input-pair-yahoo"
+              />
+            </div>
+            <div className="space-y-2 col-span-2">
+              <Label htmlFor="pair-provider-order">Provider order</Label>
+              <Input
+                id="pair-provider-order"
+                placeholder="yahoo, cryptocompare (blank = category default)"
+                value={form.providerOrder}
+                onChange={(e) => updateForm("providerOrder", e.target.value)}
+                data-testid="input-pair-provider-order"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="pair-decimals">Decimals</Label>
+              <Input
+                id="pair-decimals"
+                type="number"
+                min="0"
+                max="10"
+                step="1"
+                value={form.decimals}
+                onChange={(e) => updateForm("decimals", e.target.value)}
+                data-testid="input-pair-decimals"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="pair-min-tick">Min tick</Label>
+              <Input
+                id="pair-min-tick"
+                type="number"
+                min="0"
+                step="any"
+                value={form.minTick}
+                onChange={(e) => updateForm("minTick", e.target.value)}
+                data-testid="input-pair-min-tick"
+              />
+            </div>
+          </div>
+          <DialogFooter className="gap-2 sm:gap-0">
+            <Button variant="outline" onClick={() => setDialogOpen(false)} data-testid="button-cancel-pair">
+              Cancel
+            </Button>
+            <Button
+              onClick={() => savePairMutation.mutate(form)}
+              disabled={savePairMutation.isPending || (!editingSymbol && !form.symbol.trim())}
+              data-testid="button-save-pair"
+            >
+              {savePairMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
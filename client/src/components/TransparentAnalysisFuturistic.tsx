@@ -36,6 +36,9 @@ import {
   HelpCircle,
   Activity,
   ShieldCheck,
+  Wrench,
+  AlertTriangle,
+  Layers,
 } from "lucide-react";
 import type {
   AnalysisStage,
@@ -49,10 +52,13 @@ import type {
   ProtocolAction,
   AuditCheck,
   NewsHeadline,
+  NewsSentiment,
+  TradeTargetValidation,
+  ConfluenceMatrix,
 } from "@shared/schema";
 import { TradingViewAdvancedChart } from "@/components/TradingViewAdvancedChart";
 import { DiagnosticConsole } from "@/components/DiagnosticConsole";
-import { DecisionMatrix } from "@/components/DecisionMatrix";
+import { ConfluenceMatrixGrid, DecisionMatrix } from "@/components/DecisionMatrix";
 import { SentinelNewsAudit } from "@/components/SentinelNewsAudit";
 
 interface TransparentAnalysisProps {
@@ -85,6 +91,13 @@ const stageConfig = {
     gradient: "from-purple-500 to-pink-500",
     color: "text-purple-400",
   },
+  mtf_confluence: {
+    icon: Layers,
+    title: "Timeframe Confluence",
+    description: "Cross-checking trend, momentum and volatility across timeframes",
+    gradient: "from-sky-500 to-indigo-500",
+    color: "text-sky-400",
+  },
   hedge_fund_audit: {
     icon: ShieldCheck,
     title: "Hedge Fund Audit",
@@ -281,6 +294,36 @@ function MarketDataDisplay({ data }: { data: MarketDataSnapshot }) {
   );
 }
 
+function IndicatorSparkline({ series, signal }: { series: number[]; signal: "UP" | "DOWN" | "NEUTRAL" }) {
+  const width = 96;
+  const height = 24;
+  const min = Math.min(...series);
+  const max = Math.max(...series);
+  const span = max - min || 1;
+
+  const points = series
+    .map((value, idx) => {
+      const x = (idx / (series.length - 1)) * width;
+      const y = height - ((value - min) / span) * (height - 2) - 1;
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(" ");
+
+  const stroke = signal === "UP" ? "stroke-green-400" : signal === "DOWN" ? "stroke-red-400" : "stroke-primary/70";
+
+  return (
+    <svg
+      width={width}
+      height={height}
+      viewBox={`0 0 ${width} ${height}`}
+      className="shrink-0"
+      data-testid="indicator-sparkline"
+    >
+      <polyline points={points} fill="none" strokeWidth={1.5} strokeLinejoin="round" className={stroke} />
+    </svg>
+  );
+}
+
 function TechnicalIndicatorsDisplay({
   indicators,
 }: {
@@ -363,6 +406,9 @@ function TechnicalIndicatorsDisplay({
                         <div className="w-full h-full bg-primary/20 animate-pulse" />
                       )}
                     </div>
+                    {indicator.series && indicator.series.length > 1 && (
+                      <IndicatorSparkline series={indicator.series} signal={indicator.signal} />
+                    )}
                   </div>
                 </div>
               ))}
@@ -549,6 +595,46 @@ function AIThinkingDisplay({ data, onComplete, isLoadedSession }: { data: AIThin
   );
 }
 
+const tradeTargetSourceConfig = {
+  model: { label: "Model targets", icon: ShieldCheck, className: "text-green-400 border-green-500/30 bg-green-500/10" },
+  repaired: { label: "Repaired targets", icon: Wrench, className: "text-amber-400 border-amber-500/30 bg-amber-500/10" },
+  synthesized: { label: "Synthesized targets", icon: AlertTriangle, className: "text-orange-400 border-orange-500/30 bg-orange-500/10" },
+};
+
+function TradeTargetProvenance({ validation }: { validation: TradeTargetValidation }) {
+  const config = tradeTargetSourceConfig[validation.source];
+  const Icon = config.icon;
+
+  return (
+    <div className="space-y-2 pt-2 border-t border-border/40" data-testid="trade-target-validation">
+      <div className="flex flex-wrap items-center gap-2">
+        <Badge variant="outline" className={`gap-1 ${config.className}`}>
+          <Icon className="w-3 h-3" />
+          {config.label}
+        </Badge>
+        <span className="text-xs font-mono text-muted-foreground">
+          R:R {validation.riskReward.toFixed(2)} (min {validation.minRiskReward.toFixed(1)})
+        </span>
+        <span className="text-xs font-mono text-muted-foreground">
+          Stop {validation.stopAtrMultiple.toFixed(2)} ATR
+        </span>
+      </div>
+      {validation.issues.length > 0 && (
+        <div className="space-y-1">
+          {validation.issues.map((issue, idx) => (
+            <div key={idx} className="flex items-start gap-2 text-xs text-muted-foreground">
+              <span className={issue.action === "rejected" ? "text-orange-400 font-semibold uppercase" : "text-amber-400 font-semibold uppercase"}>
+                {issue.action}
+              </span>
+              <span className="flex-1">{issue.message}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
 function FinalVerdictDisplay({
   data,
   tradingPair,
@@ -663,6 +749,9 @@ function FinalVerdictDisplay({
                 No actionable trade setup detected. Waiting for a higher-confidence entry.
               </div>
             )}
+            {isActionable && data.tradeTargets && data.tradeTargetValidation && (
+              <TradeTargetProvenance validation={data.tradeTargetValidation} />
+            )}
           </div>
         </div>
 
@@ -889,6 +978,11 @@ export function TransparentAnalysis({
                               }
                             />
                           )}
+                        {stage.stage === "mtf_confluence" && (
+                          <ConfluenceMatrixGrid
+                            matrix={(stage.data as any).matrix as ConfluenceMatrix}
+                          />
+                        )}
                         {stage.stage === "hedge_fund_audit" && (
                           <DecisionMatrix
                             checks={(stage.data as any).checks as AuditCheck[]}
@@ -898,6 +992,7 @@ export function TransparentAnalysis({
                         {stage.stage === "sentiment_analysis" && (
                           <SentinelNewsAudit
                             headlines={(stage.data as any).headlines as NewsHeadline[]}
+                            sentiment={(stage.data as any).sentiment as NewsSentiment | undefined}
                             isScanning={stage.status === "in_progress"}
                           />
                         )}
@@ -0,0 +1,168 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { RotateCcw, Webhook } from "lucide-react";
+import { webhookEventStatuses, type WebhookEventStatus } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+interface WebhookEventRow {
+  id: string;
+  eventType: string | null;
+  signatureValid: boolean | null;
+  status: WebhookEventStatus;
+  statusReason: string | null;
+  attempts: number;
+  receivedAt: string;
+  lastAttemptAt: string | null;
+}
+
+const statusBadgeClasses: Record<WebhookEventStatus, string> = {
+  received: "border-amber-500/40 text-amber-400",
+  processed: "border-emerald-500/40 text-emerald-400",
+  failed: "border-red-500/40 text-red-400",
+  ignored: "border-muted-foreground/40 text-muted-foreground",
+};
+
+function describeSignature(signatureValid: boolean | null): string {
+  if (signatureValid === null) return "Unsigned";
+  return signatureValid ? "Valid" : "Invalid";
+}
+
+export function WebhookEventsCard() {
+  const { toast } = useToast();
+  const [statusFilter, setStatusFilter] = useState<WebhookEventStatus | "all">("all");
+
+  const eventsUrl = statusFilter === "all"
+    ? "/api/admin/webhook-events"
+    : `/api/admin/webhook-events?status=${statusFilter}`;
+
+  const { data: events, isLoading, error } = useQuery<WebhookEventRow[]>({
+    queryKey: [eventsUrl],
+    refetchInterval: (query) => (query.state.error ? false : 30000),
+  });
+
+  const replayMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("POST", `/api/admin/webhook-events/${id}/replay`);
+      return await response.json();
+    },
+    onSuccess: (event: WebhookEventRow) => {
+      toast({
+        title: event.status === "failed" ? "Replay Failed" : "Event Replayed",
+        description: event.statusReason || `Event is now ${event.status}.`,
+        variant: event.status === "failed" ? "destructive" : "default",
+      });
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/admin/webhook-events"),
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Replay Failed",
+        description: error.message || "Failed to replay the webhook event.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const failedCount = events?.filter((event) => event.status === "failed").length ?? 0;
+
+  // Only owner company admins can see webhook deliveries
+  if (error?.message.startsWith("403")) {
+    return null;
+  }
+
+  return (
+    <Card data-testid="card-webhook-events" className="relative overflow-hidden bg-gradient-to-br from-card via-card to-sky-500/5 backdrop-blur-sm border-sky-500/20 shadow-lg">
+      <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-transparent via-sky-500/50 to-transparent"></div>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <div className="h-8 w-8 md:h-10 md:w-10 rounded-lg bg-gradient-to-br from-sky-500/20 to-indigo-500/20 border border-sky-500/30 flex items-center justify-center flex-shrink-0">
+              <Webhook className="h-4 w-4 md:h-5 md:w-5 text-sky-400" />
+            </div>
+            <div className="min-w-0">
+              <CardTitle className="text-sm md:text-base bg-gradient-to-r from-sky-400 to-indigo-400 bg-clip-text text-transparent font-black">Webhook Events</CardTitle>
+              <CardDescription className="mt-1 text-xs md:text-sm">
+                {isLoading ? "Loading events..." : `${events?.length ?? 0} recent deliveries, ${failedCount} failed`}
+              </CardDescription>
+            </div>
+          </div>
+          <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as WebhookEventStatus | "all")}>
+            <SelectTrigger className="w-32" data-testid="select-webhook-status">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All</SelectItem>
+              {webhookEventStatuses.map((status) => (
+                <SelectItem key={status} value={status} className="capitalize">{status}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-32 w-full" />
+        ) : events && events.length > 0 ? (
+          <div className="max-h-96 overflow-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Received</TableHead>
+                  <TableHead>Event</TableHead>
+                  <TableHead className="hidden md:table-cell">Signature</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right hidden md:table-cell">Attempts</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {events.map((event) => {
+                  const replayable = event.status === "failed" || event.status === "received";
+                  return (
+                    <TableRow key={event.id} data-testid={`row-webhook-event-${event.id}`}>
+                      <TableCell className="text-xs whitespace-nowrap">{new Date(event.receivedAt).toLocaleString()}</TableCell>
+                      <TableCell className="font-mono text-xs">{event.eventType || "unknown"}</TableCell>
+                      <TableCell className="hidden md:table-cell text-xs text-muted-foreground">{describeSignature(event.signatureValid)}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className={`text-xs capitalize ${statusBadgeClasses[event.status]}`} title={event.statusReason ?? undefined}>
+                          {event.status}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right font-mono hidden md:table-cell">{event.attempts}</TableCell>
+                      <TableCell>
+                        {replayable && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={replayMutation.isPending}
+                            onClick={() => replayMutation.mutate(event.id)}
+                            data-testid={`button-replay-webhook-${event.id}`}
+                          >
+                            <RotateCcw className="h-3 w-3 mr-1" />
+                            Replay
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground" data-testid="text-no-webhook-events">
+            No webhook events recorded yet
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,54 @@
+import { useQuery } from "@tanstack/react-query";
+import {
+  cryptoPairs,
+  forexPairs,
+  commoditiesPairs,
+  indicesPairs,
+  pairCategories,
+  type PairCategory,
+  type TradingPair,
+} from "@shared/schema";
+
+export interface CatalogPair {
+  symbol: TradingPair;
+  category: PairCategory;
+  decimals: number;
+  minTick: number;
+  enabled: boolean;
+}
+
+export const pairCategoryLabels: Record<PairCategory, string> = {
+  crypto: "Crypto",
+  forex: "Forex",
+  commodities: "Commodities",
+  indices: "Indices",
+};
+
+// Shown until the server catalog loads, or if it cannot be reached
+const builtInPairs: CatalogPair[] = [
+  ...cryptoPairs.map((symbol) => ({ symbol, category: "crypto" as const })),
+  ...forexPairs.map((symbol) => ({ symbol, category: "forex" as const })),
+  ...commoditiesPairs.map((symbol) => ({ symbol, category: "commodities" as const })),
+  ...indicesPairs.map((symbol) => ({ symbol, category: "indices" as const })),
+].map((pair) => ({ ...pair, decimals: 2, minTick: 0.01, enabled: true }));
+
+/**
+ * Enabled trading pairs from the server catalog, grouped by category in display order.
+ */
+export function usePairCatalog() {
+  const { data, isLoading } = useQuery<CatalogPair[]>({
+    queryKey: ["/api/pairs"],
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const pairs = data ?? builtInPairs;
+  const groups = pairCategories
+    .map((category) => ({
+      category,
+      label: pairCategoryLabels[category],
+      pairs: pairs.filter((pair) => pair.category === category).map((pair) => pair.symbol),
+    }))
+    .filter((group) => group.pairs.length > 0);
+
+  return { pairs, groups, isLoading };
+}
@@ -2,7 +2,7 @@ import { useEffect, useRef, useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 
 interface ServerMessage {
-  type: "bot_message" | "typing" | "prediction" | "insufficient_credits" | "credits_update" | "analysis_stage" | "ai_thinking_stream";
+  type: "bot_message" | "typing" | "prediction" | "insufficient_credits" | "credits_update" | "analysis_stage" | "ai_thinking_stream" | "price_alert";
   content: string;
   prediction?: {
     pair: string;
@@ -126,6 +126,13 @@ export function useWebSocket(experienceId?: string): UseWebSocketReturn {
     }
   };
 
+  // Register this socket for the user so server-side alerts can be pushed to it
+  useEffect(() => {
+    if (isConnected) {
+      sendMessage({ type: "identify" });
+    }
+  }, [isConnected, user?.id]);
+
   const clearMessages = () => {
     setMessages([]);
   };
@@ -0,0 +1,28 @@
+// Standard Webhooks signing, as used by Whop, so test payloads pass the server's signature check.
+// The secret must match WHOP_WEBHOOK_TEST_SECRET on a development server. It is typed in by the
+// admin and never bundled.
+
+function toBase64(bytes: ArrayBuffer): string {
+  return btoa(String.fromCharCode(...Array.from(new Uint8Array(bytes))));
+}
+
+export async function signTestWebhook(body: string, secret: string): Promise<Record<string, string>> {
+  const id = `msg_test_${Date.now()}`;
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  const encoder = new TextEncoder();
+
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(`${id}.${timestamp}.${body}`));
+
+  return {
+    "webhook-id": id,
+    "webhook-timestamp": timestamp,
+    "webhook-signature": `v1,${toBase64(signature)}`,
+  };
+}
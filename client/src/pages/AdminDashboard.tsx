@@ -8,12 +8,15 @@ import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, D
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
-import { DollarSign, TrendingUp, History, Info, Wallet, Sparkles, User } from "lucide-react";
+import { DollarSign, TrendingUp, History, Info, Wallet, Sparkles, User, Database } from "lucide-react";
 import { format } from "date-fns";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { Link } from "wouter";
 import { ThemeToggle } from "@/components/ThemeToggle";
+import { TradingPairCatalog } from "@/components/TradingPairCatalog";
+import { WebhookEventsCard } from "@/components/WebhookEventsCard";
+import { CommissionRulesCard } from "@/components/CommissionRulesCard";
 import { useState } from "react";
 
 interface AdminBalance {
@@ -30,6 +33,8 @@ interface CommissionPayment {
   commissionAmount: number;
   customerUserId: string | null;
   customerEmail: string | null;
+  commissionRuleId: string | null;
+  refundedAt: string | null;
   createdAt: string;
 }
 
@@ -65,6 +70,16 @@ interface Membership {
   };
 }
 
+interface CandleCacheStats {
+  hits: number;
+  misses: number;
+  coalesced: number;
+  failures: number;
+  hitRate: number;
+  entries: Array<{ key: string; ageMs: number; ttlMs: number; candles: number }>;
+  since: string;
+}
+
 interface MembershipsResponse {
   data: Membership[];
   page_info: {
@@ -101,6 +116,13 @@ export default function AdminDashboard() {
   });
 
 
+  const { data: candleCache, isLoading: candleCacheLoading, error: candleCacheError } = useQuery<CandleCacheStats>({
+    queryKey: ["/api/admin/candle-cache"],
+    refetchInterval: (query) => (query.state.error ? false : 30000),
+  });
+  // Cache stats cover every company's traffic, so only owner company admins see them
+  const candleCacheHidden = candleCacheError?.message.startsWith("403") ?? false;
+
   const withdrawMutation = useMutation({
     mutationFn: async (amount: number) => {
       if (!amount || amount <= 0) {
@@ -584,6 +606,11 @@ export default function AdminDashboard() {
                           <Badge variant="outline" className="text-xs font-mono">
                             {commission.paymentId.substring(0, 8)}
                           </Badge>
+                          {commission.refundedAt && (
+                            <Badge variant="destructive" className="text-xs" data-testid={`badge-refunded-${commission.id}`}>
+                              Refunded
+                            </Badge>
+                          )}
                         </div>
                         {commission.customerEmail && (
                           <p className="text-xs md:text-sm text-muted-foreground truncate" data-testid={`text-customer-${commission.id}`}>
@@ -593,9 +620,14 @@ export default function AdminDashboard() {
                         <p className="text-xs text-muted-foreground mt-1">
                           {format(new Date(commission.createdAt), "MMM d, yyyy 'at' h:mm a")}
                         </p>
+                        {commission.commissionRuleId && (
+                          <p className="text-xs text-muted-foreground font-mono" data-testid={`text-commission-rule-${commission.id}`}>
+                            Rule: {commission.commissionRuleId}
+                          </p>
+                        )}
                       </div>
                       <div className="text-right flex-shrink-0">
-                        <p className="text-base md:text-xl font-black bg-gradient-to-r from-green-400 to-emerald-400 bg-clip-text text-transparent" data-testid={`text-commission-amount-${commission.id}`}>
+                        <p className={`text-base md:text-xl font-black bg-gradient-to-r from-green-400 to-emerald-400 bg-clip-text text-transparent ${commission.refundedAt ? "line-through opacity-60" : ""}`} data-testid={`text-commission-amount-${commission.id}`}>
                           {formatCurrency(commission.commissionAmount)}
                         </p>
                         <p className="text-xs text-muted-foreground whitespace-nowrap">
@@ -621,6 +653,73 @@ export default function AdminDashboard() {
             </CardContent>
           </Card>
 
+          {!candleCacheHidden && (
+            <Card data-testid="card-candle-cache" className="relative overflow-hidden bg-gradient-to-br from-card via-card to-cyan-500/5 backdrop-blur-sm border-cyan-500/20 shadow-lg">
+              <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-transparent via-cyan-500/50 to-transparent"></div>
+              <CardHeader>
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <div className="h-8 w-8 md:h-10 md:w-10 rounded-lg bg-gradient-to-br from-cyan-500/20 to-blue-500/20 border border-cyan-500/30 flex items-center justify-center flex-shrink-0">
+                      <Database className="h-4 w-4 md:h-5 md:w-5 text-cyan-400" />
+                    </div>
+                    <div className="min-w-0">
+                      <CardTitle className="text-sm md:text-base bg-gradient-to-r from-cyan-400 to-blue-400 bg-clip-text text-transparent font-black">Market Data Cache</CardTitle>
+                      <CardDescription className="mt-1 text-xs md:text-sm">
+                        Candle requests served from cache vs. sent upstream
+                        {candleCache?.since && ` since ${format(new Date(candleCache.since), "MMM d, h:mm a")}`}
+                      </CardDescription>
+                    </div>
+                  </div>
+                  <div className="flex items-center justify-center min-w-[2.5rem] h-8 md:h-10 px-3 rounded-lg bg-gradient-to-br from-cyan-500/20 to-blue-500/20 border border-cyan-500/30" data-testid="text-cache-hit-rate">
+                    <span className="text-lg md:text-xl font-bold bg-gradient-to-r from-cyan-400 to-blue-400 bg-clip-text text-transparent">
+                      {candleCacheLoading ? "..." : `${candleCache?.hitRate ?? 0}%`}
+                    </span>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent>
+                {candleCacheLoading ? (
+                  <Skeleton className="h-16 w-full" />
+                ) : candleCache ? (
+                  <div className="space-y-4">
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                      {[
+                        { label: "Hits", value: candleCache.hits, testId: "text-cache-hits" },
+                        { label: "Coalesced", value: candleCache.coalesced, testId: "text-cache-coalesced" },
+                        { label: "Upstream Fetches", value: candleCache.misses, testId: "text-cache-misses" },
+                        { label: "Provider Failures", value: candleCache.failures, testId: "text-cache-failures" },
+                      ].map((stat) => (
+                        <div key={stat.label} className="p-3 rounded-lg bg-gradient-to-br from-background/80 to-cyan-500/5 border border-cyan-500/20">
+                          <p className="text-xs text-muted-foreground">{stat.label}</p>
+                          <p className="text-lg font-bold" data-testid={stat.testId}>{stat.value}</p>
+                        </div>
+                      ))}
+                    </div>
+                    {candleCache.entries.length > 0 && (
+                      <div className="flex flex-wrap gap-2">
+                        {candleCache.entries.map((entry) => (
+                          <Badge key={entry.key} variant="outline" className="text-xs font-mono" data-testid={`badge-cache-entry-${entry.key}`}>
+                            {entry.key.replace("|", " ")} · {Math.round(entry.ageMs / 1000)}s/{Math.round(entry.ttlMs / 1000)}s
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                ) : (
+                  <p className="text-sm text-muted-foreground" data-testid="text-no-cache-stats">
+                    Cache statistics unavailable
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          <TradingPairCatalog />
+
+          <CommissionRulesCard />
+
+          <WebhookEventsCard />
+
           <Card className="relative overflow-hidden bg-gradient-to-br from-muted/30 via-muted/20 to-primary/5 backdrop-blur-sm border-primary/10 shadow-lg">
             <div className="absolute bottom-0 right-0 w-64 h-64 bg-gradient-to-tl from-primary/5 to-transparent rounded-full blur-3xl"></div>
             <CardHeader className="relative">
@@ -178,6 +178,21 @@ export default function Chat() {
         continue;
       }
 
+      if (latestMessage.type === "price_alert") {
+        // Background alert - may arrive mid-analysis, so leave the typing state alone
+        queryClient.invalidateQueries({ queryKey: ["/api/credits"] });
+
+        const newMessage: Message = {
+          id: Date.now().toString() + Math.random(),
+          sender: "bot",
+          content: latestMessage.content,
+          timestamp: new Date(),
+          prediction: latestMessage.prediction as Message["prediction"],
+        };
+        setMessages((prev) => [...prev, newMessage]);
+        continue;
+      }
+
       setIsTyping(false);
 
       if (latestMessage.type === "prediction") {
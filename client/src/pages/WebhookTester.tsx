@@ -7,7 +7,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { signTestWebhook } from "@/lib/webhook-signing";
 import { Webhook, Send, CheckCircle2, XCircle, Info } from "lucide-react";
 import { Link } from "wouter";
 
@@ -19,6 +19,7 @@ export default function WebhookTester() {
   const [companyId, setCompanyId] = useState("biz_test_company");
   const [customerEmail, setCustomerEmail] = useState("test@example.com");
   const [customerUserId, setCustomerUserId] = useState("user_test_123");
+  const [testSecret, setTestSecret] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [lastResponse, setLastResponse] = useState<string | null>(null);
   const [lastSuccess, setLastSuccess] = useState<boolean | null>(null);
@@ -63,12 +64,17 @@ export default function WebhookTester() {
 
       console.log("Sending test webhook:", webhookPayload);
 
+      // Sign exactly the bytes that are sent; the server verifies against the raw body
+      const body = JSON.stringify(webhookPayload);
+      const signatureHeaders = testSecret ? await signTestWebhook(body, testSecret) : {};
+
       const response = await fetch("/api/webhooks/payment", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
+          ...signatureHeaders,
         },
-        body: JSON.stringify(webhookPayload),
+        body,
       });
 
       const responseText = await response.text();
@@ -221,6 +227,23 @@ export default function WebhookTester() {
               />
             </div>
 
+            {/* Test Signing Secret */}
+            <div className="space-y-2">
+              <Label htmlFor="testSecret">Test Signing Secret</Label>
+              <Input
+                id="testSecret"
+                data-testid="input-test-secret"
+                type="password"
+                value={testSecret}
+                onChange={(e) => setTestSecret(e.target.value)}
+                placeholder="WHOP_WEBHOOK_TEST_SECRET"
+              />
+              <p className="text-sm text-muted-foreground">
+                Must match <code className="bg-muted px-1 py-0.5 rounded">WHOP_WEBHOOK_TEST_SECRET</code> on the server. 
+                Test-signed and unsigned webhooks are only accepted in development.
+              </p>
+            </div>
+
             {/* Send Button */}
             <Button
               onClick={sendTestWebhook}
@@ -288,7 +311,7 @@ export default function WebhookTester() {
             <div className="flex items-start gap-3">
               <Badge variant="outline" className="mt-1">1</Badge>
               <p className="text-sm text-muted-foreground">
-                This tool sends a webhook payload to <code className="bg-muted px-1 py-0.5 rounded">/api/webhooks/payment</code> 
+                This tool signs a webhook payload with the test secret and sends it to <code className="bg-muted px-1 py-0.5 rounded">/api/webhooks/payment</code> 
                 with the payment data you provide above.
               </p>
             </div>
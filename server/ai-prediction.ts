@@ -1,13 +1,19 @@
-import { type TradingPair } from "@shared/schema";
+import { type TradeTargetValidation, type TradingPair } from "@shared/schema";
 import { fetchMarketData } from "./crypto-data";
 import { analyzeMarket, type TechnicalIndicators } from "./technical-analysis";
-import { getGeminiPrediction } from "./gemini-decision";
+import { getTradingDecision } from "./decision-engine";
+import { detectDivergences, type Divergence } from "./lib/divergence";
+import { detectPatterns, type CandlePattern } from "./lib/patterns";
+import { type MarketData } from "./lib/market-data/provider";
 
 export interface Prediction {
   pair: TradingPair;
   direction: "UP" | "DOWN" | "NEUTRAL";
   confidence: number;
   duration: string;
+  entryPrice?: number;
+  // Provider that served the candles; "synthetic" means every provider failed
+  marketDataSource?: MarketData["source"];
   analysis?: string;
   rationale?: string;
   riskFactors?: string[];
@@ -36,6 +42,7 @@ export interface Prediction {
     };
     thinkingProcess?: string;
     keyFactors?: string[];
+    tradeTargetValidation?: TradeTargetValidation;
   };
 }
 
@@ -544,6 +551,251 @@ export function analyzeSupportResistance(indicators: TechnicalIndicators, curren
   };
 }
 
+export function analyzeVWAP(indicators: TechnicalIndicators, currentPrice: number): WeightedSignal {
+  const { vwap } = indicators;
+  const deviation = vwap > 0 ? ((currentPrice - vwap) / vwap) * 100 : 0;
+
+  if (deviation > 0.3) {
+    return {
+      direction: "UP",
+      strength: Math.min(60 + deviation * 20, 85),
+      weight: 1.1,
+      reason: `Price ${deviation.toFixed(2)}% above VWAP - buyers in control`,
+      category: "Volume",
+    };
+  } else if (deviation < -0.3) {
+    return {
+      direction: "DOWN",
+      strength: Math.min(60 + Math.abs(deviation) * 20, 85),
+      weight: 1.1,
+      reason: `Price ${Math.abs(deviation).toFixed(2)}% below VWAP - sellers in control`,
+      category: "Volume",
+    };
+  }
+
+  return {
+    direction: "NEUTRAL",
+    strength: 0,
+    weight: 0.8,
+    reason: "Price hugging VWAP",
+    category: "Volume",
+  };
+}
+
+export function analyzeIchimoku(indicators: TechnicalIndicators, currentPrice: number): WeightedSignal {
+  const { tenkan, kijun, senkouA, senkouB } = indicators.ichimoku;
+  const cloudTop = Math.max(senkouA, senkouB);
+  const cloudBottom = Math.min(senkouA, senkouB);
+
+  if (currentPrice > cloudTop && tenkan > kijun && senkouA > senkouB) {
+    return {
+      direction: "UP",
+      strength: 90,
+      weight: 1.4,
+      reason: "Price above bullish Ichimoku cloud with Tenkan over Kijun",
+      category: "Trend",
+    };
+  } else if (currentPrice < cloudBottom && tenkan < kijun && senkouA < senkouB) {
+    return {
+      direction: "DOWN",
+      strength: 90,
+      weight: 1.4,
+      reason: "Price below bearish Ichimoku cloud with Tenkan under Kijun",
+      category: "Trend",
+    };
+  } else if (currentPrice > cloudTop) {
+    return {
+      direction: "UP",
+      strength: 65,
+      weight: 1.1,
+      reason: "Price above Ichimoku cloud",
+      category: "Trend",
+    };
+  } else if (currentPrice < cloudBottom) {
+    return {
+      direction: "DOWN",
+      strength: 65,
+      weight: 1.1,
+      reason: "Price below Ichimoku cloud",
+      category: "Trend",
+    };
+  }
+
+  return {
+    direction: "NEUTRAL",
+    strength: 0,
+    weight: 0.7,
+    reason: "Price inside Ichimoku cloud",
+    category: "Trend",
+  };
+}
+
+export function analyzeSupertrend(indicators: TechnicalIndicators, currentPrice: number): WeightedSignal {
+  const { supertrend, atr } = indicators;
+  // Distance from the trailing line in ATRs - close to the line means the flip is near
+  const cushion = atr > 0 ? Math.abs(currentPrice - supertrend.value) / atr : 0;
+  const strength = cushion > 2 ? 85 : cushion > 1 ? 75 : 60;
+
+  return {
+    direction: supertrend.direction,
+    strength,
+    weight: 1.3,
+    reason: supertrend.direction === "UP"
+      ? `Supertrend bullish - price ${cushion.toFixed(1)} ATR above the trailing line`
+      : `Supertrend bearish - price ${cushion.toFixed(1)} ATR below the trailing line`,
+    category: "Trend",
+  };
+}
+
+export function analyzeKeltnerChannels(indicators: TechnicalIndicators, currentPrice: number): WeightedSignal {
+  const { keltnerChannels, marketRegime } = indicators;
+  const { upper, lower } = keltnerChannels;
+
+  // A close outside the channel is a breakout in a trend but an overextension in a range
+  if (currentPrice > upper) {
+    return marketRegime === "RANGING"
+      ? { direction: "DOWN", strength: 70, weight: 1.0, reason: "Price above Keltner Channel in a range - overextended", category: "Volatility" }
+      : { direction: "UP", strength: 80, weight: 1.2, reason: "Keltner Channel upside breakout", category: "Volatility" };
+  } else if (currentPrice < lower) {
+    return marketRegime === "RANGING"
+      ? { direction: "UP", strength: 70, weight: 1.0, reason: "Price below Keltner Channel in a range - overextended", category: "Volatility" }
+      : { direction: "DOWN", strength: 80, weight: 1.2, reason: "Keltner Channel downside breakout", category: "Volatility" };
+  }
+
+  return {
+    direction: "NEUTRAL",
+    strength: 0,
+    weight: 0.7,
+    reason: "Price inside Keltner Channel",
+    category: "Volatility",
+  };
+}
+
+export function analyzeCCI(indicators: TechnicalIndicators): WeightedSignal {
+  const { cci } = indicators;
+
+  if (cci < -200) {
+    return {
+      direction: "UP",
+      strength: 90,
+      weight: 1.2,
+      reason: `CCI extremely oversold at ${cci.toFixed(0)}`,
+      category: "Momentum",
+    };
+  } else if (cci < -100) {
+    return {
+      direction: "UP",
+      strength: 70,
+      weight: 1.0,
+      reason: `CCI oversold at ${cci.toFixed(0)}`,
+      category: "Momentum",
+    };
+  } else if (cci > 200) {
+    return {
+      direction: "DOWN",
+      strength: 90,
+      weight: 1.2,
+      reason: `CCI extremely overbought at ${cci.toFixed(0)}`,
+      category: "Momentum",
+    };
+  } else if (cci > 100) {
+    return {
+      direction: "DOWN",
+      strength: 70,
+      weight: 1.0,
+      reason: `CCI overbought at ${cci.toFixed(0)}`,
+      category: "Momentum",
+    };
+  }
+
+  return {
+    direction: "NEUTRAL",
+    strength: 0,
+    weight: 0.7,
+    reason: "CCI neutral",
+    category: "Momentum",
+  };
+}
+
+export function analyzeMFI(indicators: TechnicalIndicators): WeightedSignal {
+  const { mfi } = indicators;
+
+  if (mfi < 20) {
+    return {
+      direction: "UP",
+      strength: 85,
+      weight: 1.2,
+      reason: `MFI oversold at ${mfi.toFixed(1)} - selling volume exhausted`,
+      category: "Volume",
+    };
+  } else if (mfi > 80) {
+    return {
+      direction: "DOWN",
+      strength: 85,
+      weight: 1.2,
+      reason: `MFI overbought at ${mfi.toFixed(1)} - buying volume exhausted`,
+      category: "Volume",
+    };
+  } else if (mfi < 35) {
+    return {
+      direction: "UP",
+      strength: 55,
+      weight: 0.9,
+      reason: "MFI trending low",
+      category: "Volume",
+    };
+  } else if (mfi > 65) {
+    return {
+      direction: "DOWN",
+      strength: 55,
+      weight: 0.9,
+      reason: "MFI trending high",
+      category: "Volume",
+    };
+  }
+
+  return {
+    direction: "NEUTRAL",
+    strength: 0,
+    weight: 0.6,
+    reason: "MFI neutral",
+    category: "Volume",
+  };
+}
+
+const DIVERGENCE_BASE_STRENGTH: Record<Divergence["indicator"], number> = {
+  RSI: 80,
+  MACD: 75,
+  OBV: 70,
+};
+
+export function analyzeDivergences(divergences: Divergence[]): WeightedSignal[] {
+  return divergences.map(d => {
+    // Hidden divergences confirm the trend rather than call a turn, so they count for less
+    const recencyBonus = d.barsAgo <= 3 ? 5 : 0;
+    const strength = DIVERGENCE_BASE_STRENGTH[d.indicator] - (d.kind === "hidden" ? 10 : 0) + recencyBonus;
+
+    return {
+      direction: d.direction,
+      strength,
+      weight: d.kind === "regular" ? 1.3 : 1.1,
+      reason: d.description,
+      category: d.indicator === "OBV" ? "Volume" : "Momentum",
+    };
+  });
+}
+
+export function analyzePatterns(patterns: CandlePattern[]): WeightedSignal[] {
+  return patterns.map(p => ({
+    direction: p.direction,
+    strength: p.confidence,
+    // Chart patterns span many candles and carry more weight than a single-candle formation
+    weight: p.type === "chart" ? 1.3 : 1.1,
+    reason: `${p.name}: ${p.description}`,
+    category: "Price Action",
+  }));
+}
+
 export function analyzeVolume(indicators: TechnicalIndicators, direction: "UP" | "DOWN"): number {
   const { volumeIndicator, obv } = indicators;
 
@@ -564,10 +816,11 @@ export function analyzeVolume(indicators: TechnicalIndicators, direction: "UP" |
   return 0;
 }
 
-function combineWeightedSignals(
+export function combineWeightedSignals(
   signals: WeightedSignal[],
   volumeBonus: number,
-  marketRegime: "STRONG_TRENDING" | "TRENDING" | "RANGING"
+  marketRegime: "STRONG_TRENDING" | "TRENDING" | "RANGING",
+  verbose: boolean = true
 ): {
   direction: "UP" | "DOWN" | "NEUTRAL";
   confidence: number;
@@ -581,8 +834,9 @@ function combineWeightedSignals(
   let downCount = 0;
   const upReasons: string[] = [];
   const downReasons: string[] = [];
+  const log = verbose ? console.log : () => {};
 
-  console.log('\n📊 Analyzing Signals:');
+  log('\n📊 Analyzing Signals:');
 
   for (const signal of signals) {
     const weightedStrength = signal.strength * signal.weight;
@@ -591,21 +845,21 @@ function combineWeightedSignals(
       upScore += weightedStrength;
       upCount++;
       upReasons.push(signal.reason);
-      console.log(`  ↗️  ${signal.category}: ${signal.reason} (Strength: ${signal.strength.toFixed(0)}, Weight: ${signal.weight.toFixed(1)})`);
+      log(`  ↗️  ${signal.category}: ${signal.reason} (Strength: ${signal.strength.toFixed(0)}, Weight: ${signal.weight.toFixed(1)})`);
     } else if (signal.direction === "DOWN") {
       downScore += weightedStrength;
       downCount++;
       downReasons.push(signal.reason);
-      console.log(`  ↘️  ${signal.category}: ${signal.reason} (Strength: ${signal.strength.toFixed(0)}, Weight: ${signal.weight.toFixed(1)})`);
+      log(`  ↘️  ${signal.category}: ${signal.reason} (Strength: ${signal.strength.toFixed(0)}, Weight: ${signal.weight.toFixed(1)})`);
     } else {
-      console.log(`  ➡️  ${signal.category}: ${signal.reason}`);
+      log(`  ➡️  ${signal.category}: ${signal.reason}`);
     }
   }
 
   const totalNonNeutral = upCount + downCount;
 
   if (totalNonNeutral === 0 || (upScore === 0 && downScore === 0)) {
-    console.log('⚠️  No clear signals - returning NEUTRAL');
+    log('⚠️  No clear signals - returning NEUTRAL');
     return {
       direction: "NEUTRAL",
       confidence: 0,
@@ -628,10 +882,10 @@ function combineWeightedSignals(
 
   const signalAlignment = totalNonNeutral > 0 ? (alignedCount / totalNonNeutral) * 100 : 0;
 
-  console.log(`\n📈 Score Summary:`);
-  console.log(`  UP Score: ${upScore.toFixed(1)} (${upCount} signals)`);
-  console.log(`  DOWN Score: ${downScore.toFixed(1)} (${downCount} signals)`);
-  console.log(`  Direction: ${direction} | Alignment: ${signalAlignment.toFixed(0)}%`);
+  log(`\n📈 Score Summary:`);
+  log(`  UP Score: ${upScore.toFixed(1)} (${upCount} signals)`);
+  log(`  DOWN Score: ${downScore.toFixed(1)} (${downCount} signals)`);
+  log(`  Direction: ${direction} | Alignment: ${signalAlignment.toFixed(0)}%`);
 
   let confidencePenalty = 0;
   if (signalAlignment < 85) {
@@ -662,13 +916,13 @@ function combineWeightedSignals(
 
   const qualityScore = (signalAlignment * 0.4) + ((finalConfidence - minConfidence) / range * 60);
 
-  console.log(`\n🎯 Confidence Calculation:`);
-  console.log(`  Raw Score: ${rawConfidence.toFixed(1)}`);
-  console.log(`  Normalized: ${(normalizedScore * 100).toFixed(1)}%`);
-  console.log(`  Penalty: ${confidencePenalty.toFixed(1)}`);
-  console.log(`  Regime (${marketRegime}): ${regimeMultiplier.toFixed(2)}x`);
-  console.log(`  Final Confidence: ${finalConfidence}%`);
-  console.log(`  Quality Score: ${qualityScore.toFixed(0)}%\n`);
+  log(`\n🎯 Confidence Calculation:`);
+  log(`  Raw Score: ${rawConfidence.toFixed(1)}`);
+  log(`  Normalized: ${(normalizedScore * 100).toFixed(1)}%`);
+  log(`  Penalty: ${confidencePenalty.toFixed(1)}`);
+  log(`  Regime (${marketRegime}): ${regimeMultiplier.toFixed(2)}x`);
+  log(`  Final Confidence: ${finalConfidence}%`);
+  log(`  Quality Score: ${qualityScore.toFixed(0)}%\n`);
 
   return {
     direction,
@@ -731,6 +985,12 @@ export async function generateAIPrediction(pair: TradingPair, timeframe: string
     const adxSignal = analyzeADX(indicators);
     const momentumSignal = analyzeMomentum(indicators);
     const srSignal = analyzeSupportResistance(indicators, marketData.currentPrice);
+    const vwapSignal = analyzeVWAP(indicators, marketData.currentPrice);
+    const ichimokuSignal = analyzeIchimoku(indicators, marketData.currentPrice);
+    const supertrendSignal = analyzeSupertrend(indicators, marketData.currentPrice);
+    const keltnerSignal = analyzeKeltnerChannels(indicators, marketData.currentPrice);
+    const cciSignal = analyzeCCI(indicators);
+    const mfiSignal = analyzeMFI(indicators);
 
     const signals = [
       rsiSignal,
@@ -741,6 +1001,14 @@ export async function generateAIPrediction(pair: TradingPair, timeframe: string
       adxSignal,
       momentumSignal,
       srSignal,
+      vwapSignal,
+      ichimokuSignal,
+      supertrendSignal,
+      keltnerSignal,
+      cciSignal,
+      mfiSignal,
+      ...analyzeDivergences(detectDivergences(marketData.candles)),
+      ...analyzePatterns(detectPatterns(marketData.candles)),
     ];
 
     const result = combineWeightedSignals(signals, 0, indicators.marketRegime);
@@ -798,7 +1066,7 @@ export async function generateAIPrediction(pair: TradingPair, timeframe: string
     const downScore = signals.filter(s => s.direction === "DOWN")
       .reduce((sum, s) => sum + (s.strength * s.weight), 0);
 
-    const geminiDecision = await getGeminiPrediction({
+    const aiDecision = await getTradingDecision({
       pair,
       currentPrice: marketData.currentPrice,
       priceChange24h: marketData.priceChange24h,
@@ -821,20 +1089,20 @@ export async function generateAIPrediction(pair: TradingPair, timeframe: string
       adxValue: indicators.adx.value
     });
 
-    if (geminiDecision && geminiDecision.direction !== "NEUTRAL") {
+    if (aiDecision && aiDecision.direction !== "NEUTRAL") {
       console.log(`\n✅ GEMINI AI TRADE SIGNAL`);
-      console.log(`  Direction: ${geminiDecision.direction}`);
-      console.log(`  Confidence: ${geminiDecision.confidence}%`);
-      console.log(`  Rationale: ${geminiDecision.rationale}`);
+      console.log(`  Direction: ${aiDecision.direction}`);
+      console.log(`  Confidence: ${aiDecision.confidence}%`);
+      console.log(`  Rationale: ${aiDecision.rationale}`);
       console.log(`${'='.repeat(60)}\n`);
 
-      const analysis = `${geminiDecision.rationale} Signal Alignment: ${finalResult.signalAlignment}%. Current Price: $${marketData.currentPrice.toFixed(2)}`;
+      const analysis = `${aiDecision.rationale} Signal Alignment: ${finalResult.signalAlignment}%. Current Price: $${marketData.currentPrice.toFixed(2)}`;
 
       const regimeMultiplier = indicators.marketRegime === "STRONG_TRENDING" ? 1.15 :
         indicators.marketRegime === "TRENDING" ? 1.05 : 0.9;
 
       const duration = determineDuration(
-        geminiDecision.confidence,
+        aiDecision.confidence,
         indicators,
         finalResult.signalAlignment,
         indicators.marketRegime
@@ -842,12 +1110,12 @@ export async function generateAIPrediction(pair: TradingPair, timeframe: string
 
       return {
         pair,
-        direction: geminiDecision.direction,
-        confidence: geminiDecision.confidence,
+        direction: aiDecision.direction,
+        confidence: aiDecision.confidence,
         duration,
         analysis,
-        rationale: geminiDecision.rationale,
-        riskFactors: geminiDecision.riskFactors,
+        rationale: aiDecision.rationale,
+        riskFactors: aiDecision.riskFactors,
         detailedAnalysis: {
           indicators: signals.map(s => ({
             name: s.category,
@@ -872,10 +1140,10 @@ export async function generateAIPrediction(pair: TradingPair, timeframe: string
             alignmentPenalty: finalResult.signalAlignment < 85 ? (85 - finalResult.signalAlignment) * 1.2 : 0,
             qualityBoost: finalResult.signalAlignment >= 95 ? 3 : finalResult.signalAlignment >= 88 ? 2 : 0,
             rawScore: upScore > downScore ? upScore + volumeBonus : downScore + volumeBonus,
-            finalConfidence: geminiDecision.confidence,
+            finalConfidence: aiDecision.confidence,
           },
-          thinkingProcess: geminiDecision.thinkingProcess,
-          keyFactors: geminiDecision.keyFactors,
+          thinkingProcess: aiDecision.thinkingProcess,
+          keyFactors: aiDecision.keyFactors,
         },
       };
     }
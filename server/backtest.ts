@@ -0,0 +1,331 @@
+import { type TradeTargets } from "@shared/schema";
+import { analyzeMarket } from "./technical-analysis";
+import { getAnchorTimeframes, timeframeToMinutes } from "./crypto-data";
+import {
+  analyzeRSI,
+  analyzeStochastic,
+  analyzeMACD,
+  analyzeMovingAverages,
+  analyzeBollingerBands,
+  analyzeADX,
+  analyzeMomentum,
+  analyzeSupportResistance,
+  analyzeVWAP,
+  analyzeIchimoku,
+  analyzeSupertrend,
+  analyzeKeltnerChannels,
+  analyzeCCI,
+  analyzeMFI,
+  analyzeDivergences,
+  analyzePatterns,
+  analyzeVolume,
+  combineWeightedSignals,
+} from "./ai-prediction";
+import {
+  calculateValidatedConfidence,
+  checkVolumeConfirmation,
+  checkVolumeDivergence,
+  checkRSINeutralZone,
+  checkTrendAlignment,
+  getDurationBasedOnTimeframe,
+  DEFAULT_VALIDATION_THRESHOLDS,
+  type ValidationThresholds,
+} from "./transparent-prediction";
+import { parseDurationMs } from "./lib/prediction-resolver";
+import { computeFallbackTradeTargets } from "./lib/trade-targets";
+import { detectDivergences } from "./lib/divergence";
+import { detectPatterns } from "./lib/patterns";
+import { findFixtureSeries, type CandleFixture, type CandleFixtureSeries, type FixtureCandle } from "./lib/candle-fixture";
+
+export interface BacktestOptions {
+  // Candles fed to analyzeMarket per step - matches the live fetch size
+  windowSize: number;
+  // Minimum candles before the first evaluation (SMA200 needs 200)
+  warmup: number;
+  // Evaluate every Nth candle
+  step: number;
+  // Override the holding period; defaults to the timeframe duration used live
+  horizonBars?: number;
+  thresholds: ValidationThresholds;
+}
+
+export const DEFAULT_BACKTEST_OPTIONS: BacktestOptions = {
+  windowSize: 300,
+  warmup: 200,
+  step: 1,
+  thresholds: DEFAULT_VALIDATION_THRESHOLDS,
+};
+
+export interface BacktestTrade {
+  entryTimestamp: number;
+  exitTimestamp: number;
+  direction: "UP" | "DOWN";
+  confidence: number;
+  entryPrice: number;
+  exitPrice: number;
+  tradeTargets: TradeTargets;
+  outcome: "target_hit" | "stop_hit" | "expired";
+  rMultiple: number;
+}
+
+export interface BacktestReport {
+  pair: string;
+  timeframe: string;
+  evaluated: number;
+  trades: number;
+  wins: number;
+  losses: number;
+  expired: number;
+  neutralRejections: number;
+  winRate: number;
+  avgRMultiple: number;
+  totalR: number;
+  maxDrawdownR: number;
+  neutralRejectionRate: number;
+  rejectionReasons: Record<string, number>;
+  tradeLog: BacktestTrade[];
+}
+
+type SignalEvaluation =
+  | { direction: "NEUTRAL"; confidence: number; rejectionReason: string }
+  | { direction: "UP" | "DOWN"; confidence: number; tradeTargets: TradeTargets };
+
+/**
+ * Run the deterministic part of the transparent prediction pipeline on a candle window.
+ * Mirrors the final_verdict validation without the Gemini decision step.
+ */
+function evaluateWindow(
+  window: FixtureCandle[],
+  anchorWindow: FixtureCandle[] | null,
+  thresholds: ValidationThresholds
+): SignalEvaluation {
+  const indicators = analyzeMarket(window);
+  const currentPrice = window[window.length - 1].close;
+
+  const signals = [
+    analyzeRSI(indicators),
+    analyzeStochastic(indicators),
+    analyzeMACD(indicators),
+    analyzeMovingAverages(indicators, currentPrice),
+    analyzeBollingerBands(indicators, currentPrice),
+    analyzeADX(indicators),
+    analyzeMomentum(indicators),
+    analyzeSupportResistance(indicators, currentPrice),
+    analyzeVWAP(indicators, currentPrice),
+    analyzeIchimoku(indicators, currentPrice),
+    analyzeSupertrend(indicators, currentPrice),
+    analyzeKeltnerChannels(indicators, currentPrice),
+    analyzeCCI(indicators),
+    analyzeMFI(indicators),
+    ...analyzeDivergences(detectDivergences(window)),
+    ...analyzePatterns(detectPatterns(window)),
+  ];
+
+  const initial = combineWeightedSignals(signals, 0, indicators.marketRegime, false);
+  if (initial.direction === "NEUTRAL") {
+    return { direction: "NEUTRAL", confidence: 0, rejectionReason: "No clear signals" };
+  }
+
+  const volumeBonus = analyzeVolume(indicators, initial.direction);
+  const result = combineWeightedSignals(signals, volumeBonus, indicators.marketRegime, false);
+  const direction = result.direction;
+  if (direction === "NEUTRAL") {
+    return { direction: "NEUTRAL", confidence: 0, rejectionReason: "No clear signals" };
+  }
+
+  const currentVolume = window[window.length - 1].volume;
+  const volumeConfirmation = checkVolumeConfirmation(currentVolume, indicators.volumeMA);
+  const volumeDivergence = checkVolumeDivergence(window, direction);
+  const rsiNeutralCheck = checkRSINeutralZone(indicators.rsi);
+
+  let trendAligned = true;
+  if (anchorWindow) {
+    const anchorIndicators = analyzeMarket(anchorWindow);
+    trendAligned = checkTrendAlignment(indicators.trendBias, anchorIndicators.trendBias, direction).aligned;
+  }
+
+  const validation = calculateValidatedConfidence(
+    result.confidence,
+    volumeConfirmation.ratio,
+    indicators.adx.value,
+    trendAligned,
+    rsiNeutralCheck.isNeutral,
+    volumeDivergence.hasDivergence,
+    thresholds
+  );
+
+  if (!validation.shouldProceed) {
+    return {
+      direction: "NEUTRAL",
+      confidence: validation.confidence,
+      rejectionReason: validation.rejectionReason || "Validation failed",
+    };
+  }
+
+  return {
+    direction,
+    confidence: validation.confidence,
+    tradeTargets: computeFallbackTradeTargets(direction, currentPrice, indicators.atr),
+  };
+}
+
+/**
+ * Walk forward from the entry candle until the target or stop is touched.
+ * A candle spanning both levels counts as a stop (same assumption as the live resolver).
+ */
+function simulateTrade(
+  candles: FixtureCandle[],
+  entryIndex: number,
+  horizonBars: number,
+  direction: "UP" | "DOWN",
+  tradeTargets: TradeTargets
+): { outcome: BacktestTrade["outcome"]; exitPrice: number; exitIndex: number } {
+  const lastIndex = Math.min(candles.length - 1, entryIndex + horizonBars);
+
+  for (let i = entryIndex + 1; i <= lastIndex; i++) {
+    const candle = candles[i];
+    if (direction === "UP") {
+      if (candle.low <= tradeTargets.stop) {
+        return { outcome: "stop_hit", exitPrice: tradeTargets.stop, exitIndex: i };
+      }
+      if (candle.high >= tradeTargets.target.low) {
+        return { outcome: "target_hit", exitPrice: tradeTargets.target.low, exitIndex: i };
+      }
+    } else {
+      if (candle.high >= tradeTargets.stop) {
+        return { outcome: "stop_hit", exitPrice: tradeTargets.stop, exitIndex: i };
+      }
+      if (candle.low <= tradeTargets.target.high) {
+        return { outcome: "target_hit", exitPrice: tradeTargets.target.high, exitIndex: i };
+      }
+    }
+  }
+
+  return { outcome: "expired", exitPrice: candles[lastIndex].close, exitIndex: lastIndex };
+}
+
+function calculateMaxDrawdown(rMultiples: number[]): number {
+  let equity = 0;
+  let peak = 0;
+  let maxDrawdown = 0;
+
+  for (const r of rMultiples) {
+    equity += r;
+    peak = Math.max(peak, equity);
+    maxDrawdown = Math.max(maxDrawdown, peak - equity);
+  }
+
+  return maxDrawdown;
+}
+
+const round = (value: number, decimals: number = 2) => {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+};
+
+export function backtestSeries(
+  series: CandleFixtureSeries,
+  anchorSeries: CandleFixtureSeries | undefined,
+  options: BacktestOptions = DEFAULT_BACKTEST_OPTIONS
+): BacktestReport {
+  const { candles, pair, timeframe } = series;
+  const intervalMs = timeframeToMinutes(timeframe) * 60 * 1000;
+  const anchorIntervalMs = anchorSeries ? timeframeToMinutes(anchorSeries.timeframe) * 60 * 1000 : 0;
+  const horizonBars = options.horizonBars
+    ?? Math.max(1, Math.ceil(parseDurationMs(getDurationBasedOnTimeframe(timeframe), timeframe) / intervalMs));
+
+  const trades: BacktestTrade[] = [];
+  const rejectionReasons: Record<string, number> = {};
+  let evaluated = 0;
+  let neutralRejections = 0;
+
+  let i = Math.max(options.warmup, 1);
+  while (i < candles.length - 1) {
+    const window = candles.slice(Math.max(0, i - options.windowSize + 1), i + 1);
+
+    // Only use anchor candles that had closed by the time the entry candle closed (no lookahead)
+    let anchorWindow: FixtureCandle[] | null = null;
+    if (anchorSeries) {
+      const entryClose = candles[i].timestamp + intervalMs;
+      const closed = anchorSeries.candles.filter(c => c.timestamp + anchorIntervalMs <= entryClose);
+      if (closed.length >= 50) {
+        anchorWindow = closed.slice(-options.windowSize);
+      }
+    }
+
+    evaluated++;
+    const evaluation = evaluateWindow(window, anchorWindow, options.thresholds);
+
+    if (evaluation.direction === "NEUTRAL") {
+      neutralRejections++;
+      // Group by rule rather than by the exact values quoted in the reason
+      const reasonKey = evaluation.rejectionReason.replace(/\s*\([^)]*\)/g, "");
+      rejectionReasons[reasonKey] = (rejectionReasons[reasonKey] || 0) + 1;
+      i += options.step;
+      continue;
+    }
+
+    const entryPrice = candles[i].close;
+    const { tradeTargets } = evaluation;
+    const risk = Math.abs(entryPrice - tradeTargets.stop);
+    const simulated = simulateTrade(candles, i, horizonBars, evaluation.direction, tradeTargets);
+    const signedMove = evaluation.direction === "UP"
+      ? simulated.exitPrice - entryPrice
+      : entryPrice - simulated.exitPrice;
+
+    trades.push({
+      entryTimestamp: candles[i].timestamp,
+      exitTimestamp: candles[simulated.exitIndex].timestamp,
+      direction: evaluation.direction,
+      confidence: evaluation.confidence,
+      entryPrice,
+      exitPrice: simulated.exitPrice,
+      tradeTargets,
+      outcome: simulated.outcome,
+      rMultiple: risk > 0 ? signedMove / risk : 0,
+    });
+
+    // One position at a time - resume evaluating after the trade closes
+    i = Math.max(i + options.step, simulated.exitIndex);
+  }
+
+  const wins = trades.filter(t => t.outcome === "target_hit").length;
+  const losses = trades.filter(t => t.outcome === "stop_hit").length;
+  const rMultiples = trades.map(t => t.rMultiple);
+  const totalR = rMultiples.reduce((sum, r) => sum + r, 0);
+
+  return {
+    pair,
+    timeframe,
+    evaluated,
+    trades: trades.length,
+    wins,
+    losses,
+    expired: trades.length - wins - losses,
+    neutralRejections,
+    winRate: trades.length > 0 ? round((wins / trades.length) * 100, 1) : 0,
+    avgRMultiple: trades.length > 0 ? round(totalR / trades.length) : 0,
+    totalR: round(totalR),
+    maxDrawdownR: round(calculateMaxDrawdown(rMultiples)),
+    neutralRejectionRate: evaluated > 0 ? round((neutralRejections / evaluated) * 100, 1) : 0,
+    rejectionReasons,
+    tradeLog: trades,
+  };
+}
+
+/**
+ * Backtest every series in a fixture. When the fixture also contains the anchor
+ * timeframe for a pair, it is used for the trend alignment check just like the live pipeline.
+ */
+export function runBacktest(
+  fixture: CandleFixture,
+  options: Partial<BacktestOptions> = {}
+): BacktestReport[] {
+  const resolvedOptions: BacktestOptions = { ...DEFAULT_BACKTEST_OPTIONS, ...options };
+
+  return fixture.series.map(series => {
+    const anchorTimeframe = getAnchorTimeframes(series.timeframe).primary;
+    const anchorSeries = findFixtureSeries(fixture, series.pair, anchorTimeframe);
+    return backtestSeries(series, anchorSeries, resolvedOptions);
+  });
+}
@@ -1,402 +1,71 @@
 import { type TradingPair } from "@shared/schema";
-import https from 'https';
-
-const CRYPTOCOMPARE_API_BASE = "https://min-api.cryptocompare.com/data";
-
-interface Candle {
-  timestamp: number;
-  open: number;
-  high: number;
-  low: number;
-  close: number;
-  volume: number;
-}
-
-interface MarketData {
-  currentPrice: number;
-  candles: Candle[];
-  priceChange24h: number;
-  volumeChange24h: number;
-}
-
-// Map trading pairs to CryptoCompare symbols
-const pairToSymbols = (pair: TradingPair): { from: string; to: string } => {
-  const mapping: Record<string, { from: string; to: string }> = {
-    "BTC/USDT": { from: "BTC", to: "USDT" },
-    "ETH/USDT": { from: "ETH", to: "USDT" },
-    "XRP/USDT": { from: "XRP", to: "USDT" },
-    "BNB/USDT": { from: "BNB", to: "USDT" },
-    "SOL/USDT": { from: "SOL", to: "USDT" },
-    "TRX/USDT": { from: "TRX", to: "USDT" },
-    "DOGE/USDT": { from: "DOGE", to: "USDT" },
-    "ADA/USDT": { from: "ADA", to: "USDT" },
-    "LINK/USDT": { from: "LINK", to: "USDT" },
-    "HYPE/USDT": { from: "HYPE", to: "USDT" },
-    "XMR/USDT": { from: "XMR", to: "USDT" },
-    "LTC/USDT": { from: "LTC", to: "USDT" },
-    "HBAR/USDT": { from: "HBAR", to: "USDT" },
-    "AVAX/USDT": { from: "AVAX", to: "USDT" },
-    "SUI/USDT": { from: "SUI", to: "USDT" },
-    "SHIB/USDT": { from: "SHIB", to: "USDT" },
-    "WLFI/USDT": { from: "WLFI", to: "USDT" },
-    "UNI/USDT": { from: "UNI", to: "USDT" },
-    "DOT/USDT": { from: "DOT", to: "USDT" },
-    "AAVE/USDT": { from: "AAVE", to: "USDT" },
-    "PEPE/USDT": { from: "PEPE", to: "USDT" },
-    "XLM/USDT": { from: "XLM", to: "USDT" },
-    "ONDO/USDT": { from: "ONDO", to: "USDT" },
-    "ALGO/USDT": { from: "ALGO", to: "USDT" },
-    "EUR/USD": { from: "EUR", to: "USD" },
-    "GBP/USD": { from: "GBP", to: "USD" },
-    "AUD/USD": { from: "AUD", to: "USD" },
-    "XAU/USD": { from: "PAXG", to: "USDT" }, // Use PAXG crypto token as 24/7 live gold proxy
-    "US100/USD": { from: "US100", to: "USD" },
-  };
-
-  if (pair in mapping) {
-    return mapping[pair];
-  }
-
-  throw new Error(`Trading pair ${pair} is not supported`);
-};
-
-const fetchHeaders: HeadersInit = {
-  'Accept': 'application/json',
-  ...(process.env.CRYPTOCOMPARE_API_KEY ? { 'Authorization': `Apikey ${process.env.CRYPTOCOMPARE_API_KEY}` } : {}),
-};
-
-const timeframeToMinutes = (timeframe: string): number => {
-  const mapping: Record<string, number> = {
-    "M1": 1,
-    "M3": 3,
-    "M5": 5,
-    "M15": 15,
-    "M30": 30,
-    "M45": 45,
-    "H1": 60,
-    "H2": 120,
-    "H3": 180,
-    "H4": 240,
-    "D1": 1440,
-    "W1": 10080,
-  };
-  return mapping[timeframe] || 5;
-};
-
-const getHistoEndpoint = (timeframe: string): { endpoint: string; aggregate: number; limit: number } => {
-  // Use histominute for short timeframes with standard aggregates
-  if (["M1", "M3", "M5", "M15", "M30", "M45"].includes(timeframe)) {
-    const minutes = timeframeToMinutes(timeframe);
-    return { endpoint: "histominute", aggregate: minutes, limit: 300 };
-  }
-
-  // Use histohour for hour-based timeframes (within API limits)
-  // Note: limit * aggregate must be <= 2000 to avoid API reduction
-  if (["H1", "H2", "H3", "H4"].includes(timeframe)) {
-    const hours = timeframeToMinutes(timeframe) / 60;
-    return { endpoint: "histohour", aggregate: hours, limit: 300 };
-  }
-
-  // For daily timeframe, use histoday endpoint with daily aggregation
-  // This gives us proper daily candles instead of aggregated hourly data
-  if (["D1"].includes(timeframe)) {
-    return { endpoint: "histoday", aggregate: 1, limit: 300 };
-  }
-
-  // For weekly, use histoday with 7-day aggregate for true weekly bars
-  // Using histoday with aggregate 7 gives us weekly candles within API limits
-  if (["W1"].includes(timeframe)) {
-    return { endpoint: "histoday", aggregate: 7, limit: 300 };
-  }
-
-  // Default to histominute with 1 minute
-  return { endpoint: "histominute", aggregate: 1, limit: 300 };
-};
-
-async function fetchFromYahoo(symbol: string, interval: string, range: string): Promise<any> {
-  const url = `https://query1.finance.yahoo.com/v8/finance/chart/${symbol}?interval=${interval}&range=${range}`;
-  console.log(`[Yahoo API] Fetching: ${url}`);
-
-  return new Promise((resolve, reject) => {
-    const options = {
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36'
-      }
-    };
-
-    https.get(url, options, (res) => {
-      let data = '';
-      res.on('data', chunk => data += chunk);
-      res.on('end', () => {
-        try {
-          if (res.statusCode !== 200) {
-            reject(new Error(`Yahoo API error ${res.statusCode}: ${data.substring(0, 100)}`));
-            return;
-          }
-          resolve(JSON.parse(data));
-        } catch (e) {
-          reject(new Error(`Failed to parse Yahoo data for ${symbol}`));
-        }
-      });
-      res.on('error', reject);
-    }).on('error', reject);
-  });
-}
-
-const convertYahooCandles = (result: any): Candle[] => {
-  const indicators = result.indicators.quote[0];
-  const timestamps = result.timestamp;
-  if (!timestamps || !indicators) return [];
-
-  return timestamps.map((t: number, i: number) => ({
-    timestamp: t * 1000,
-    open: indicators.open[i] || indicators.close[i] || 0,
-    high: indicators.high[i] || indicators.close[i] || 0,
-    low: indicators.low[i] || indicators.close[i] || 0,
-    close: indicators.close[i] || indicators.open[i] || 0,
-    volume: indicators.volume[i] || 0,
-  })).filter((c: Candle) => c.open !== 0);
+import { generateSyntheticCandles, type MarketData } from "./lib/market-data/provider";
+import { getProvidersForPair } from "./lib/market-data/config";
+import { getCachedMarketData } from "./lib/market-data/candle-cache";
+import { getNewsSourcesForPair } from "./lib/news/config";
+import { findCandleGaps } from "./lib/trading-sessions";
+import { scoreHeadline } from "./lib/news-sentiment";
+
+export { timeframeToMinutes } from "./lib/market-data/provider";
+
+// Default fallback prices based on 2026 market levels
+const syntheticPrice = (pair: TradingPair): number => {
+  if (pair.includes("XAU")) return 4514.50;
+  if (pair.includes("US100")) return 25938.25;
+  if (pair.includes("BTC")) return 100000;
+  return 100;
 };
 
-export async function fetchMarketData(pair: TradingPair, timeframe: string = "M1"): Promise<MarketData> {
-  const { from, to } = pairToSymbols(pair);
+async function fetchFromProviders(pair: TradingPair, timeframe: string): Promise<MarketData | null> {
+  const providers = getProvidersForPair(pair);
 
-  // Use Yahoo Finance for US100/USD (XAU/USD handles via PAXG proxy in CryptoCompare block)
-  if (pair === "US100/USD") {
+  for (const provider of providers) {
     try {
-      const yfSymbol = "NQ=F";
-
-      if (yfSymbol) {
-        // Yahoo timeframe mapping
-        const yahooTimeframeMap: Record<string, string> = {
-          "M1": "1m", "M3": "2m", "M5": "5m", "M15": "15m", "M30": "30m",
-          "H1": "1h", "H2": "1h", "H4": "1h", "D1": "1d", "W1": "1wk"
-        };
-
-        const interval = yahooTimeframeMap[timeframe] || "15m";
-        const rangeMap: Record<string, string> = {
-          "M1": "1d", "M5": "1d", "M15": "5d", "H1": "1mo", "D1": "1y", "W1": "5y"
-        };
-        const range = rangeMap[timeframe] || "5d";
-
-        const data = await fetchFromYahoo(yfSymbol, interval, range);
-        const result = data?.chart?.result?.[0];
-
-        if (result) {
-          const currentPrice = result.meta.regularMarketPrice;
-          const previousClose = result.meta.previousClose || currentPrice;
-          const priceChange24h = ((currentPrice - previousClose) / previousClose) * 100;
-          const candles = convertYahooCandles(result);
-
-          console.log(`[Yahoo API] Successfully fetched ${pair}: $${currentPrice}`);
-
-          return {
-            currentPrice,
-            candles,
-            priceChange24h,
-            volumeChange24h: 0,
-          };
-        }
-      }
+      const data = await provider.fetchMarketData(pair, timeframe);
+      return { ...data, source: provider.id };
     } catch (error) {
-      console.error(`[Yahoo API] Custom fetch error for ${pair}:`, error);
-      // Fallback
+      console.error(`[MarketData] ${provider.id} failed for ${pair} ${timeframe}:`, error);
     }
   }
 
-  try {
-    console.log(`[CryptoCompare API] Fetching market data for ${pair} (${from}/${to})`);
-
-    // Fetch current price
-    let currentPrice = 0;
-    try {
-      const priceResponse = await fetch(
-        `${CRYPTOCOMPARE_API_BASE}/price?fsym=${from}&tsyms=${to}`,
-        { headers: fetchHeaders }
-      );
-
-      if (priceResponse.ok) {
-        const priceData = await priceResponse.json();
-        currentPrice = priceData[to];
-      } else {
-        console.warn(`[CryptoCompare API] Price fetch status ${priceResponse.status} for ${pair}`);
-      }
-    } catch (error) {
-      console.error(`[CryptoCompare API] Price fetch error for ${pair}:`, error);
-    }
-
-    if (!currentPrice) {
-      console.log(`[CryptoCompare API] Using synthetic price for ${pair}`);
-      // Default fallback prices based on 2026 market levels
-      if (pair.includes("XAU")) currentPrice = 4514.50;
-      else if (pair.includes("US100")) currentPrice = 25938.25;
-      else if (pair.includes("BTC")) currentPrice = 100000;
-      else currentPrice = 100;
-    }
-
-    // Fetch 24h stats
-    const dayStatsResponse = await fetch(
-      `${CRYPTOCOMPARE_API_BASE}/generateAvg?fsym=${from}&tsym=${to}&e=CCCAGG`,
-      { headers: fetchHeaders }
-    );
-
-    let priceChange24h = 0;
-    if (dayStatsResponse.ok) {
-      const dayStatsData = await dayStatsResponse.json();
-      if (dayStatsData.RAW && dayStatsData.RAW.CHANGE24HOUR) {
-        const change = dayStatsData.RAW.CHANGE24HOUR;
-        priceChange24h = (change / currentPrice) * 100;
-      }
-    }
-
-    // Fetch historical data based on timeframe
-    const { endpoint, aggregate, limit } = getHistoEndpoint(timeframe);
-    const histoResponse = await fetch(
-      `${CRYPTOCOMPARE_API_BASE}/v2/${endpoint}?fsym=${from}&tsym=${to}&limit=${limit}&aggregate=${aggregate}`,
-      { headers: fetchHeaders }
-    );
-
-    if (!histoResponse.ok) {
-      console.error(`[CryptoCompare API] History error - Status: ${histoResponse.status}`);
-      // Create synthetic candles with appropriate spacing based on timeframe
-      const intervalMs = timeframeToMinutes(timeframe) * 60 * 1000;
-      const syntheticCandles = Array.from({ length: 100 }, (_, i) => {
-        const timestamp = Date.now() - (100 - i) * intervalMs;
-        const priceVariation = 1 + (Math.random() - 0.5) * 0.01;
-        const price = currentPrice * priceVariation;
-        return {
-          timestamp,
-          open: price,
-          high: price * 1.001,
-          low: price * 0.999,
-          close: price,
-          volume: 1000,
-        };
-      });
-
-      return {
-        currentPrice,
-        candles: syntheticCandles,
-        priceChange24h,
-        volumeChange24h: 0,
-      };
-    }
-
-    const histoData = await histoResponse.json();
-
-    if (histoData.Response === "Error") {
-      console.error(`[CryptoCompare API] History error:`, histoData.Message);
-      // Create synthetic candles with appropriate spacing based on timeframe
-      const intervalMs = timeframeToMinutes(timeframe) * 60 * 1000;
-      const syntheticCandles = Array.from({ length: 100 }, (_, i) => {
-        const timestamp = Date.now() - (100 - i) * intervalMs;
-        const priceVariation = 1 + (Math.random() - 0.5) * 0.01;
-        const price = currentPrice * priceVariation;
-        return {
-          timestamp,
-          open: price,
-          high: price * 1.001,
-          low: price * 0.999,
-          close: price,
-          volume: 1000,
-        };
-      });
-
-      return {
-        currentPrice,
-        candles: syntheticCandles,
-        priceChange24h,
-        volumeChange24h: 0,
-      };
-    }
-
-    const histoPoints = histoData.Data?.Data || [];
-
-    // Convert to candles - always use volumeto for consistency
-    const candles: Candle[] = histoPoints.map((point: any) => ({
-      timestamp: point.time * 1000, // Convert to milliseconds
-      open: point.open,
-      high: point.high,
-      low: point.low,
-      close: point.close,
-      volume: point.volumeto || 0,
-    }));
-
-    // If we don't have enough candles, fill with synthetic data
-    if (candles.length < 300) {
-      const needed = 300 - candles.length;
-      const intervalMs = timeframeToMinutes(timeframe) * 60 * 1000;
-      const oldestTimestamp = candles.length > 0 ? candles[0].timestamp : Date.now();
-      const syntheticCandles = Array.from({ length: needed }, (_, i) => {
-        const timestamp = oldestTimestamp - (needed - i) * intervalMs;
-        const priceVariation = 1 + (Math.random() - 0.5) * 0.01;
-        const price = currentPrice * priceVariation;
-        return {
-          timestamp,
-          open: price,
-          high: price * 1.001,
-          low: price * 0.999,
-          close: price,
-          volume: 1000,
-        };
-      });
-      candles.unshift(...syntheticCandles);
-    }
+  console.warn(`[MarketData] All providers failed for ${pair} (${providers.map(p => p.id).join(", ") || "none configured"})`);
+  return null;
+}
 
-    // Calculate volume change
-    const avgVolume = candles.reduce((sum, c) => sum + c.volume, 0) / candles.length;
-    const recentVolume = candles.slice(-10).reduce((sum, c) => sum + c.volume, 0) / 10;
-    const volumeChange24h = avgVolume > 0 ? ((recentVolume / avgVolume - 1) * 100) : 0;
+export async function fetchMarketData(pair: TradingPair, timeframe: string = "M1"): Promise<MarketData> {
+  const marketData = await getCachedMarketData(pair, timeframe, () => fetchFromProviders(pair, timeframe));
+  if (marketData) {
+    return { ...marketData, gaps: findCandleGaps(marketData.candles, timeframe, pair) };
+  }
 
-    console.log(`[CryptoCompare API] Successfully fetched data for ${pair}: $${currentPrice.toFixed(2)}, 24h: ${priceChange24h.toFixed(2)}%`);
+  // Every provider failed - keep the pipeline alive with synthetic candles
+  console.warn(`[MarketData] Using synthetic data for ${pair} ${timeframe}`);
+  const currentPrice = syntheticPrice(pair);
 
-    return {
-      currentPrice,
-      candles,
-      priceChange24h,
-      volumeChange24h,
-    };
-  } catch (error) {
-    console.error(`Error fetching market data for ${pair}:`, error);
-    throw error;
-  }
+  return {
+    currentPrice,
+    candles: generateSyntheticCandles(currentPrice, timeframe, 100),
+    priceChange24h: 0,
+    volumeChange24h: 0,
+    source: "synthetic",
+  };
 }
 
 export async function getCurrentPrice(pair: TradingPair): Promise<number> {
-  const { from, to } = pairToSymbols(pair);
+  const providers = getProvidersForPair(pair);
+  let lastError: unknown = new Error(`No market data provider configured for ${pair}`);
 
-  if (pair === "US100/USD") {
+  for (const provider of providers) {
     try {
-      const yfSymbol = "NQ=F";
-      const data = await fetchFromYahoo(yfSymbol, '1m', '1d');
-      const result = data.chart.result?.[0];
-      if (result) return result.meta.regularMarketPrice;
+      return await provider.getCurrentPrice(pair);
     } catch (error) {
-      console.error(`[Yahoo API] Price error for ${pair}:`, error);
+      console.error(`[MarketData] ${provider.id} price failed for ${pair}:`, error);
+      lastError = error;
     }
   }
 
-  try {
-    const response = await fetch(
-      `${CRYPTOCOMPARE_API_BASE}/price?fsym=${from}&tsyms=${to}`,
-      { headers: fetchHeaders }
-    );
-
-    if (!response.ok) {
-      throw new Error(`Failed to fetch price for ${pair}: Status ${response.status}`);
-    }
-
-    const data = await response.json();
-
-    if (!data[to]) {
-      throw new Error(`Price data not available for ${pair}`);
-    }
-
-    return data[to];
-  } catch (error) {
-    console.error(`Error fetching current price for ${pair}:`, error);
-    throw error;
-  }
+  console.error(`Error fetching current price for ${pair}:`, lastError);
+  throw lastError;
 }
 
 export interface NewsHeadline {
@@ -407,55 +76,47 @@ export interface NewsHeadline {
   sentiment: "positive" | "negative" | "neutral";
   impact: "high" | "medium" | "low";
   url: string;
+  publishedOn: number;
+  score: number;
 }
 
-export async function fetchCryptoNews(pair: TradingPair, limit: number = 50): Promise<NewsHeadline[]> {
-  const { from } = pairToSymbols(pair);
+/**
+ * Headlines for a pair from the first news source that returns any, scored for sentiment
+ * and impact. Returns an empty list when every source fails - the pipeline runs without news.
+ */
+export async function fetchNews(pair: TradingPair, limit: number = 50): Promise<NewsHeadline[]> {
+  const sources = getNewsSourcesForPair(pair);
 
-  try {
-    console.log(`[CryptoCompare API] Fetching news for ${from}...`);
-    // 'categories' parameter allows filtering by coin symbol
-    const response = await fetch(
-      `${CRYPTOCOMPARE_API_BASE}/v2/news/?lang=EN&categories=${from}&limit=${limit}`,
-      { headers: fetchHeaders }
-    );
+  for (const source of sources) {
+    try {
+      const raw = await source.fetchHeadlines(pair, limit);
+      if (raw.length === 0) {
+        console.warn(`[News] ${source.id} returned no headlines for ${pair}`);
+        continue;
+      }
 
-    if (!response.ok) {
-      console.warn(`[CryptoCompare API] News fetch failed: ${response.status} ${response.statusText}`);
-      return [];
-    }
+      return raw.map(item => {
+        const scored = scoreHeadline(item);
 
-    const data = await response.json();
-    if (data.Message && data.Message !== 'News list successfully returned') {
-      console.warn(`[CryptoCompare API] News API Message: ${data.Message}`);
+        return {
+          id: item.id,
+          publishedAt: new Date(item.publishedOn).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }), // Just time for compact view
+          publishedOn: item.publishedOn,
+          source: item.source,
+          title: item.title,
+          sentiment: scored.sentiment,
+          impact: scored.impact,
+          score: scored.score,
+          url: item.url
+        };
+      });
+    } catch (error) {
+      console.error(`[News] ${source.id} failed for ${pair}:`, error);
     }
-
-    const newsItems = data.Data || [];
-
-    return newsItems.map((item: any) => {
-      // Basic sentiment mapping based on tags or title keywords as simplified logic
-      // CryptoCompare news provides 'tags' and 'body'.
-      const titleLower = item.title.toLowerCase();
-      let sentiment: "positive" | "negative" | "neutral" = "neutral";
-
-      if (titleLower.includes("surge") || titleLower.includes("bull") || titleLower.includes("high") || titleLower.includes("gain")) sentiment = "positive";
-      else if (titleLower.includes("crash") || titleLower.includes("bear") || titleLower.includes("drop") || titleLower.includes("loss")) sentiment = "negative";
-
-      return {
-        id: item.id,
-        publishedAt: new Date(item.published_on * 1000).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }), // Just time for compact view
-        source: item.source_info?.name || "CryptoNews",
-        title: item.title,
-        sentiment: sentiment, // In a real app we might analyze the body text
-        impact: "medium", // Default impact
-        url: item.url
-      };
-    });
-
-  } catch (error) {
-    console.error(`[CryptoCompare API] Error fetching news for ${from}:`, error);
-    return [];
   }
+
+  console.warn(`[News] No headlines for ${pair} (${sources.map(s => s.id).join(", ") || "no source configured"})`);
+  return [];
 }
 
 /**
@@ -35,6 +35,7 @@ const userSchema = new mongoose.Schema({
   profilePictureUrl: { type: String, default: null },
   credits: { type: Number, required: true, default: 1 },
   hasUnlimitedAccess: { type: Boolean, default: false },
+  pacing: { type: String, enum: ["cinematic", "fast", "instant"], default: null },
   createdAt: { type: Date, default: Date.now },
   updatedAt: { type: Date, default: Date.now },
 });
@@ -47,6 +48,8 @@ const commissionPaymentSchema = new mongoose.Schema({
   commissionAmount: { type: Number, required: true },
   customerUserId: { type: String },
   customerEmail: { type: String },
+  commissionRuleId: { type: String, default: null },
+  refundedAt: { type: Date, default: null },
   createdAt: { type: Date, default: Date.now },
 });
 
@@ -80,6 +83,59 @@ const adminAdjustmentSchema = new mongoose.Schema({
   createdAt: { type: Date, default: Date.now },
 });
 
+const ledgerEntrySchema = new mongoose.Schema({
+  id: { type: String, required: true, unique: true, index: true },
+  type: { type: String, required: true },
+  currency: { type: String, required: true },
+  debitAccount: { type: String, required: true, index: true },
+  creditAccount: { type: String, required: true, index: true },
+  amount: { type: Number, required: true },
+  reference: { type: String, default: null },
+  memo: { type: String, default: null },
+  createdAt: { type: Date, default: Date.now },
+});
+
+// Entries are never changed once written; corrections are new entries
+ledgerEntrySchema.pre(
+  ["updateOne", "updateMany", "findOneAndUpdate", "replaceOne", "deleteOne", "deleteMany", "findOneAndDelete"],
+  function () {
+    throw new Error("Ledger entries are append-only");
+  }
+);
+
+const webhookEventSchema = new mongoose.Schema({
+  id: { type: String, required: true, unique: true, index: true },
+  idempotencyKey: { type: String, required: true, unique: true },
+  eventType: { type: String, default: null },
+  headers: { type: mongoose.Schema.Types.Mixed, default: {} },
+  body: { type: String, required: true },
+  signatureValid: { type: Boolean, default: null },
+  status: { type: String, required: true, default: 'received', index: true },
+  statusReason: { type: String, default: null },
+  attempts: { type: Number, default: 0 },
+  receivedAt: { type: Date, default: Date.now },
+  lastAttemptAt: { type: Date, default: null },
+  processedAt: { type: Date, default: null },
+});
+
+webhookEventSchema.index({ receivedAt: -1 });
+
+const commissionRuleSchema = new mongoose.Schema({
+  id: { type: String, required: true, unique: true, index: true },
+  name: { type: String, required: true },
+  companyId: { type: String, default: null },
+  planId: { type: String, default: null },
+  type: { type: String, required: true },
+  value: { type: Number, required: true },
+  tiers: { type: [{ minPayments: Number, value: Number, _id: false }], default: [] },
+  effectiveFrom: { type: Date, required: true },
+  effectiveTo: { type: Date, default: null },
+  createdAt: { type: Date, default: Date.now },
+  updatedAt: { type: Date, default: Date.now },
+});
+
+commissionRuleSchema.index({ companyId: 1, planId: 1 });
+
 const chatSessionSchema = new mongoose.Schema({
   id: { type: String, required: true, unique: true, index: true },
   userId: { type: String, required: true, index: true },
@@ -119,10 +175,111 @@ const storedMemberSchema = new mongoose.Schema({
 storedMemberSchema.index({ adminUserId: 1, status: 1 });
 storedMemberSchema.index({ companyId: 1, status: 1 });
 
+const predictionRecordSchema = new mongoose.Schema({
+  id: { type: String, required: true, unique: true, index: true },
+  userId: { type: String, required: true, index: true },
+  pair: { type: String, required: true },
+  timeframe: { type: String, required: true },
+  direction: { type: String, required: true },
+  confidence: { type: Number, required: true },
+  duration: { type: String, required: true },
+  entryPrice: { type: Number, required: true },
+  tradeTargets: { type: mongoose.Schema.Types.Mixed, default: null },
+  expiresAt: { type: Date, required: true },
+  outcome: { type: String, required: true, default: 'pending' },
+  exitPrice: { type: Number, default: null },
+  resolvedAt: { type: Date, default: null },
+  createdAt: { type: Date, default: Date.now },
+});
+
+predictionRecordSchema.index({ outcome: 1, expiresAt: 1 });
+predictionRecordSchema.index({ userId: 1, createdAt: -1 });
+
+const apiKeySchema = new mongoose.Schema({
+  id: { type: String, required: true, unique: true, index: true },
+  userId: { type: String, required: true, index: true },
+  name: { type: String, required: true },
+  keyHash: { type: String, required: true, unique: true, index: true },
+  keyPrefix: { type: String, required: true },
+  rateLimitPerMinute: { type: Number, required: true },
+  lastUsedAt: { type: Date, default: null },
+  revokedAt: { type: Date, default: null },
+  createdAt: { type: Date, default: Date.now },
+});
+
+const priceAlertSchema = new mongoose.Schema({
+  id: { type: String, required: true, unique: true, index: true },
+  userId: { type: String, required: true, index: true },
+  pair: { type: String, required: true },
+  timeframe: { type: String, required: true },
+  condition: { type: String, required: true },
+  targetPrice: { type: Number, required: true },
+  notifyEmail: { type: String, default: null },
+  status: { type: String, required: true, default: 'active', index: true },
+  triggeredAt: { type: Date, default: null },
+  triggeredPrice: { type: Number, default: null },
+  resultDirection: { type: String, default: null },
+  resultConfidence: { type: Number, default: null },
+  createdAt: { type: Date, default: Date.now },
+});
+
+const watchlistSchema = new mongoose.Schema({
+  id: { type: String, required: true, unique: true, index: true },
+  userId: { type: String, required: true, index: true },
+  name: { type: String, required: true },
+  pairs: { type: [String], required: true },
+  timeframes: { type: [String], required: true },
+  intervalMinutes: { type: Number, required: true },
+  enabled: { type: Boolean, default: true },
+  lastRunAt: { type: Date, default: null },
+  nextRunAt: { type: Date, required: true },
+  createdAt: { type: Date, default: Date.now },
+});
+
+watchlistSchema.index({ enabled: 1, nextRunAt: 1 });
+
+const watchlistScanSchema = new mongoose.Schema({
+  id: { type: String, required: true, unique: true, index: true },
+  watchlistId: { type: String, required: true, index: true },
+  watchlistName: { type: String, required: true },
+  userId: { type: String, required: true },
+  hits: { type: mongoose.Schema.Types.Mixed, default: [] },
+  scanned: { type: Number, required: true },
+  neutral: { type: Number, required: true },
+  failed: { type: Number, required: true },
+  skipped: { type: Number, required: true },
+  creditsCharged: { type: Number, required: true },
+  startedAt: { type: Date, required: true },
+  completedAt: { type: Date, required: true },
+});
+
+watchlistScanSchema.index({ userId: 1, completedAt: -1 });
+
+const tradingPairSchema = new mongoose.Schema({
+  symbol: { type: String, required: true, unique: true, index: true },
+  category: { type: String, required: true },
+  providerSymbols: { type: mongoose.Schema.Types.Mixed, default: {} },
+  providerOrder: { type: [String], default: [] },
+  decimals: { type: Number, required: true },
+  minTick: { type: Number, required: true },
+  enabled: { type: Boolean, default: true },
+  createdAt: { type: Date, default: Date.now },
+  updatedAt: { type: Date, default: Date.now },
+});
+
 export const UserModel = mongoose.model("User", userSchema);
 export const CommissionPaymentModel = mongoose.model("CommissionPayment", commissionPaymentSchema);
 export const WithdrawalModel = mongoose.model("Withdrawal", withdrawalSchema);
 export const AdminModel = mongoose.model("Admin", adminSchema);
 export const AdminAdjustmentModel = mongoose.model("AdminAdjustment", adminAdjustmentSchema);
+export const LedgerEntryModel = mongoose.model("LedgerEntry", ledgerEntrySchema);
+export const WebhookEventModel = mongoose.model("WebhookEvent", webhookEventSchema);
+export const CommissionRuleModel = mongoose.model("CommissionRule", commissionRuleSchema);
 export const ChatSessionModel = mongoose.model("ChatSession", chatSessionSchema);
 export const StoredMemberModel = mongoose.model("StoredMember", storedMemberSchema);
+export const PredictionRecordModel = mongoose.model("PredictionRecord", predictionRecordSchema);
+export const ApiKeyModel = mongoose.model("ApiKey", apiKeySchema);
+export const PriceAlertModel = mongoose.model("PriceAlert", priceAlertSchema);
+export const WatchlistModel = mongoose.model("Watchlist", watchlistSchema);
+export const WatchlistScanModel = mongoose.model("WatchlistScan", watchlistScanSchema);
+export const TradingPairModel = mongoose.model("TradingPair", tradingPairSchema);
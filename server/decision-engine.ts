@@ -0,0 +1,119 @@
+import { WebSocket } from "ws";
+import { decisionMode, decisionTimeoutMs, getDecisionProviders } from "./lib/decision/config";
+import type { DecisionProvider, DecisionVote, TechnicalAnalysisSnapshot, TradingDecision } from "./lib/decision/provider";
+
+export type { DecisionProviderId, DecisionVote, TechnicalAnalysisSnapshot, TradingDecision } from "./lib/decision/provider";
+
+// Aborts the controller on timeout so the provider cancels its request instead of running on
+function withTimeout<T>(promise: Promise<T>, ms: number, label: string, controller: AbortController): Promise<T> {
+  let timer: NodeJS.Timeout;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new Error(`${label} timed out after ${ms}ms`));
+    }, ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+function askProvider(provider: DecisionProvider, snapshot: TechnicalAnalysisSnapshot, ws?: WebSocket): Promise<TradingDecision> {
+  const controller = new AbortController();
+  return withTimeout(provider.decide(snapshot, ws, controller.signal), decisionTimeoutMs, provider.label, controller);
+}
+
+// First provider that answers wins; rule-based is last in the list and never needs the network
+async function decideWithFallback(snapshot: TechnicalAnalysisSnapshot, ws?: WebSocket): Promise<TradingDecision> {
+  const providers = getDecisionProviders();
+  let lastError: unknown = new Error("No decision provider available");
+
+  for (const provider of providers) {
+    try {
+      return await askProvider(provider, snapshot, ws);
+    } catch (error: any) {
+      console.warn(`[Decision] ${provider.id} failed: ${error?.message || error}`);
+      lastError = error;
+    }
+  }
+
+  throw lastError;
+}
+
+/**
+ * Ask every available provider in parallel. The direction only stands when a strict majority
+ * of the providers that answered agree on it; otherwise the result is NEUTRAL.
+ */
+async function decideWithConsensus(snapshot: TechnicalAnalysisSnapshot, ws?: WebSocket): Promise<TradingDecision> {
+  const providers = getDecisionProviders();
+  const results = await Promise.allSettled(providers.map(p => askProvider(p, snapshot, ws)));
+
+  const decisions: TradingDecision[] = [];
+  results.forEach((result, i) => {
+    if (result.status === "fulfilled") {
+      decisions.push(result.value);
+    } else {
+      console.warn(`[Decision] ${providers[i].id} failed in consensus: ${result.reason?.message || result.reason}`);
+    }
+  });
+
+  if (decisions.length === 0) {
+    throw new Error("No decision provider answered");
+  }
+
+  const votes: DecisionVote[] = decisions.map(d => ({ provider: d.provider, direction: d.direction, confidence: d.confidence }));
+  const voteSummary = votes.map(v => `${v.provider} ${v.direction} ${v.confidence}%`).join(", ");
+
+  const counts = new Map<TradingDecision["direction"], number>();
+  for (const d of decisions) {
+    counts.set(d.direction, (counts.get(d.direction) || 0) + 1);
+  }
+  const [majorityDirection, majorityCount] = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0];
+
+  const modelUsed = `Consensus (${decisions.map(d => d.modelUsed).join(" + ")})`;
+
+  if (majorityCount * 2 <= decisions.length) {
+    console.log(`[Decision] No majority: ${voteSummary}`);
+    // Keep the richest LLM narrative for context, but stand aside
+    const reference = decisions.find(d => d.provider !== "rule-based") || decisions[0];
+    return {
+      ...reference,
+      direction: "NEUTRAL",
+      confidence: Math.round(decisions.reduce((sum, d) => sum + d.confidence, 0) / decisions.length),
+      rationale: `Providers disagree (${voteSummary}) - no majority direction.`,
+      tradeTargets: undefined,
+      modelUsed,
+      votes,
+    };
+  }
+
+  const agreeing = decisions.filter(d => d.direction === majorityDirection);
+  // Prefer an LLM answer for the narrative and targets; fall back to the rule-based one
+  const lead = agreeing
+    .filter(d => d.provider !== "rule-based")
+    .sort((a, b) => b.confidence - a.confidence)[0] || agreeing[0];
+
+  console.log(`[Decision] Consensus ${majorityDirection} (${majorityCount}/${decisions.length}): ${voteSummary}`);
+
+  return {
+    ...lead,
+    direction: majorityDirection,
+    confidence: Math.round(agreeing.reduce((sum, d) => sum + d.confidence, 0) / agreeing.length),
+    keyFactors: [`Consensus: ${majorityCount}/${decisions.length} providers agree (${voteSummary})`, ...(lead.keyFactors || [])],
+    modelUsed,
+    votes,
+  };
+}
+
+export async function getTradingDecision(snapshot: TechnicalAnalysisSnapshot, ws?: WebSocket): Promise<TradingDecision> {
+  return decisionMode === "consensus"
+    ? decideWithConsensus(snapshot, ws)
+    : decideWithFallback(snapshot, ws);
+}
+
+// Label for the AI thinking stage before a provider has actually answered
+export function getDecisionModelLabel(): string {
+  const providers = getDecisionProviders();
+  if (decisionMode === "consensus" && providers.length > 1) {
+    return `Consensus (${providers.map(p => p.label).join(" + ")})`;
+  }
+  return providers[0].label;
+}
@@ -0,0 +1,27 @@
+import mongoose from "mongoose";
+import { connectToDatabase } from "./db";
+import { verifyLedgerIntegrity } from "./lib/ledger/integrity";
+
+// npm run ledger:check - exits non-zero when any balance disagrees with the ledger
+(async () => {
+  if (!process.env.MONGODB_URI) {
+    console.error("MONGODB_URI is required to check the ledger");
+    process.exit(2);
+  }
+
+  await connectToDatabase();
+  const report = await verifyLedgerIntegrity();
+
+  console.log(`[Ledger] Checked ${report.accountsChecked} accounts`);
+  console.log(`[Ledger] Currency totals: ${JSON.stringify(report.currencyTotals)}`);
+  for (const mismatch of report.mismatches) {
+    console.log(`[Ledger] MISMATCH ${mismatch.account}: recorded ${mismatch.recorded}, ledger ${mismatch.ledger}`);
+  }
+  console.log(report.ok ? "[Ledger] OK - balances match the ledger" : "[Ledger] FAILED");
+
+  await mongoose.disconnect();
+  process.exit(report.ok ? 0 : 1);
+})().catch(error => {
+  console.error("[Ledger] Integrity check failed to run:", error);
+  process.exit(2);
+});
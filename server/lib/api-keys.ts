@@ -0,0 +1,109 @@
+import { Request } from "express";
+import { createHash, randomBytes } from "crypto";
+import { type ApiKey } from "@shared/schema";
+import { storage } from "../storage";
+
+const API_KEY_PREFIX = "tpk_";
+const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+
+export const DEFAULT_API_KEY_RATE_LIMIT = 10;
+// Shared by all of a user's keys, so creating more keys doesn't multiply the limit
+export const USER_RATE_LIMIT_PER_MINUTE = 60;
+export const MAX_ACTIVE_API_KEYS = 5;
+
+export interface GeneratedApiKey {
+  key: string;
+  keyHash: string;
+  keyPrefix: string;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetAt: number;
+}
+
+export function hashApiKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+export function generateApiKey(): GeneratedApiKey {
+  const key = `${API_KEY_PREFIX}${randomBytes(24).toString("hex")}`;
+  return {
+    key,
+    keyHash: hashApiKey(key),
+    // Enough to recognise the key in a list without revealing it
+    keyPrefix: key.slice(0, API_KEY_PREFIX.length + 8),
+  };
+}
+
+// Accepts "Authorization: Bearer <key>" or "X-API-Key: <key>"
+function readApiKey(req: Request): string | null {
+  const authorization = req.headers["authorization"];
+  if (typeof authorization === "string" && authorization.startsWith("Bearer ")) {
+    return authorization.slice("Bearer ".length).trim() || null;
+  }
+
+  const headerKey = req.headers["x-api-key"];
+  if (typeof headerKey === "string" && headerKey.trim()) {
+    return headerKey.trim();
+  }
+
+  return null;
+}
+
+export async function verifyApiKey(req: Request): Promise<ApiKey | null> {
+  const key = readApiKey(req);
+  if (!key || !key.startsWith(API_KEY_PREFIX)) {
+    return null;
+  }
+
+  const apiKey = await storage.getApiKeyByHash(hashApiKey(key));
+  if (!apiKey || apiKey.revokedAt) {
+    return null;
+  }
+
+  storage.touchApiKey(apiKey.id).catch(err => {
+    console.error(`[ApiKeys] Failed to update last use for ${apiKey.keyPrefix}:`, err);
+  });
+
+  return apiKey;
+}
+
+// Fixed one-minute windows per key and per user, held in memory (limits reset on restart)
+const rateLimitWindows = new Map<string, { windowStart: number; count: number }>();
+
+function currentWindow(id: string, now: number): { windowStart: number; count: number } {
+  let window = rateLimitWindows.get(id);
+  if (!window || now - window.windowStart >= RATE_LIMIT_WINDOW_MS) {
+    window = { windowStart: now, count: 0 };
+    rateLimitWindows.set(id, window);
+  }
+  return window;
+}
+
+/**
+ * A request needs room in both the key's own limit and the user's overall limit. The result
+ * reports whichever of the two is closer to running out.
+ */
+export function consumeRateLimit(apiKey: ApiKey, now: number = Date.now()): RateLimitResult {
+  const keyWindow = currentWindow(`key:${apiKey.id}`, now);
+  const userWindow = currentWindow(`user:${apiKey.userId}`, now);
+
+  const keyRemaining = apiKey.rateLimitPerMinute - keyWindow.count;
+  const userRemaining = USER_RATE_LIMIT_PER_MINUTE - userWindow.count;
+  const userBinds = userRemaining < keyRemaining;
+
+  const limit = userBinds ? USER_RATE_LIMIT_PER_MINUTE : apiKey.rateLimitPerMinute;
+  const remaining = Math.min(keyRemaining, userRemaining);
+  const resetAt = (userBinds ? userWindow : keyWindow).windowStart + RATE_LIMIT_WINDOW_MS;
+
+  if (remaining <= 0) {
+    return { allowed: false, limit, remaining: 0, resetAt };
+  }
+
+  keyWindow.count++;
+  userWindow.count++;
+  return { allowed: true, limit, remaining: remaining - 1, resetAt };
+}
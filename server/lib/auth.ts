@@ -9,7 +9,8 @@ export interface WhopUser {
   resourceType?: string;
 }
 
-export async function verifyWhopToken(req: Request): Promise<WhopUser | null> {
+// Only the headers are read, so WebSocket upgrade requests can be verified too
+export async function verifyWhopToken(req: Pick<Request, "headers">): Promise<WhopUser | null> {
   if (!isWhopEnabled || !whopSdk) {
     return null;
   }
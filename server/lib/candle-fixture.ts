@@ -0,0 +1,63 @@
+import { readFile } from "fs/promises";
+import { z } from "zod";
+import { pairSymbolSchema, timeframes } from "@shared/schema";
+
+/**
+ * Local candle fixtures used for offline work (backtesting, replaying market data).
+ *
+ * File format (JSON):
+ * {
+ *   "series": [
+ *     {
+ *       "pair": "BTC/USDT",
+ *       "timeframe": "H1",
+ *       "candles": [{ "timestamp": 1700000000000, "open": 1, "high": 1, "low": 1, "close": 1, "volume": 1 }]
+ *     }
+ *   ]
+ * }
+ *
+ * Timestamps are candle open times in milliseconds, matching fetchMarketData.
+ */
+
+const fixtureCandleSchema = z.object({
+  timestamp: z.number(),
+  open: z.number(),
+  high: z.number(),
+  low: z.number(),
+  close: z.number(),
+  volume: z.number(),
+});
+
+const candleFixtureSeriesSchema = z.object({
+  pair: pairSymbolSchema,
+  timeframe: z.enum(timeframes),
+  candles: z.array(fixtureCandleSchema),
+});
+
+const candleFixtureSchema = z.object({
+  series: z.array(candleFixtureSeriesSchema),
+});
+
+export type FixtureCandle = z.infer<typeof fixtureCandleSchema>;
+export type CandleFixtureSeries = z.infer<typeof candleFixtureSeriesSchema>;
+export type CandleFixture = z.infer<typeof candleFixtureSchema>;
+
+export async function loadCandleFixture(filePath: string): Promise<CandleFixture> {
+  const raw = await readFile(filePath, "utf-8");
+  const parsed = candleFixtureSchema.safeParse(JSON.parse(raw));
+
+  if (!parsed.success) {
+    throw new Error(`Invalid candle fixture ${filePath}: ${parsed.error.message}`);
+  }
+
+  // Candles are always consumed oldest-first
+  for (const series of parsed.data.series) {
+    series.candles.sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  return parsed.data;
+}
+
+export function findFixtureSeries(fixture: CandleFixture, pair: string, timeframe: string): CandleFixtureSeries | undefined {
+  return fixture.series.find(s => s.pair === pair && s.timeframe === timeframe);
+}
@@ -0,0 +1,134 @@
+import { randomBytes } from "crypto";
+import { type CommissionRule, type CommissionTier } from "@shared/schema";
+import { storage } from "../storage";
+
+/**
+ * Commission pricing. A rule pays either a percentage of the payment or a fixed amount in cents,
+ * optionally scoped to a company and/or plan and limited to an effective date range. Tiers raise
+ * (or lower) the value once the admin has enough commissioned payments in the current UTC month.
+ *
+ * The most specific effective rule wins: company + plan, then company, then plan, then an
+ * unscoped rule; ties go to the most recent effectiveFrom. With no matching rule the built-in
+ * default keeps the original 50% split.
+ */
+
+type CommissionRuleTerms = Pick<CommissionRule, "type" | "value" | "tiers">;
+
+export const DEFAULT_COMMISSION_RULE: CommissionRule = {
+  id: "default",
+  name: "Default 50% split",
+  companyId: null,
+  planId: null,
+  type: "percentage",
+  value: 50,
+  tiers: [],
+  effectiveFrom: new Date(0),
+  effectiveTo: null,
+  createdAt: new Date(0),
+  updatedAt: new Date(0),
+};
+
+export interface CommissionQuote {
+  rule: CommissionRule;
+  // Commissioned payments this month including this one, used to pick the tier
+  volume: number;
+  commissionAmount: number;
+}
+
+export interface CommissionPreview {
+  amount: number;
+  payments: number;
+  total: number;
+  // Consecutive payment ranges that earn the same commission
+  breakdown: { fromPayment: number; toPayment: number; commissionPerPayment: number; subtotal: number }[];
+}
+
+export function newCommissionRuleId(): string {
+  return `rule_${Date.now()}_${randomBytes(4).toString("hex")}`;
+}
+
+function isEffective(rule: CommissionRule, at: Date): boolean {
+  return rule.effectiveFrom <= at && (!rule.effectiveTo || at < rule.effectiveTo);
+}
+
+function specificity(rule: CommissionRule): number {
+  return (rule.companyId ? 2 : 0) + (rule.planId ? 1 : 0);
+}
+
+export function selectCommissionRule(
+  rules: CommissionRule[],
+  companyId: string | null,
+  planId: string | null,
+  at: Date = new Date(),
+): CommissionRule {
+  const matching = rules.filter(rule =>
+    isEffective(rule, at) &&
+    (!rule.companyId || rule.companyId === companyId) &&
+    (!rule.planId || rule.planId === planId)
+  );
+
+  matching.sort((a, b) =>
+    specificity(b) - specificity(a) || b.effectiveFrom.getTime() - a.effectiveFrom.getTime()
+  );
+  return matching[0] ?? DEFAULT_COMMISSION_RULE;
+}
+
+function tierFor(tiers: CommissionTier[], volume: number): CommissionTier | undefined {
+  return tiers
+    .filter(tier => tier.minPayments <= volume)
+    .sort((a, b) => b.minPayments - a.minPayments)[0];
+}
+
+// Never more than the payment itself, whatever the rule says
+export function commissionFor(terms: CommissionRuleTerms, amount: number, volume: number): number {
+  const value = tierFor(terms.tiers, volume)?.value ?? terms.value;
+  const commission = terms.type === "percentage" ? Math.floor((amount * value) / 100) : value;
+  return Math.min(commission, amount);
+}
+
+function startOfUtcMonth(at: Date): Date {
+  return new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), 1));
+}
+
+/**
+ * Price the commission an admin earns on a payment. The monthly volume is only counted when the
+ * rule has tiers; without MONGODB_URI the default rule applies.
+ */
+export async function quoteCommission(
+  adminUserId: string,
+  companyId: string | null,
+  planId: string | null,
+  amount: number,
+  at: Date = new Date(),
+): Promise<CommissionQuote> {
+  const rules = process.env.MONGODB_URI ? await storage.getCommissionRules() : [];
+  const rule = selectCommissionRule(rules, companyId, planId, at);
+
+  const volume = rule.tiers.length > 0
+    ? await storage.countCommissionedPayments(adminUserId, startOfUtcMonth(at)) + 1
+    : 1;
+
+  return { rule, volume, commissionAmount: commissionFor(rule, amount, volume) };
+}
+
+export function previewCommission(terms: CommissionRuleTerms, amount: number, payments: number): CommissionPreview {
+  const breakdown: CommissionPreview["breakdown"] = [];
+
+  for (let volume = 1; volume <= payments; volume++) {
+    const commission = commissionFor(terms, amount, volume);
+    const last = breakdown[breakdown.length - 1];
+    if (last && last.commissionPerPayment === commission) {
+      last.toPayment = volume;
+      last.subtotal += commission;
+    } else {
+      breakdown.push({ fromPayment: volume, toPayment: volume, commissionPerPayment: commission, subtotal: commission });
+    }
+  }
+
+  return {
+    amount,
+    payments,
+    total: breakdown.reduce((sum, range) => sum + range.subtotal, 0),
+    breakdown,
+  };
+}
@@ -0,0 +1,109 @@
+import { type ConfluenceMatrix, type ConfluenceRow } from "@shared/schema";
+import { timeframeToMinutes } from "./market-data/provider";
+import { type TechnicalIndicators } from "../technical-analysis";
+
+/**
+ * Multi-timeframe confluence: trend, momentum and volatility for the entry timeframe and both
+ * anchors, plus a single alignment score. Higher timeframes carry more weight in the score.
+ */
+
+export interface ConfluenceInput {
+  timeframe: string;
+  role: ConfluenceRow["role"];
+  // null when the timeframe could not be fetched
+  indicators: TechnicalIndicators | null;
+}
+
+// Weight by rank from lowest to highest timeframe
+const TIMEFRAME_WEIGHTS = [1, 1.5, 2];
+
+function classifyMomentum(indicators: TechnicalIndicators): ConfluenceRow["momentum"] {
+  if (indicators.rsi > 55 && indicators.macd.histogram > 0) return "BULLISH";
+  if (indicators.rsi < 45 && indicators.macd.histogram < 0) return "BEARISH";
+  return "NEUTRAL";
+}
+
+function squeezeRatio(indicators: TechnicalIndicators): number {
+  const keltnerWidth = indicators.keltnerChannels.upper - indicators.keltnerChannels.lower;
+  const bollingerWidth = indicators.bollingerBands.upper - indicators.bollingerBands.lower;
+  return keltnerWidth > 0 ? bollingerWidth / keltnerWidth : 1;
+}
+
+function classifyVolatility(ratio: number): ConfluenceRow["volatility"] {
+  // Bollinger inside Keltner is the classic squeeze; far outside is expansion
+  if (ratio < 1) return "LOW";
+  if (ratio > 1.5) return "HIGH";
+  return "NORMAL";
+}
+
+function vote(bias: "BULLISH" | "BEARISH" | "NEUTRAL"): number {
+  return bias === "BULLISH" ? 1 : bias === "BEARISH" ? -1 : 0;
+}
+
+export function buildConfluenceMatrix(inputs: ConfluenceInput[]): ConfluenceMatrix {
+  const ordered = [...inputs].sort((a, b) => timeframeToMinutes(a.timeframe) - timeframeToMinutes(b.timeframe));
+
+  const rows: ConfluenceRow[] = ordered.map(input => {
+    if (!input.indicators) {
+      return {
+        timeframe: input.timeframe,
+        role: input.role,
+        available: false,
+        trend: "NEUTRAL",
+        momentum: "NEUTRAL",
+        volatility: "NORMAL",
+        rsi: 50,
+        adx: 0,
+        squeezeRatio: 1,
+      };
+    }
+
+    const ratio = squeezeRatio(input.indicators);
+    return {
+      timeframe: input.timeframe,
+      role: input.role,
+      available: true,
+      trend: input.indicators.trendBias,
+      momentum: classifyMomentum(input.indicators),
+      volatility: classifyVolatility(ratio),
+      rsi: input.indicators.rsi,
+      adx: input.indicators.adx.value,
+      squeezeRatio: ratio,
+    };
+  });
+
+  // Trend counts fully, momentum half; the score is the net agreement as a share of the maximum
+  let net = 0;
+  let max = 0;
+  rows.forEach((row, idx) => {
+    if (!row.available) return;
+    const weight = TIMEFRAME_WEIGHTS[Math.min(idx, TIMEFRAME_WEIGHTS.length - 1)];
+    net += weight * (vote(row.trend) + vote(row.momentum) * 0.5);
+    max += weight * 1.5;
+  });
+
+  const alignmentScore = max > 0 ? Math.round((Math.abs(net) / max) * 100) : 0;
+  const bias = alignmentScore < 20 ? "NEUTRAL" : net > 0 ? "BULLISH" : "BEARISH";
+
+  const available = rows.filter(r => r.available);
+  const agreeing = available.filter(r => r.trend === bias).length;
+  const summary = bias === "NEUTRAL"
+    ? `Timeframes conflict - no dominant bias across ${available.length} timeframe(s)`
+    : `${agreeing}/${available.length} timeframes trend ${bias.toLowerCase()} (${alignmentScore}% alignment)`;
+
+  return { rows, alignmentScore, bias, summary };
+}
+
+/**
+ * Confidence points to add (or subtract) for a call given the confluence matrix.
+ * Trading with a well-aligned stack is rewarded; trading against one is penalized harder.
+ */
+export function confluenceConfidenceAdjustment(matrix: ConfluenceMatrix, direction: "UP" | "DOWN" | "NEUTRAL"): number {
+  if (direction === "NEUTRAL" || matrix.bias === "NEUTRAL") return 0;
+
+  const withBias = (direction === "UP") === (matrix.bias === "BULLISH");
+  if (withBias) {
+    return matrix.alignmentScore >= 75 ? 5 : matrix.alignmentScore >= 50 ? 3 : 0;
+  }
+  return matrix.alignmentScore >= 75 ? -8 : matrix.alignmentScore >= 50 ? -5 : 0;
+}
@@ -0,0 +1,45 @@
+import { type DecisionProvider, type DecisionProviderId } from "./provider";
+import { GeminiDecisionProvider } from "./gemini-provider";
+import { OpenAICompatibleProvider } from "./openai-provider";
+import { RuleBasedProvider } from "./rule-based-provider";
+
+export type DecisionMode = "fallback" | "consensus";
+
+const DEFAULT_PROVIDER_ORDER: DecisionProviderId[] = ["gemini", "openai"];
+const DEFAULT_TIMEOUT_MS = 90 * 1000;
+
+const providerIds: DecisionProviderId[] = ["gemini", "openai", "rule-based"];
+
+// DECISION_PROVIDERS=openai,gemini sets the LLM order (rule-based is always appended last)
+// DECISION_MODE=consensus asks every available provider and keeps the majority direction
+// DECISION_TIMEOUT_MS bounds each provider call
+const envProviderOrder = (process.env.DECISION_PROVIDERS || "")
+  .split(",")
+  .map(id => id.trim())
+  .filter((id): id is DecisionProviderId => providerIds.includes(id as DecisionProviderId));
+
+export const decisionMode: DecisionMode = process.env.DECISION_MODE === "consensus" ? "consensus" : "fallback";
+
+export const decisionTimeoutMs = parseInt(process.env.DECISION_TIMEOUT_MS || "") || DEFAULT_TIMEOUT_MS;
+
+const ruleBasedProvider = new RuleBasedProvider();
+
+const providers = new Map<DecisionProviderId, DecisionProvider>();
+providers.set("gemini", new GeminiDecisionProvider());
+providers.set("openai", new OpenAICompatibleProvider());
+providers.set("rule-based", ruleBasedProvider);
+
+/**
+ * Providers to ask, in order. Unconfigured LLMs (no API key) are skipped and the
+ * rule-based provider always comes last so there is an answer offline.
+ */
+export function getDecisionProviders(): DecisionProvider[] {
+  const order = envProviderOrder.length > 0 ? envProviderOrder : DEFAULT_PROVIDER_ORDER;
+
+  const available = order
+    .filter(id => id !== "rule-based")
+    .map(id => providers.get(id))
+    .filter((p): p is DecisionProvider => p !== undefined && p.isAvailable());
+
+  return [...available, ruleBasedProvider];
+}
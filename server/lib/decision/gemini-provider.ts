@@ -0,0 +1,180 @@
+import { GoogleGenAI } from "@google/genai";
+import { WebSocket } from "ws";
+import { normalizeLlmDecision, type DecisionProvider, type TechnicalAnalysisSnapshot, type TradingDecision } from "./provider";
+import { DECISION_RESPONSE_SCHEMA, DECISION_SYSTEM_PROMPT, buildAnalysisText } from "./prompt";
+
+// Tried in order; each falls through to the next on error
+const GEMINI_MODELS = [
+  { model: "gemini-3.1-pro-preview", label: "Gemini 3.1 Pro (Thinking Mode)" },
+  { model: "gemini-2.5-pro", label: "Gemini 2.5 Pro (Thinking Mode)" },
+  { model: "gemini-flash-latest", label: "Gemini Flash (Thinking Mode)" },
+];
+
+async function callGeminiModelStreaming(
+  ai: GoogleGenAI,
+  model: string,
+  label: string,
+  systemPrompt: string,
+  analysisText: string,
+  schema: any,
+  useThinking: boolean = false,
+  ws?: WebSocket,
+  signal?: AbortSignal
+): Promise<TradingDecision> {
+  const config: any = {
+    systemInstruction: systemPrompt,
+    responseMimeType: "application/json",
+    responseSchema: schema,
+    temperature: 0.3,
+    abortSignal: signal,
+  };
+
+  if (useThinking) {
+    config.thinkingConfig = {
+      thinkingBudget: 8192,
+      includeThoughts: true,
+    };
+  }
+
+  const streamResultPromise = ai.models.generateContentStream({
+    model,
+    config,
+    contents: analysisText,
+  });
+
+  let thinkingProcess = "";
+  let jsonText = "";
+
+  const streamResult = await streamResultPromise;
+
+  for await (const chunk of streamResult) {
+    // The engine gave up on this provider; stop before anything else reaches the socket
+    if (signal?.aborted) {
+      throw new Error(`${label} aborted`);
+    }
+
+    if (!chunk.candidates || chunk.candidates.length === 0) continue;
+
+    const parts = chunk.candidates[0]?.content?.parts;
+    if (!parts || !Array.isArray(parts)) continue;
+
+    for (const part of parts) {
+      if ((part as any).thought && part.text) {
+        let cleanText = part.text.replace(/\*/g, '');
+
+        // Remove JSON code blocks (```json ... ```)
+        cleanText = cleanText.replace(/```json[\s\S]*?```/g, '');
+        cleanText = cleanText.replace(/```[\s\S]*?```/g, '');
+
+        // Remove standalone curly braces that might be JSON fragments
+        cleanText = cleanText.replace(/^\s*\{[\s\S]*?\}\s*$/gm, '');
+
+        const jsonPatterns = [
+          /output.*?json/gi,
+          /in json format/gi,
+          /json schema/gi,
+          /json.*?structure/gi,
+          /response.*?json/gi,
+          /provide.*?json/gi,
+          /return.*?json/gi,
+          /format.*?json/gi,
+          /the json output/gi,
+          /json output/gi,
+          /my.*?json/gi,
+          /craft.*?json/gi,
+          /generat.*?json/gi,
+          /creat.*?json/gi,
+          /complet.*?json/gi,
+          /solidify.*?json/gi,
+          /fine-tun.*?json/gi
+        ];
+
+        jsonPatterns.forEach(pattern => {
+          cleanText = cleanText.replace(pattern, '');
+        });
+
+        // Remove common repetitive phrases
+        const repetitivePatterns = [
+          /I'm solidifying my approach and fine-tuning the recommendation\./gi,
+          /I'm now crafting the final JSON output\./gi,
+          /My recommendation is complete\./gi,
+          /The JSON output below summarizes my current thinking\./gi,
+          /I've considered the contradictory signals/gi
+        ];
+
+        repetitivePatterns.forEach(pattern => {
+          cleanText = cleanText.replace(pattern, '');
+        });
+
+        cleanText = cleanText.replace(/\s{2,}/g, ' ').trim();
+
+        if (cleanText) {
+          thinkingProcess += cleanText + ' ';
+
+          if (ws && ws.readyState === WebSocket.OPEN) {
+            ws.send(JSON.stringify({
+              type: "ai_thinking_stream",
+              thought: cleanText,
+              fullThinking: thinkingProcess.trim()
+            }));
+          }
+        }
+      } else if (part.text && !(part as any).thought) {
+        jsonText += part.text;
+      }
+    }
+  }
+
+  if (!jsonText) {
+    throw new Error('No JSON content in Gemini response');
+  }
+
+  const decision = normalizeLlmDecision(JSON.parse(jsonText), "gemini", label);
+
+  if (thinkingProcess) {
+    decision.thinkingProcess = thinkingProcess;
+  }
+
+  return decision;
+}
+
+export class GeminiDecisionProvider implements DecisionProvider {
+  readonly id = "gemini" as const;
+  readonly label = GEMINI_MODELS[0].label;
+  private ai: GoogleGenAI | null = null;
+
+  isAvailable(): boolean {
+    return Boolean(process.env.GEMINI_API_KEY);
+  }
+
+  async decide(snapshot: TechnicalAnalysisSnapshot, ws?: WebSocket, signal?: AbortSignal): Promise<TradingDecision> {
+    if (!this.ai) {
+      this.ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY || "" });
+    }
+
+    const analysisText = buildAnalysisText(snapshot);
+    let lastError: unknown = new Error("No Gemini model configured");
+
+    for (const { model, label } of GEMINI_MODELS) {
+      if (signal?.aborted) break;
+
+      try {
+        console.log(`\n🤖 Calling ${label} (streaming)...`);
+        const decision = await callGeminiModelStreaming(this.ai, model, label, DECISION_SYSTEM_PROMPT, analysisText, DECISION_RESPONSE_SCHEMA, true, ws, signal);
+
+        console.log(`✅ ${label} Decision: ${decision.direction} | ${decision.confidence}%`);
+        console.log(`   Rationale: ${decision.rationale}`);
+        if (decision.thinkingProcess) {
+          console.log(`   🧠 Thinking captured (${decision.thinkingProcess.length} chars)`);
+        }
+        return decision;
+      } catch (error: any) {
+        console.warn(`⚠️  ${label} failed: ${error.message}`);
+        lastError = error;
+      }
+    }
+
+    console.error("❌ All Gemini models failed");
+    throw lastError;
+  }
+}
@@ -0,0 +1,71 @@
+import { WebSocket } from "ws";
+import { normalizeLlmDecision, type DecisionProvider, type TechnicalAnalysisSnapshot, type TradingDecision } from "./provider";
+import { DECISION_RESPONSE_SCHEMA, DECISION_SYSTEM_PROMPT, buildAnalysisText } from "./prompt";
+
+const DEFAULT_OPENAI_BASE_URL = "https://api.openai.com/v1";
+const DEFAULT_OPENAI_MODEL = "gpt-4o-mini";
+
+/**
+ * Any endpoint that speaks the OpenAI chat completions API (OpenAI, OpenRouter, vLLM,
+ * Ollama, ...). Configured with OPENAI_API_KEY, OPENAI_BASE_URL and OPENAI_MODEL.
+ */
+export class OpenAICompatibleProvider implements DecisionProvider {
+  readonly id = "openai" as const;
+
+  get label(): string {
+    return process.env.OPENAI_MODEL || DEFAULT_OPENAI_MODEL;
+  }
+
+  isAvailable(): boolean {
+    return Boolean(process.env.OPENAI_API_KEY);
+  }
+
+  async decide(snapshot: TechnicalAnalysisSnapshot, _ws?: WebSocket, signal?: AbortSignal): Promise<TradingDecision> {
+    const baseUrl = (process.env.OPENAI_BASE_URL || DEFAULT_OPENAI_BASE_URL).replace(/\/+$/, "");
+    const model = this.label;
+
+    // Not every compatible server supports json_schema, so the schema travels in the prompt
+    const systemPrompt = `${DECISION_SYSTEM_PROMPT}
+
+Respond with a single JSON object matching this JSON schema and nothing else:
+${JSON.stringify(DECISION_RESPONSE_SCHEMA)}`;
+
+    console.log(`\n🤖 Calling ${model} via ${baseUrl}...`);
+
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Bearer ${process.env.OPENAI_API_KEY}`,
+      },
+      body: JSON.stringify({
+        model,
+        temperature: 0.3,
+        response_format: { type: "json_object" },
+        messages: [
+          { role: "system", content: systemPrompt },
+          { role: "user", content: buildAnalysisText(snapshot) },
+        ],
+      }),
+      signal,
+    });
+
+    if (!response.ok) {
+      const body = await response.text();
+      throw new Error(`[OpenAI] ${model} error ${response.status}: ${body.substring(0, 200)}`);
+    }
+
+    const data: any = await response.json();
+    const content = data?.choices?.[0]?.message?.content;
+    if (!content) {
+      throw new Error(`[OpenAI] ${model} returned no content`);
+    }
+
+    // Some models still wrap JSON in a code fence
+    const jsonText = content.replace(/^\s*```(?:json)?\s*/i, "").replace(/\s*```\s*$/, "");
+    const decision = normalizeLlmDecision(JSON.parse(jsonText), "openai", model);
+
+    console.log(`✅ ${model} Decision: ${decision.direction} | ${decision.confidence}%`);
+    return decision;
+  }
+}
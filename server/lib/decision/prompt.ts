@@ -0,0 +1,169 @@
+import { type TechnicalAnalysisSnapshot } from "./provider";
+
+/**
+ * Prompt and response schema shared by every LLM decision provider, so Gemini and
+ * OpenAI-compatible models are asked exactly the same question.
+ */
+
+export const DECISION_SYSTEM_PROMPT = `You are an elite quantitative crypto trading strategist with deep expertise in technical analysis and multi-timeframe trend alignment.
+
+Your task: Analyze the provided technical indicators and market data to make a precise trading prediction.
+- **FIRST**: Explicitly state "I am analyzing the [Entry Timeframe] chart..." in your thinking process.
+- **THINK DEEPLY** about each aspect before deciding.
+
+CRITICAL REQUIREMENTS:
+1. Direction: Choose "UP", "DOWN", or "NEUTRAL"
+2. Confidence: Must be between 80-99%. Use the full range intelligently:
+   - 80-85%: Moderate setup with some conflicting signals or ranging conditions
+   - 86-92%: Strong setup with good alignment
+   - 93-99%: Exceptional setup with near-perfect alignment
+   IMPORTANT: BE DECISIVE. If you see a good edge, do NOT default to NEUTRAL. Use the 80-88% range for decent "probable" setups.
+   Only use NEUTRAL if the market is completely dead (ADX < 12) or providing truly conflicting chaos.
+3. Rationale: 2-3 sentences explaining the key factors driving your decision
+4. Risk Factors: 2-4 specific risks to this trade
+5. Key Factors: 3-6 bullet points listing the most important indicators supporting your decision
+6. Trade Targets (required for UP/DOWN): Provide a clean, actionable plan using the current price and ATR/volatility:
+   - entry: a tight ENTRY range around the current price (low/high)
+   - target: a realistic TARGET range in the trade direction (low/high)
+   - stop: a STOP price that invalidates the setup (single number)
+
+TRADE TARGET GUIDELINES:
+- Keep ENTRY close to current price (a small band, not a huge zone)
+- Use ATR/volatility to size distances (targets typically 1.5–2.5x ATR away, stops ~0.8–1.3x ATR away)
+- For UP: stop < entry.low; target.high > entry.high
+- For DOWN: stop > entry.high; target.low < entry.low
+
+7. Duration: ESTIMATED TRADE DURATION. Do NOT be generic. Based on volatility and target distance:
+   - Scalps (M1-M5): "5-15 mins" or "10-30 mins"
+   - Day Trades (M15-H1): "1-4 hours" or "Session End"
+   - Swings (H4-D1): "2-5 days" or "Weekly Hold"
+   - Calculate this based on (ATR / current_volatility).
+
+TREND ALIGNMENT & TIMEFRAME FOCUS:
+- You will see Entry Timeframe and Anchor Timeframe data.
+- **CRITICAL**: The USER'S selected "Entry Timeframe" is the Boss. Analyze the chart PRIMARILY based on this timeframe.
+- Use the Anchor Timeframe ONLY for context/confirmation. Do not let a conflicting Anchor timeframe override a perfect setup on the Entry timeframe.
+- If Entry TF says UP and Anchor says DOWN, you can still trade UP if the Entry pattern is strong.
+- If trends conflict, you may still proceed if you see a strong reversal pattern or significant momentum, but reduce confidence accordingly.
+
+VOLUME CONFIRMATION:
+- Volume at least 1.1x the 20-period Volume MA is preferred for confirmation.
+- If price makes new high/low but volume is significantly decreasing, be cautious of a "Weak Breakout/Breakdown".
+
+CONFIDENCE CALIBRATION:
+- If signals are mixed or market regime is RANGING → 80-85%
+- If strong directional bias but some counter-signals → 86-92%
+- If very strong alignment and favorable regime → 93-96%
+- If exceptional alignment, strong trend, and volume confirmation → 97-99%
+- ADX < 12 is the ONLY "hard" neutral indicator. Anything else can be traded if price action/momentum is good.
+- Don't simply average the signals. Look for the "story" of the chart. A divergence + support bounce is a high probability trade even if moving averages are mixed.
+- Trust high conviction signals. If you see a 99% setup, give it 99%.
+
+Think like a hedge fund algorithm: Risk/Reward is key. If the setup is decent (3:1 reward), take the trade with 85% confidence.`;
+
+export function buildAnalysisText(snapshot: TechnicalAnalysisSnapshot): string {
+  return `
+MARKET SNAPSHOT:
+Pair: ${snapshot.pair}
+Current Price: ${snapshot.currentPrice.toFixed(2)}
+24h Change: ${snapshot.priceChange24h >= 0 ? '+' : ''}${snapshot.priceChange24h.toFixed(2)}%
+Market Regime: ${snapshot.marketRegime}
+
+TIMEFRAME ANALYSIS:
+Entry Timeframe: ${snapshot.entryTimeframe} (User selected)
+Anchor Timeframe: ${snapshot.anchorTimeframe} (One level higher)
+Entry Trend Bias: ${snapshot.entryTrendBias}
+Anchor Trend Bias: ${snapshot.anchorTrendBias}
+
+TREND ALIGNMENT STATUS:
+${snapshot.entryTrendBias === snapshot.anchorTrendBias ? '✓ Trends Aligned' : '⚠ Trend Conflict Risk'}
+${snapshot.entryTrendBias === 'BULLISH' && snapshot.anchorTrendBias === 'BULLISH' ? '  → Both timeframes show bullish bias - favorable for LONG trades' : ''}
+${snapshot.entryTrendBias === 'BEARISH' && snapshot.anchorTrendBias === 'BEARISH' ? '  → Both timeframes show bearish bias - favorable for SHORT trades' : ''}
+${snapshot.entryTrendBias !== snapshot.anchorTrendBias ? '  → ENTRY CONFLICT: Entry timeframe conflicts with anchor trend - EXERCISE CAUTION' : ''}
+
+TECHNICAL INDICATORS:
+- RSI: ${snapshot.rsiValue.toFixed(1)} ${snapshot.rsiValue >= 48 && snapshot.rsiValue <= 52 ? '(NEUTRAL ZONE)' : ''}
+- MACD Signal: ${snapshot.macdSignal}
+- Trend Strength: ${snapshot.trendStrength.toFixed(1)}%
+- Volume Indicator: ${snapshot.volumeIndicator.toFixed(1)}%
+- Current Volume: ${snapshot.currentVolume.toFixed(0)}
+- Volume MA (20): ${snapshot.volumeMA.toFixed(0)}
+- Volume Ratio: ${(snapshot.volumeMA > 0 ? snapshot.currentVolume / snapshot.volumeMA : 1).toFixed(2)}x ${(snapshot.volumeMA > 0 && snapshot.currentVolume / snapshot.volumeMA >= 1.1 ? '✓ Confirmed' : '⚠ Below preferred threshold (1.1x)')}
+- Volatility (ATR): ${snapshot.volatility.toFixed(2)}
+- ADX: ${snapshot.adxValue.toFixed(1)} ${snapshot.adxValue < 15 ? '(Tight range)' : '(Trending market)'}
+
+${snapshot.safetyAudit && snapshot.safetyAudit.length > 0 ? `HEDGE FUND SAFETY AUDIT:
+The following institutional-grade safety checks were performed:
+${snapshot.safetyAudit.map(c => `- ${c.name}: ${c.status} (${c.value}) - ${c.message}`).join('\n')}
+(Weight these audit results heavily. "FAIL" statuses represent significant institutional resistance or structural weakness.)` : ''}
+
+${snapshot.marketSession ? `MARKET SESSION: ${snapshot.marketSession}
+(Breakouts in thin sessions fail more often; a closed market means no fills until it reopens.)` : ''}
+
+${snapshot.newsContext && snapshot.newsContext.length > 0 ? `MARKET SENTIMENT / NEWS CONTEXT:
+The following recent headlines are relevant to ${snapshot.pair} or key market drivers:
+${snapshot.newsContext.map(h => `- ${h}`).join('\n')}
+(Consider these headlines for sentiment context, mainly to support or contradict technical bias.)` : ''}
+
+SIGNAL ANALYSIS:
+UP Signals (Score: ${snapshot.upScore.toFixed(1)}):
+${snapshot.upSignals.map(s => `  • ${s.category}: ${s.reason} (${s.strength.toFixed(0)})`).join('\n')}
+
+DOWN Signals (Score: ${snapshot.downScore.toFixed(1)}):
+${snapshot.downSignals.map(s => `  • ${s.category}: ${s.reason} (${s.strength.toFixed(0)})`).join('\n')}
+
+Based on this multi-timeframe technical analysis, provide your trading decision. Pay special attention to trend alignment and volume confirmation.`;
+}
+
+export const DECISION_RESPONSE_SCHEMA = {
+  type: "object",
+  properties: {
+    direction: {
+      type: "string",
+      enum: ["UP", "DOWN", "NEUTRAL"],
+    },
+    confidence: {
+      type: "number",
+      minimum: 80,
+      maximum: 99,
+    },
+    rationale: { type: "string" },
+    riskFactors: {
+      type: "array",
+      items: { type: "string" },
+      minItems: 2,
+      maxItems: 4,
+    },
+    keyFactors: {
+      type: "array",
+      items: { type: "string" },
+      minItems: 3,
+      maxItems: 6,
+    },
+    tradeTargets: {
+      type: "object",
+      properties: {
+        entry: {
+          type: "object",
+          properties: {
+            low: { type: "number" },
+            high: { type: "number" },
+          },
+          required: ["low", "high"],
+        },
+        target: {
+          type: "object",
+          properties: {
+            low: { type: "number" },
+            high: { type: "number" },
+          },
+          required: ["low", "high"],
+        },
+        stop: { type: "number" },
+      },
+      required: ["entry", "target", "stop"],
+    },
+    duration: { type: "string" },
+  },
+  required: ["direction", "confidence", "rationale", "riskFactors", "keyFactors", "tradeTargets", "duration"],
+};
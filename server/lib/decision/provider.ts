@@ -0,0 +1,101 @@
+import { WebSocket } from "ws";
+
+export interface DecisionTradeTargets {
+  entry: { low: number; high: number };
+  target: { low: number; high: number };
+  stop: number;
+}
+
+export interface TechnicalAnalysisSnapshot {
+  pair: string;
+  currentPrice: number;
+  priceChange24h: number;
+  marketRegime: "STRONG_TRENDING" | "TRENDING" | "RANGING";
+  entryTimeframe: string;
+  anchorTimeframe: string;
+  entryTrendBias: "BULLISH" | "BEARISH" | "NEUTRAL";
+  anchorTrendBias: "BULLISH" | "BEARISH" | "NEUTRAL";
+  upSignals: { category: string; reason: string; strength: number }[];
+  downSignals: { category: string; reason: string; strength: number }[];
+  upScore: number;
+  downScore: number;
+  volumeIndicator: number;
+  volumeMA: number;
+  currentVolume: number;
+  trendStrength: number;
+  volatility: number;
+  rsiValue: number;
+  macdSignal: string;
+  adxValue: number;
+  // Trading session and open/closed state, e.g. "London/New York overlap session, high liquidity"
+  marketSession?: string;
+  newsContext?: string[];
+  safetyAudit?: { name: string; status: string; value: string; message: string }[];
+}
+
+export type DecisionProviderId = "gemini" | "openai" | "rule-based";
+
+export interface DecisionVote {
+  provider: DecisionProviderId;
+  direction: "UP" | "DOWN" | "NEUTRAL";
+  confidence: number;
+}
+
+export interface TradingDecision {
+  direction: "UP" | "DOWN" | "NEUTRAL";
+  confidence: number;
+  rationale: string;
+  riskFactors: string[];
+  thinkingProcess?: string;
+  keyFactors?: string[];
+  tradeTargets?: DecisionTradeTargets;
+  duration?: string;
+  provider: DecisionProviderId;
+  // Human-readable model label shown in the AI thinking stage
+  modelUsed: string;
+  // Present in consensus mode: every provider that answered
+  votes?: DecisionVote[];
+}
+
+/**
+ * A source of trading decisions for a technical snapshot. Providers throw when they cannot
+ * answer so the decision engine can fall back to the next provider. The signal aborts once the
+ * engine stops waiting; providers should cancel their request and stop streaming to the socket.
+ */
+export interface DecisionProvider {
+  readonly id: DecisionProviderId;
+  readonly label: string;
+  isAvailable(): boolean;
+  decide(snapshot: TechnicalAnalysisSnapshot, ws?: WebSocket, signal?: AbortSignal): Promise<TradingDecision>;
+}
+
+/**
+ * Validate and clamp a raw JSON decision from an LLM. LLM confidence is held to the
+ * 80-99 band the prompt asks for.
+ */
+export function normalizeLlmDecision(
+  raw: any,
+  provider: DecisionProviderId,
+  modelUsed: string
+): TradingDecision {
+  if (!raw || !["UP", "DOWN", "NEUTRAL"].includes(raw.direction)) {
+    throw new Error(`[Decision] ${provider} returned an invalid direction: ${raw?.direction}`);
+  }
+
+  const confidence = Number(raw.confidence);
+  if (!Number.isFinite(confidence)) {
+    throw new Error(`[Decision] ${provider} returned an invalid confidence: ${raw.confidence}`);
+  }
+
+  return {
+    direction: raw.direction,
+    confidence: Math.round(Math.max(80, Math.min(99, confidence))),
+    rationale: typeof raw.rationale === "string" ? raw.rationale : "",
+    riskFactors: Array.isArray(raw.riskFactors) ? raw.riskFactors.map(String) : [],
+    keyFactors: Array.isArray(raw.keyFactors) ? raw.keyFactors.map(String) : undefined,
+    tradeTargets: raw.tradeTargets,
+    duration: typeof raw.duration === "string" ? raw.duration : undefined,
+    provider,
+    modelUsed,
+  };
+}
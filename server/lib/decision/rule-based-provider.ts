@@ -0,0 +1,88 @@
+import { WebSocket } from "ws";
+import { combineWeightedSignals, type WeightedSignal } from "../../ai-prediction";
+import { type DecisionProvider, type TechnicalAnalysisSnapshot, type TradingDecision } from "./provider";
+
+// Matches the prompt's only hard NEUTRAL rule
+const DEAD_MARKET_ADX = 12;
+
+function volumeBonusFor(snapshot: TechnicalAnalysisSnapshot, direction: "UP" | "DOWN" | "NEUTRAL"): number {
+  if (direction === "NEUTRAL" || snapshot.volumeMA <= 0) {
+    return 0;
+  }
+  const ratio = snapshot.currentVolume / snapshot.volumeMA;
+  if (ratio >= 1.5) return 15;
+  if (ratio >= 1.1) return 8;
+  if (ratio < 0.8) return -8;
+  return 0;
+}
+
+/**
+ * Deterministic decisions from the weighted signal model. Needs no network access, so it is
+ * always available and serves as the last fallback when no LLM answers.
+ */
+export class RuleBasedProvider implements DecisionProvider {
+  readonly id = "rule-based" as const;
+  readonly label = "Rule-Based Signal Model";
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async decide(snapshot: TechnicalAnalysisSnapshot, _ws?: WebSocket, _signal?: AbortSignal): Promise<TradingDecision> {
+    const signals: WeightedSignal[] = [
+      ...snapshot.upSignals.map(s => ({ direction: "UP" as const, strength: s.strength, weight: 1.0, reason: s.reason, category: s.category })),
+      ...snapshot.downSignals.map(s => ({ direction: "DOWN" as const, strength: s.strength, weight: 1.0, reason: s.reason, category: s.category })),
+    ];
+
+    const base = combineWeightedSignals(signals, 0, snapshot.marketRegime, false);
+    const volumeBonus = volumeBonusFor(snapshot, base.direction);
+    const result = combineWeightedSignals(signals, volumeBonus, snapshot.marketRegime, false);
+
+    const riskFactors: string[] = [];
+    if (snapshot.entryTrendBias !== snapshot.anchorTrendBias) {
+      riskFactors.push(`Entry trend (${snapshot.entryTrendBias}) conflicts with ${snapshot.anchorTimeframe} anchor (${snapshot.anchorTrendBias})`);
+    }
+    if (volumeBonus < 0) {
+      riskFactors.push("Volume below average - weak participation");
+    }
+    if (snapshot.marketRegime === "RANGING") {
+      riskFactors.push("Ranging market - breakouts may fail");
+    }
+    if (snapshot.marketSession?.startsWith("Market closed")) {
+      riskFactors.push(snapshot.marketSession);
+    }
+    if (riskFactors.length < 2) {
+      riskFactors.push("Deterministic model - no news or pattern context considered");
+    }
+
+    const thinkingProcess = `Rule-based model on ${snapshot.entryTimeframe}: UP score ${snapshot.upScore.toFixed(0)} (${snapshot.upSignals.length} signals) vs DOWN score ${snapshot.downScore.toFixed(0)} (${snapshot.downSignals.length} signals). ` +
+      `Signal alignment ${result.signalAlignment}%, volume adjustment ${volumeBonus >= 0 ? "+" : ""}${volumeBonus}, ${snapshot.marketRegime} regime, ADX ${snapshot.adxValue.toFixed(1)}. ` +
+      `Weighted result: ${result.direction} at ${result.confidence}%.`;
+
+    if (snapshot.adxValue < DEAD_MARKET_ADX || result.direction === "NEUTRAL") {
+      return {
+        direction: "NEUTRAL",
+        confidence: result.confidence,
+        rationale: snapshot.adxValue < DEAD_MARKET_ADX
+          ? `ADX ${snapshot.adxValue.toFixed(1)} is below ${DEAD_MARKET_ADX} - no tradeable trend.`
+          : "Weighted signals are balanced - no directional edge.",
+        riskFactors,
+        keyFactors: result.reasons.slice(0, 6),
+        thinkingProcess,
+        provider: this.id,
+        modelUsed: this.label,
+      };
+    }
+
+    return {
+      direction: result.direction,
+      confidence: result.confidence,
+      rationale: `${result.signalAlignment}% of weighted signals point ${result.direction} in a ${snapshot.marketRegime.toLowerCase().replace("_", " ")} market (ADX ${snapshot.adxValue.toFixed(1)}).`,
+      riskFactors,
+      keyFactors: result.reasons.slice(0, 6),
+      thinkingProcess,
+      provider: this.id,
+      modelUsed: this.label,
+    };
+  }
+}
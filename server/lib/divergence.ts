@@ -0,0 +1,181 @@
+import { type Candle } from "./market-data/provider";
+import { calculateMACDSeries, calculateOBVSeries, calculateRSISeries } from "../technical-analysis";
+
+/**
+ * Price/indicator divergence detection.
+ *
+ * Swing highs and lows are found in price, then the indicator is read at the same bars. The two
+ * most recent swings of each kind are compared:
+ *
+ *   regular bearish - price higher high, indicator lower high (uptrend losing steam)
+ *   hidden bearish  - price lower high, indicator higher high (downtrend continuation)
+ *   regular bullish - price lower low, indicator higher low (downtrend losing steam)
+ *   hidden bullish  - price higher low, indicator lower low (uptrend continuation)
+ */
+
+export type DivergenceIndicator = "RSI" | "MACD" | "OBV";
+export type DivergenceKind = "regular" | "hidden";
+
+export interface SwingPoint {
+  index: number;
+  price: number;
+  indicator: number;
+}
+
+export interface Divergence {
+  indicator: DivergenceIndicator;
+  kind: DivergenceKind;
+  // Bullish divergences point UP, bearish ones DOWN
+  direction: "UP" | "DOWN";
+  swing: "high" | "low";
+  from: SwingPoint;
+  to: SwingPoint;
+  // Bars since the second swing - older divergences have mostly played out
+  barsAgo: number;
+  description: string;
+}
+
+export interface DivergenceOptions {
+  // Bars of history searched for swings
+  lookback: number;
+  // Bars on each side a swing must dominate
+  swingWindow: number;
+  // Ignore divergences whose latest swing is older than this
+  maxBarsAgo: number;
+}
+
+export const DEFAULT_DIVERGENCE_OPTIONS: DivergenceOptions = {
+  lookback: 60,
+  swingWindow: 3,
+  maxBarsAgo: 12,
+};
+
+export function findSwingPoints(candles: Candle[], swingWindow: number): { highs: number[]; lows: number[] } {
+  const highs: number[] = [];
+  const lows: number[] = [];
+
+  for (let i = swingWindow; i < candles.length - swingWindow; i++) {
+    let isHigh = true;
+    let isLow = true;
+
+    for (let j = i - swingWindow; j <= i + swingWindow; j++) {
+      if (j === i) continue;
+      if (candles[j].high >= candles[i].high) isHigh = false;
+      if (candles[j].low <= candles[i].low) isLow = false;
+    }
+
+    if (isHigh) highs.push(i);
+    if (isLow) lows.push(i);
+  }
+
+  return { highs, lows };
+}
+
+function compareSwings(
+  indicator: DivergenceIndicator,
+  swing: "high" | "low",
+  from: SwingPoint,
+  to: SwingPoint,
+  barsAgo: number
+): Divergence | null {
+  const priceUp = to.price > from.price;
+  const indicatorUp = to.indicator > from.indicator;
+
+  if (priceUp === indicatorUp || to.price === from.price || to.indicator === from.indicator) {
+    return null;
+  }
+
+  let kind: DivergenceKind;
+  let direction: "UP" | "DOWN";
+
+  if (swing === "high") {
+    // Higher high in price with a weaker indicator is the classic top warning
+    kind = priceUp ? "regular" : "hidden";
+    direction = "DOWN";
+  } else {
+    kind = priceUp ? "hidden" : "regular";
+    direction = "UP";
+  }
+
+  const bias = direction === "UP" ? "bullish" : "bearish";
+  const priceMove = swing === "high"
+    ? (priceUp ? "higher high" : "lower high")
+    : (priceUp ? "higher low" : "lower low");
+  const indicatorMove = swing === "high"
+    ? (indicatorUp ? "higher high" : "lower high")
+    : (indicatorUp ? "higher low" : "lower low");
+
+  return {
+    indicator,
+    kind,
+    direction,
+    swing,
+    from,
+    to,
+    barsAgo,
+    description: `${kind === "regular" ? "Regular" : "Hidden"} ${bias} ${indicator} divergence: price ${priceMove}, ${indicator} ${indicatorMove} (${barsAgo} bars ago)`,
+  };
+}
+
+function detectForIndicator(
+  indicator: DivergenceIndicator,
+  window: Candle[],
+  values: number[],
+  swings: { highs: number[]; lows: number[] },
+  maxBarsAgo: number
+): Divergence[] {
+  const found: Divergence[] = [];
+  const lastIndex = window.length - 1;
+
+  const pairs: ["high" | "low", number[]][] = [["high", swings.highs], ["low", swings.lows]];
+  for (const [swing, indices] of pairs) {
+    if (indices.length < 2) continue;
+
+    const fromIndex = indices[indices.length - 2];
+    const toIndex = indices[indices.length - 1];
+    const barsAgo = lastIndex - toIndex;
+    if (barsAgo > maxBarsAgo) continue;
+
+    const pricePoint = (i: number) => (swing === "high" ? window[i].high : window[i].low);
+    const divergence = compareSwings(
+      indicator,
+      swing,
+      { index: fromIndex, price: pricePoint(fromIndex), indicator: values[fromIndex] },
+      { index: toIndex, price: pricePoint(toIndex), indicator: values[toIndex] },
+      barsAgo
+    );
+
+    if (divergence) {
+      found.push(divergence);
+    }
+  }
+
+  return found;
+}
+
+/**
+ * Find RSI, MACD histogram and OBV divergences over the recent lookback window.
+ * Indicator values come from the series variants, so they match analyzeMarket bar for bar.
+ */
+export function detectDivergences(
+  candles: Candle[],
+  options: DivergenceOptions = DEFAULT_DIVERGENCE_OPTIONS
+): Divergence[] {
+  const points = Math.min(options.lookback, candles.length - 1);
+  if (points < options.swingWindow * 2 + 2) {
+    return [];
+  }
+
+  const window = candles.slice(-points);
+  const swings = findSwingPoints(window, options.swingWindow);
+
+  const series: [DivergenceIndicator, number[]][] = [
+    ["RSI", calculateRSISeries(candles, points, 14)],
+    ["MACD", calculateMACDSeries(candles, points).map(m => m.histogram)],
+    ["OBV", calculateOBVSeries(candles, points)],
+  ];
+
+  return series.flatMap(([indicator, values]) =>
+    detectForIndicator(indicator, window, values, swings, options.maxBarsAgo)
+  );
+}
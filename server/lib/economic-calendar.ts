@@ -0,0 +1,307 @@
+import { readFile, stat } from "fs/promises";
+import { type TradingPair } from "@shared/schema";
+import { getPairCategory } from "./pair-catalog";
+
+/**
+ * Economic calendar loaded from an ICS or CSV export (ECONOMIC_CALENDAR_FILE).
+ *
+ * CSV needs a header row. Recognized columns (case-insensitive): title/event, currency/country,
+ * date, time, impact. Forex Factory's export (Title,Country,Date,Time,Impact,...) works as-is.
+ * Dates may be YYYY-MM-DD or MM-DD-YYYY; times HH:MM or h:mmam/pm; both are read as UTC.
+ *
+ * ICS reads SUMMARY, DTSTART and UID from each VEVENT. Currency and impact come from
+ * CATEGORIES (e.g. "USD,High") or X-IMPACT / X-CURRENCY when present.
+ *
+ * Missing currency or impact is inferred from the title: "FOMC" is a high-impact USD event,
+ * "ECB" a EUR one, and so on. The file is re-read whenever its modification time changes.
+ */
+
+export type EventImpact = "high" | "medium" | "low";
+
+export interface EconomicEvent {
+  id: string;
+  title: string;
+  currency: string;
+  impact: EventImpact;
+  // Epoch milliseconds
+  time: number;
+}
+
+export interface EventRisk {
+  // False when no calendar file is configured or it failed to load
+  calendarLoaded: boolean;
+  currencies: string[];
+  windowStart: number;
+  windowEnd: number;
+  // Events for the pair's currencies inside the window, soonest first
+  events: EconomicEvent[];
+  highImpact: EconomicEvent[];
+  // Set when a high-impact event is in the window and ECONOMIC_EVENT_FORCE_NEUTRAL is on
+  forceNeutral: boolean;
+}
+
+// Minutes either side of the prediction window that still count - releases move price before and after
+const EVENT_BUFFER_MINUTES = parseFloat(process.env.ECONOMIC_EVENT_BUFFER_MINUTES || "") || 30;
+const FORCE_NEUTRAL = process.env.ECONOMIC_EVENT_FORCE_NEUTRAL === "true";
+
+const TITLE_IMPACT: [RegExp, EventImpact][] = [
+  [/\b(cpi|consumer price|non-?farm|nfp|fomc|fed (funds|interest rate)|interest rate decision|rate decision|monetary policy|gdp|pce|core pce|employment change|unemployment rate)\b/i, "high"],
+  [/\b(ppi|producer price|pmi|retail sales|jobless claims|ism|jolts|adp|trade balance|consumer confidence|durable goods|housing starts|speaks|testimony|minutes)\b/i, "medium"],
+];
+
+const TITLE_CURRENCY: [RegExp, string][] = [
+  [/\b(fomc|fed|powell|nfp|non-?farm|us|u\.s\.)\b/i, "USD"],
+  [/\b(ecb|lagarde|eurozone|euro area|german|germany|french|france)\b/i, "EUR"],
+  [/\b(boe|bank of england|bailey|uk|u\.k\.|british)\b/i, "GBP"],
+  [/\b(rba|bullock|australia|australian)\b/i, "AUD"],
+];
+
+const CURRENCY_CODES = ["USD", "EUR", "GBP", "AUD", "JPY", "CAD", "CHF", "NZD", "CNY"];
+
+// Forex pairs follow both legs; commodities and indices follow their quote currency.
+// Crypto is not covered.
+export function pairCurrencies(pair: TradingPair): string[] {
+  const [base, quote] = pair.split("/");
+  switch (getPairCategory(pair)) {
+    case "forex":
+      return [base, quote];
+    case "commodities":
+    case "indices":
+      return [quote];
+    default:
+      return [];
+  }
+}
+
+function parseImpact(raw: string | undefined, title: string): EventImpact {
+  const value = (raw || "").toLowerCase();
+  if (value.includes("high") || value === "3") return "high";
+  if (value.includes("medium") || value.includes("moderate") || value === "2") return "medium";
+  if (value.includes("low") || value.includes("holiday") || value === "1") return "low";
+  return TITLE_IMPACT.find(([pattern]) => pattern.test(title))?.[1] ?? "low";
+}
+
+function parseCurrency(raw: string | undefined, title: string): string {
+  const code = (raw || "").trim().toUpperCase();
+  if (CURRENCY_CODES.includes(code)) return code;
+  return TITLE_CURRENCY.find(([pattern]) => pattern.test(title))?.[1] ?? (code || "ALL");
+}
+
+function parseDateTime(date: string, time: string | undefined): number {
+  const d = date.trim();
+  let year: number, month: number, day: number;
+
+  const iso = d.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  const us = d.match(/^(\d{1,2})[-/](\d{1,2})[-/](\d{4})/);
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (us) {
+    [year, month, day] = [Number(us[3]), Number(us[1]), Number(us[2])];
+  } else {
+    return Date.parse(d);
+  }
+
+  // Full ISO timestamps carry their own time
+  if (/T\d{2}:\d{2}/.test(d)) {
+    return Date.parse(d.endsWith("Z") || /[+-]\d{2}:?\d{2}$/.test(d) ? d : `${d}Z`);
+  }
+
+  let hours = 0;
+  let minutes = 0;
+  const t = (time || "").trim().toLowerCase().match(/^(\d{1,2}):(\d{2})\s*(am|pm)?$/);
+  if (t) {
+    hours = Number(t[1]) % (t[3] ? 12 : 24) + (t[3] === "pm" ? 12 : 0);
+    minutes = Number(t[2]);
+  }
+  // "All Day" and "Tentative" fall back to midnight
+
+  return Date.UTC(year, month - 1, day, hours, minutes);
+}
+
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let current = "";
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === "\"" && line[i + 1] === "\"") {
+        current += "\"";
+        i++;
+      } else if (ch === "\"") {
+        quoted = false;
+      } else {
+        current += ch;
+      }
+    } else if (ch === "\"") {
+      quoted = true;
+    } else if (ch === ",") {
+      fields.push(current);
+      current = "";
+    } else {
+      current += ch;
+    }
+  }
+  fields.push(current);
+
+  return fields.map(f => f.trim());
+}
+
+export function parseCalendarCsv(text: string): EconomicEvent[] {
+  const lines = text.split(/\r?\n/).filter(line => line.trim().length > 0);
+  if (lines.length < 2) return [];
+
+  const header = splitCsvLine(lines[0]).map(h => h.toLowerCase());
+  const column = (...names: string[]) => header.findIndex(h => names.includes(h));
+  const titleCol = column("title", "event", "name");
+  const currencyCol = column("currency", "country");
+  const dateCol = column("date", "datetime", "time (utc)");
+  const timeCol = column("time");
+  const impactCol = column("impact", "importance");
+
+  if (titleCol < 0 || dateCol < 0) {
+    throw new Error("Calendar CSV needs at least a title/event and a date column");
+  }
+
+  const events: EconomicEvent[] = [];
+  lines.slice(1).forEach((line, idx) => {
+    const fields = splitCsvLine(line);
+    const title = fields[titleCol];
+    const time = parseDateTime(fields[dateCol] || "", timeCol >= 0 && timeCol !== dateCol ? fields[timeCol] : undefined);
+    if (!title || !Number.isFinite(time)) return;
+
+    events.push({
+      id: `csv-${idx}`,
+      title,
+      currency: parseCurrency(currencyCol >= 0 ? fields[currencyCol] : undefined, title),
+      impact: parseImpact(impactCol >= 0 ? fields[impactCol] : undefined, title),
+      time,
+    });
+  });
+
+  return events;
+}
+
+function unescapeIcs(value: string): string {
+  return value.replace(/\\n/gi, " ").replace(/\\([,;\\])/g, "$1").trim();
+}
+
+function parseIcsDate(value: string, params: string): number {
+  const m = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?)?/);
+  if (!m) return NaN;
+  // Floating and TZID times are read as UTC; exports used for this are normally in UTC already
+  if (params.includes("VALUE=DATE") || !m[4]) {
+    return Date.UTC(Number(m[1]), Number(m[2]) - 1, Number(m[3]));
+  }
+  return Date.UTC(Number(m[1]), Number(m[2]) - 1, Number(m[3]), Number(m[4]), Number(m[5]), Number(m[6] || 0));
+}
+
+export function parseCalendarIcs(text: string): EconomicEvent[] {
+  // Lines starting with whitespace continue the previous one
+  const lines = text.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+  const events: EconomicEvent[] = [];
+  let current: Record<string, { params: string; value: string }> | null = null;
+
+  for (const line of lines) {
+    if (line === "BEGIN:VEVENT") {
+      current = {};
+      continue;
+    }
+    if (line === "END:VEVENT" && current) {
+      const title = current.SUMMARY ? unescapeIcs(current.SUMMARY.value) : "";
+      const time = current.DTSTART ? parseIcsDate(current.DTSTART.value, current.DTSTART.params) : NaN;
+
+      if (title && Number.isFinite(time)) {
+        const categories = current.CATEGORIES ? unescapeIcs(current.CATEGORIES.value).split(",").map(c => c.trim()) : [];
+        const categoryCurrency = categories.find(c => CURRENCY_CODES.includes(c.toUpperCase()));
+        const categoryImpact = categories.find(c => /high|medium|moderate|low/i.test(c));
+
+        events.push({
+          id: current.UID ? unescapeIcs(current.UID.value) : `ics-${events.length}`,
+          title,
+          currency: parseCurrency(current["X-CURRENCY"]?.value || categoryCurrency, title),
+          impact: parseImpact(current["X-IMPACT"]?.value || categoryImpact, title),
+          time,
+        });
+      }
+      current = null;
+      continue;
+    }
+    if (!current) continue;
+
+    const colon = line.indexOf(":");
+    if (colon < 0) continue;
+    const [name, ...params] = line.slice(0, colon).split(";");
+    current[name.toUpperCase()] = { params: params.join(";").toUpperCase(), value: line.slice(colon + 1) };
+  }
+
+  return events;
+}
+
+export async function loadEconomicCalendar(filePath: string): Promise<EconomicEvent[]> {
+  const raw = await readFile(filePath, "utf-8");
+  const events = /BEGIN:VCALENDAR/.test(raw) ? parseCalendarIcs(raw) : parseCalendarCsv(raw);
+  return events.sort((a, b) => a.time - b.time);
+}
+
+let cached: { path: string; mtimeMs: number; events: EconomicEvent[] } | null = null;
+
+/**
+ * Events from ECONOMIC_CALENDAR_FILE, or null when none is configured or it cannot be read.
+ */
+export async function getEconomicCalendar(): Promise<EconomicEvent[] | null> {
+  const filePath = process.env.ECONOMIC_CALENDAR_FILE;
+  if (!filePath) return null;
+
+  try {
+    const { mtimeMs } = await stat(filePath);
+    if (cached && cached.path === filePath && cached.mtimeMs === mtimeMs) {
+      return cached.events;
+    }
+
+    const events = await loadEconomicCalendar(filePath);
+    cached = { path: filePath, mtimeMs, events };
+    console.log(`[Calendar] Loaded ${events.length} events from ${filePath}`);
+    return events;
+  } catch (error) {
+    console.error(`[Calendar] Failed to load ${filePath}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Calendar events for the pair's currencies between now (less the buffer) and the end of the
+ * prediction window (plus the buffer).
+ */
+export async function assessEventRisk(pair: TradingPair, windowMs: number, now: number = Date.now()): Promise<EventRisk> {
+  const currencies = pairCurrencies(pair);
+  const bufferMs = EVENT_BUFFER_MINUTES * 60 * 1000;
+  const windowStart = now - bufferMs;
+  const windowEnd = now + windowMs + bufferMs;
+
+  const calendar = currencies.length > 0 ? await getEconomicCalendar() : null;
+  const events = (calendar ?? []).filter(e =>
+    e.time >= windowStart &&
+    e.time <= windowEnd &&
+    (currencies.includes(e.currency) || e.currency === "ALL")
+  );
+  const highImpact = events.filter(e => e.impact === "high");
+
+  return {
+    calendarLoaded: calendar !== null,
+    currencies,
+    windowStart,
+    windowEnd,
+    events,
+    highImpact,
+    forceNeutral: FORCE_NEUTRAL && highImpact.length > 0,
+  };
+}
+
+// "USD CPI in 45m" / "USD CPI 10m ago"
+export function describeEvent(event: EconomicEvent, now: number = Date.now()): string {
+  const minutes = Math.round((event.time - now) / 60000);
+  const offset = Math.abs(minutes) >= 120 ? `${Math.round(Math.abs(minutes) / 60)}h` : `${Math.abs(minutes)}m`;
+  return `${event.currency} ${event.title} ${minutes >= 0 ? `in ${offset}` : `${offset} ago`}`;
+}
@@ -0,0 +1,84 @@
+import { randomBytes } from "crypto";
+import { type InsertLedgerEntry, type LedgerCurrency, type LedgerEntryType } from "@shared/schema";
+
+/**
+ * Ledger account names. User credit wallets and admin commission balances are the accounts
+ * people care about; the system accounts are their counterparties, so each entry balances.
+ *
+ * An account's balance is what was credited to it minus what was debited from it.
+ */
+
+export const SYSTEM_ACCOUNTS = {
+  // Source of every credit handed to users
+  creditIssuance: "system:credit_issuance",
+  // Credits consumed by predictions
+  creditUsage: "system:credit_usage",
+  // Commission owed to admins on customer payments
+  commissionExpense: "system:commission_expense",
+  // Money paid out to admins
+  payouts: "system:payouts",
+  // Manual corrections and opening balances, one account per currency
+  creditAdjustments: "system:credit_adjustments",
+  adjustments: "system:adjustments",
+} as const;
+
+export const userCreditAccount = (userId: string) => `user:${userId}:credits`;
+export const adminCommissionAccount = (adminUserId: string) => `admin:${adminUserId}:commissions`;
+
+// Credit accounts are user wallets and the system:credit_* counterparties; everything else is money
+export function accountCurrency(account: string): LedgerCurrency {
+  return account.startsWith("user:") || account.startsWith("system:credit_") ? "credits" : "usd_cents";
+}
+
+function counterAccount(type: LedgerEntryType, currency: LedgerCurrency): string {
+  switch (type) {
+    case "grant":
+      return SYSTEM_ACCOUNTS.creditIssuance;
+    case "spend":
+      return SYSTEM_ACCOUNTS.creditUsage;
+    case "refund":
+      // Refunded credits go back to the wallet; refunded payments claw back commission
+      return currency === "credits" ? SYSTEM_ACCOUNTS.creditUsage : SYSTEM_ACCOUNTS.commissionExpense;
+    case "commission":
+      return SYSTEM_ACCOUNTS.commissionExpense;
+    case "withdrawal":
+      return SYSTEM_ACCOUNTS.payouts;
+    case "adjustment":
+      return currency === "credits" ? SYSTEM_ACCOUNTS.creditAdjustments : SYSTEM_ACCOUNTS.adjustments;
+  }
+}
+
+/**
+ * Build an entry that changes `account` by `delta` (positive adds to the balance, negative
+ * takes from it) against the counterparty for the entry type. Returns null for a zero delta.
+ */
+export function buildLedgerEntry(
+  id: string,
+  type: LedgerEntryType,
+  account: string,
+  delta: number,
+  reference: string | null = null,
+  memo: string | null = null,
+): InsertLedgerEntry | null {
+  if (delta === 0) {
+    return null;
+  }
+
+  const currency = accountCurrency(account);
+  const counterparty = counterAccount(type, currency);
+
+  return {
+    id,
+    type,
+    currency,
+    debitAccount: delta > 0 ? counterparty : account,
+    creditAccount: delta > 0 ? account : counterparty,
+    amount: Math.abs(delta),
+    reference,
+    memo,
+  };
+}
+
+export function newLedgerEntryId(type: LedgerEntryType): string {
+  return `ledger_${type}_${Date.now()}_${randomBytes(4).toString("hex")}`;
+}
@@ -0,0 +1,106 @@
+import { type LedgerCurrency } from "@shared/schema";
+import { storage } from "../../storage";
+import { accountCurrency, adminCommissionAccount, buildLedgerEntry, userCreditAccount } from "./accounts";
+
+export interface LedgerMismatch {
+  account: string;
+  // Balance held on the user or admin record
+  recorded: number;
+  // Balance computed from ledger entries
+  ledger: number;
+}
+
+export interface LedgerIntegrityReport {
+  ok: boolean;
+  checkedAt: Date;
+  accountsChecked: number;
+  mismatches: LedgerMismatch[];
+  // Sum of every account per currency; anything but zero means a one-sided entry
+  currencyTotals: Record<LedgerCurrency, number>;
+}
+
+async function recordedBalances(ledgerBalances: Record<string, number>): Promise<Map<string, number>> {
+  const recorded = new Map<string, number>();
+
+  for (const user of await storage.getAllUserCredits()) {
+    recorded.set(userCreditAccount(user.userId), user.credits);
+  }
+
+  // Admins removed since earning commission still have a balance worth checking
+  const adminUserIds = new Set((await storage.getAllAdmins()).map(a => a.userId));
+  for (const account of Object.keys(ledgerBalances)) {
+    const match = account.match(/^admin:(.+):commissions$/);
+    if (match) adminUserIds.add(match[1]);
+  }
+  for (const adminUserId of Array.from(adminUserIds)) {
+    const balance = await storage.getAdminBalance(adminUserId);
+    recorded.set(adminCommissionAccount(adminUserId), balance.balance);
+  }
+
+  return recorded;
+}
+
+/**
+ * Compare every user credit wallet and admin commission balance with the balance computed from
+ * the ledger, and check that each currency nets to zero across all accounts.
+ */
+export async function verifyLedgerIntegrity(): Promise<LedgerIntegrityReport> {
+  const ledgerBalances = await storage.getLedgerBalances();
+  const recorded = await recordedBalances(ledgerBalances);
+
+  const accounts = new Set([
+    ...Array.from(recorded.keys()),
+    ...Object.keys(ledgerBalances).filter(a => !a.startsWith("system:")),
+  ]);
+
+  const mismatches: LedgerMismatch[] = [];
+  for (const account of Array.from(accounts)) {
+    const expected = recorded.get(account) ?? 0;
+    const ledger = ledgerBalances[account] ?? 0;
+    if (expected !== ledger) {
+      mismatches.push({ account, recorded: expected, ledger });
+    }
+  }
+
+  const currencyTotals: Record<LedgerCurrency, number> = { credits: 0, usd_cents: 0 };
+  for (const [account, balance] of Object.entries(ledgerBalances)) {
+    currencyTotals[accountCurrency(account)] += balance;
+  }
+
+  return {
+    ok: mismatches.length === 0 && Object.values(currencyTotals).every(total => total === 0),
+    checkedAt: new Date(),
+    accountsChecked: accounts.size,
+    mismatches,
+    currencyTotals,
+  };
+}
+
+/**
+ * Balances that predate the ledger get a single opening adjustment so later entries reconcile.
+ * Only accounts with no entries at all are opened; the entry id makes this safe to re-run.
+ */
+export async function openLedgerBalances(): Promise<number> {
+  const ledgerBalances = await storage.getLedgerBalances();
+  const recorded = await recordedBalances(ledgerBalances);
+  let opened = 0;
+
+  for (const [account, balance] of Array.from(recorded.entries())) {
+    if (account in ledgerBalances || balance === 0) continue;
+
+    await storage.appendLedgerEntry(buildLedgerEntry(
+      `ledger_opening_${account}`,
+      "adjustment",
+      account,
+      balance,
+      null,
+      "Opening balance",
+    ));
+    opened++;
+  }
+
+  if (opened > 0) {
+    console.log(`[Ledger] Opened ${opened} account(s) with their existing balances`);
+  }
+  return opened;
+}
@@ -0,0 +1,132 @@
+import { timeframeToMinutes, type MarketData } from "./provider";
+
+/**
+ * In-process candle cache keyed by pair + timeframe.
+ *
+ * Every analysis fetches the entry timeframe and its anchor timeframe, so concurrent users
+ * on the same pair would otherwise send identical upstream requests. Entries expire after a
+ * fraction of the candle length, and concurrent misses for the same key share one request.
+ */
+
+const MIN_TTL_MS = 15 * 1000;
+const MAX_TTL_MS = 5 * 60 * 1000;
+
+interface CacheEntry {
+  data: MarketData;
+  fetchedAt: number;
+  expiresAt: number;
+}
+
+export interface CandleCacheStats {
+  hits: number;
+  misses: number;
+  coalesced: number;
+  failures: number;
+  hitRate: number;
+  entries: Array<{ key: string; ageMs: number; ttlMs: number; candles: number }>;
+  since: string;
+}
+
+const cache = new Map<string, CacheEntry>();
+const inFlight = new Map<string, Promise<MarketData | null>>();
+
+let hits = 0;
+let misses = 0;
+let coalesced = 0;
+let failures = 0;
+const statsSince = new Date();
+
+// A quarter of the candle length, clamped: M1 -> 15s, M5 -> 75s, M15 -> ~4min, H1+ -> 5min
+export function getCandleCacheTtlMs(timeframe: string): number {
+  const candleMs = timeframeToMinutes(timeframe) * 60 * 1000;
+  return Math.min(MAX_TTL_MS, Math.max(MIN_TTL_MS, candleMs / 4));
+}
+
+// Callers get their own candle array so nobody can reorder or trim the shared copy
+function cloneMarketData(data: MarketData): MarketData {
+  return { ...data, candles: data.candles.slice() };
+}
+
+/**
+ * Return cached market data or run the loader once for all concurrent callers.
+ * A loader result of null (every provider failed) is passed through but never cached.
+ */
+export async function getCachedMarketData(
+  pair: string,
+  timeframe: string,
+  loader: () => Promise<MarketData | null>
+): Promise<MarketData | null> {
+  const key = `${pair}|${timeframe}`;
+  const now = Date.now();
+
+  const entry = cache.get(key);
+  if (entry && entry.expiresAt > now) {
+    hits++;
+    return cloneMarketData(entry.data);
+  }
+  if (entry) {
+    cache.delete(key);
+  }
+
+  const pending = inFlight.get(key);
+  if (pending) {
+    coalesced++;
+    const data = await pending;
+    return data ? cloneMarketData(data) : null;
+  }
+
+  misses++;
+
+  const request = loader()
+    .then(data => {
+      if (data) {
+        const fetchedAt = Date.now();
+        cache.set(key, { data, fetchedAt, expiresAt: fetchedAt + getCandleCacheTtlMs(timeframe) });
+      } else {
+        failures++;
+      }
+      return data;
+    })
+    .catch(error => {
+      failures++;
+      throw error;
+    })
+    .finally(() => {
+      inFlight.delete(key);
+    });
+
+  inFlight.set(key, request);
+
+  const data = await request;
+  return data ? cloneMarketData(data) : null;
+}
+
+export function getCandleCacheStats(): CandleCacheStats {
+  const now = Date.now();
+  const entries: CandleCacheStats["entries"] = [];
+
+  for (const [key, entry] of Array.from(cache.entries())) {
+    if (entry.expiresAt <= now) {
+      cache.delete(key);
+      continue;
+    }
+    entries.push({
+      key,
+      ageMs: now - entry.fetchedAt,
+      ttlMs: entry.expiresAt - entry.fetchedAt,
+      candles: entry.data.candles.length,
+    });
+  }
+
+  const served = hits + coalesced + misses;
+
+  return {
+    hits,
+    misses,
+    coalesced,
+    failures,
+    hitRate: served > 0 ? Math.round(((hits + coalesced) / served) * 1000) / 10 : 0,
+    entries: entries.sort((a, b) => a.key.localeCompare(b.key)),
+    since: statsSince.toISOString(),
+  };
+}
@@ -0,0 +1,55 @@
+import { marketDataProviderIds, type PairCategory, type TradingPair } from "@shared/schema";
+import { type MarketDataProvider, type MarketDataProviderId } from "./provider";
+import { CryptoCompareProvider } from "./cryptocompare-provider";
+import { YahooProvider } from "./yahoo-provider";
+import { FixtureProvider } from "./fixture-provider";
+import { getPairConfig } from "../pair-catalog";
+
+/**
+ * Provider order per pair category, unless the pair's catalog entry sets its own. The first provider
+ * that supports the pair and returns data wins; failures fall through to the next entry.
+ */
+const DEFAULT_PROVIDER_ORDER: MarketDataProviderId[] = ["cryptocompare"];
+
+const CATEGORY_PROVIDER_ORDER: Partial<Record<PairCategory, MarketDataProviderId[]>> = {
+  indices: ["yahoo", "cryptocompare"],
+};
+
+// MARKET_DATA_PROVIDERS=fixture,cryptocompare overrides the order for every pair
+// MARKET_DATA_FIXTURE=path/to/candles.json enables the fixture provider
+const envProviderOrder = (process.env.MARKET_DATA_PROVIDERS || "")
+  .split(",")
+  .map(id => id.trim())
+  .filter((id): id is MarketDataProviderId => (marketDataProviderIds as readonly string[]).includes(id));
+
+const providers = new Map<MarketDataProviderId, MarketDataProvider>();
+providers.set("cryptocompare", new CryptoCompareProvider());
+providers.set("yahoo", new YahooProvider());
+
+if (process.env.MARKET_DATA_FIXTURE) {
+  providers.set("fixture", new FixtureProvider(process.env.MARKET_DATA_FIXTURE));
+  console.log(`[MarketData] Fixture provider enabled (${process.env.MARKET_DATA_FIXTURE})`);
+} else if (envProviderOrder.includes("fixture")) {
+  console.warn("[MarketData] MARKET_DATA_PROVIDERS includes fixture but MARKET_DATA_FIXTURE is not set");
+}
+
+function providerOrderFor(pair: TradingPair): MarketDataProviderId[] {
+  if (envProviderOrder.length > 0) {
+    return envProviderOrder;
+  }
+
+  const config = getPairConfig(pair);
+  if (config && config.providerOrder.length > 0) {
+    return config.providerOrder;
+  }
+
+  return CATEGORY_PROVIDER_ORDER[config?.category ?? "crypto"] || DEFAULT_PROVIDER_ORDER;
+}
+
+export function getProvidersForPair(pair: TradingPair): MarketDataProvider[] {
+  const order = providerOrderFor(pair);
+
+  return order
+    .map(id => providers.get(id))
+    .filter((p): p is MarketDataProvider => p !== undefined && p.supports(pair));
+}
@@ -0,0 +1,183 @@
+import { type TradingPair } from "@shared/schema";
+import {
+  calculateVolumeChange,
+  generateSyntheticCandles,
+  timeframeToMinutes,
+  type Candle,
+  type MarketData,
+  type MarketDataProvider,
+} from "./provider";
+import { getPairConfig } from "../pair-catalog";
+
+export const CRYPTOCOMPARE_API_BASE = "https://min-api.cryptocompare.com/data";
+
+// CryptoCompare symbols come from the pair catalog
+export const pairToCryptoCompareSymbols = (pair: TradingPair): { from: string; to: string } => {
+  const symbols = getPairConfig(pair)?.providerSymbols.cryptocompare;
+  if (symbols) {
+    return symbols;
+  }
+
+  throw new Error(`Trading pair ${pair} is not supported`);
+};
+
+export const cryptoCompareHeaders: HeadersInit = {
+  'Accept': 'application/json',
+  ...(process.env.CRYPTOCOMPARE_API_KEY ? { 'Authorization': `Apikey ${process.env.CRYPTOCOMPARE_API_KEY}` } : {}),
+};
+
+const getHistoEndpoint = (timeframe: string): { endpoint: string; aggregate: number; limit: number } => {
+  // Use histominute for short timeframes with standard aggregates
+  if (["M1", "M3", "M5", "M15", "M30", "M45"].includes(timeframe)) {
+    const minutes = timeframeToMinutes(timeframe);
+    return { endpoint: "histominute", aggregate: minutes, limit: 300 };
+  }
+
+  // Use histohour for hour-based timeframes (within API limits)
+  // Note: limit * aggregate must be <= 2000 to avoid API reduction
+  if (["H1", "H2", "H3", "H4"].includes(timeframe)) {
+    const hours = timeframeToMinutes(timeframe) / 60;
+    return { endpoint: "histohour", aggregate: hours, limit: 300 };
+  }
+
+  // For daily timeframe, use histoday endpoint with daily aggregation
+  // This gives us proper daily candles instead of aggregated hourly data
+  if (["D1"].includes(timeframe)) {
+    return { endpoint: "histoday", aggregate: 1, limit: 300 };
+  }
+
+  // For weekly, use histoday with 7-day aggregate for true weekly bars
+  // Using histoday with aggregate 7 gives us weekly candles within API limits
+  if (["W1"].includes(timeframe)) {
+    return { endpoint: "histoday", aggregate: 7, limit: 300 };
+  }
+
+  // Default to histominute with 1 minute
+  return { endpoint: "histominute", aggregate: 1, limit: 300 };
+};
+
+export class CryptoCompareProvider implements MarketDataProvider {
+  readonly id = "cryptocompare" as const;
+
+  supports(pair: TradingPair): boolean {
+    return getPairConfig(pair)?.providerSymbols.cryptocompare !== undefined;
+  }
+
+  async fetchMarketData(pair: TradingPair, timeframe: string): Promise<MarketData> {
+    const { from, to } = pairToCryptoCompareSymbols(pair);
+    console.log(`[CryptoCompare API] Fetching market data for ${pair} (${from}/${to})`);
+
+    // Fetch current price
+    let currentPrice = 0;
+    try {
+      const priceResponse = await fetch(
+        `${CRYPTOCOMPARE_API_BASE}/price?fsym=${from}&tsyms=${to}`,
+        { headers: cryptoCompareHeaders }
+      );
+
+      if (priceResponse.ok) {
+        const priceData = await priceResponse.json();
+        currentPrice = priceData[to] || 0;
+      } else {
+        console.warn(`[CryptoCompare API] Price fetch status ${priceResponse.status} for ${pair}`);
+      }
+    } catch (error) {
+      console.error(`[CryptoCompare API] Price fetch error for ${pair}:`, error);
+    }
+
+    // Fetch historical data based on timeframe
+    const { endpoint, aggregate, limit } = getHistoEndpoint(timeframe);
+    const histoResponse = await fetch(
+      `${CRYPTOCOMPARE_API_BASE}/v2/${endpoint}?fsym=${from}&tsym=${to}&limit=${limit}&aggregate=${aggregate}`,
+      { headers: cryptoCompareHeaders }
+    );
+
+    if (!histoResponse.ok) {
+      throw new Error(`[CryptoCompare API] History error - Status: ${histoResponse.status}`);
+    }
+
+    const histoData = await histoResponse.json();
+
+    if (histoData.Response === "Error") {
+      throw new Error(`[CryptoCompare API] History error: ${histoData.Message}`);
+    }
+
+    const histoPoints = histoData.Data?.Data || [];
+
+    // Convert to candles - always use volumeto for consistency
+    const candles: Candle[] = histoPoints.map((point: any) => ({
+      timestamp: point.time * 1000, // Convert to milliseconds
+      open: point.open,
+      high: point.high,
+      low: point.low,
+      close: point.close,
+      volume: point.volumeto || 0,
+    }));
+
+    if (candles.length === 0) {
+      throw new Error(`[CryptoCompare API] No candles returned for ${pair}`);
+    }
+
+    if (!currentPrice) {
+      currentPrice = candles[candles.length - 1].close;
+      console.log(`[CryptoCompare API] Using last close as price for ${pair}`);
+    }
+
+    // Fetch 24h stats
+    let priceChange24h = 0;
+    try {
+      const dayStatsResponse = await fetch(
+        `${CRYPTOCOMPARE_API_BASE}/generateAvg?fsym=${from}&tsym=${to}&e=CCCAGG`,
+        { headers: cryptoCompareHeaders }
+      );
+
+      if (dayStatsResponse.ok) {
+        const dayStatsData = await dayStatsResponse.json();
+        if (dayStatsData.RAW && dayStatsData.RAW.CHANGE24HOUR) {
+          const change = dayStatsData.RAW.CHANGE24HOUR;
+          priceChange24h = (change / currentPrice) * 100;
+        }
+      }
+    } catch (error) {
+      console.warn(`[CryptoCompare API] 24h stats error for ${pair}:`, error);
+    }
+
+    // If we don't have enough candles, fill with synthetic data
+    if (candles.length < 300) {
+      const syntheticCandles = generateSyntheticCandles(currentPrice, timeframe, 300 - candles.length, candles[0].timestamp);
+      candles.unshift(...syntheticCandles);
+    }
+
+    const volumeChange24h = calculateVolumeChange(candles);
+
+    console.log(`[CryptoCompare API] Successfully fetched data for ${pair}: $${currentPrice.toFixed(2)}, 24h: ${priceChange24h.toFixed(2)}%`);
+
+    return {
+      currentPrice,
+      candles,
+      priceChange24h,
+      volumeChange24h,
+    };
+  }
+
+  async getCurrentPrice(pair: TradingPair): Promise<number> {
+    const { from, to } = pairToCryptoCompareSymbols(pair);
+
+    const response = await fetch(
+      `${CRYPTOCOMPARE_API_BASE}/price?fsym=${from}&tsyms=${to}`,
+      { headers: cryptoCompareHeaders }
+    );
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch price for ${pair}: Status ${response.status}`);
+    }
+
+    const data = await response.json();
+
+    if (!data[to]) {
+      throw new Error(`Price data not available for ${pair}`);
+    }
+
+    return data[to];
+  }
+}
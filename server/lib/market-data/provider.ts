@@ -0,0 +1,88 @@
+import { type marketDataProviderIds, type TradingPair } from "@shared/schema";
+import { type CandleGap } from "../trading-sessions";
+
+export interface Candle {
+  timestamp: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export interface MarketData {
+  currentPrice: number;
+  candles: Candle[];
+  priceChange24h: number;
+  volumeChange24h: number;
+  // Which provider served the candles ("synthetic" when every provider failed)
+  source?: MarketDataProviderId | "synthetic";
+  // Holes in the candle series, marked as expected (market closed) or missing data
+  gaps?: CandleGap[];
+}
+
+export type MarketDataProviderId = typeof marketDataProviderIds[number];
+
+/**
+ * A source of candles and spot prices. Providers throw when they cannot serve a pair
+ * so the caller can fail over to the next provider configured for that pair.
+ */
+export interface MarketDataProvider {
+  readonly id: MarketDataProviderId;
+  supports(pair: TradingPair): boolean;
+  fetchMarketData(pair: TradingPair, timeframe: string): Promise<MarketData>;
+  getCurrentPrice(pair: TradingPair): Promise<number>;
+}
+
+export const timeframeToMinutes = (timeframe: string): number => {
+  const mapping: Record<string, number> = {
+    "M1": 1,
+    "M3": 3,
+    "M5": 5,
+    "M15": 15,
+    "M30": 30,
+    "M45": 45,
+    "H1": 60,
+    "H2": 120,
+    "H3": 180,
+    "H4": 240,
+    "D1": 1440,
+    "W1": 10080,
+  };
+  return mapping[timeframe] || 5;
+};
+
+/**
+ * Generate flat synthetic candles around a price, ending just before endTimestamp.
+ * Used to pad short histories and as the last-resort fallback when every provider fails.
+ */
+export function generateSyntheticCandles(
+  currentPrice: number,
+  timeframe: string,
+  count: number,
+  endTimestamp: number = Date.now()
+): Candle[] {
+  const intervalMs = timeframeToMinutes(timeframe) * 60 * 1000;
+
+  return Array.from({ length: count }, (_, i) => {
+    const timestamp = endTimestamp - (count - i) * intervalMs;
+    const priceVariation = 1 + (Math.random() - 0.5) * 0.01;
+    const price = currentPrice * priceVariation;
+    return {
+      timestamp,
+      open: price,
+      high: price * 1.001,
+      low: price * 0.999,
+      close: price,
+      volume: 1000,
+    };
+  });
+}
+
+export function calculateVolumeChange(candles: Candle[]): number {
+  if (candles.length === 0) return 0;
+  const avgVolume = candles.reduce((sum, c) => sum + c.volume, 0) / candles.length;
+  const recent = candles.slice(-10);
+  const recentVolume = recent.reduce((sum, c) => sum + c.volume, 0) / recent.length;
+  return avgVolume > 0 ? ((recentVolume / avgVolume - 1) * 100) : 0;
+}
@@ -0,0 +1,115 @@
+import https from 'https';
+import { type TradingPair } from "@shared/schema";
+import { type Candle, type MarketData, type MarketDataProvider } from "./provider";
+import { getPairConfig } from "../pair-catalog";
+
+// Yahoo Finance tickers (futures for indices/metals, spot FX crosses) come from the pair catalog
+const yahooSymbol = (pair: TradingPair): string | undefined => getPairConfig(pair)?.providerSymbols.yahoo;
+
+const YAHOO_INTERVALS: Record<string, string> = {
+  "M1": "1m", "M3": "2m", "M5": "5m", "M15": "15m", "M30": "30m",
+  "H1": "1h", "H2": "1h", "H4": "1h", "D1": "1d", "W1": "1wk"
+};
+
+const YAHOO_RANGES: Record<string, string> = {
+  "M1": "1d", "M5": "1d", "M15": "5d", "H1": "1mo", "D1": "1y", "W1": "5y"
+};
+
+async function fetchFromYahoo(symbol: string, interval: string, range: string): Promise<any> {
+  const url = `https://query1.finance.yahoo.com/v8/finance/chart/${symbol}?interval=${interval}&range=${range}`;
+  console.log(`[Yahoo API] Fetching: ${url}`);
+
+  return new Promise((resolve, reject) => {
+    const options = {
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36'
+      }
+    };
+
+    https.get(url, options, (res) => {
+      let data = '';
+      res.on('data', chunk => data += chunk);
+      res.on('end', () => {
+        try {
+          if (res.statusCode !== 200) {
+            reject(new Error(`Yahoo API error ${res.statusCode}: ${data.substring(0, 100)}`));
+            return;
+          }
+          resolve(JSON.parse(data));
+        } catch (e) {
+          reject(new Error(`Failed to parse Yahoo data for ${symbol}`));
+        }
+      });
+      res.on('error', reject);
+    }).on('error', reject);
+  });
+}
+
+const convertYahooCandles = (result: any): Candle[] => {
+  const indicators = result.indicators.quote[0];
+  const timestamps = result.timestamp;
+  if (!timestamps || !indicators) return [];
+
+  return timestamps.map((t: number, i: number) => ({
+    timestamp: t * 1000,
+    open: indicators.open[i] || indicators.close[i] || 0,
+    high: indicators.high[i] || indicators.close[i] || 0,
+    low: indicators.low[i] || indicators.close[i] || 0,
+    close: indicators.close[i] || indicators.open[i] || 0,
+    volume: indicators.volume[i] || 0,
+  })).filter((c: Candle) => c.open !== 0);
+};
+
+export class YahooProvider implements MarketDataProvider {
+  readonly id = "yahoo" as const;
+
+  supports(pair: TradingPair): boolean {
+    return yahooSymbol(pair) !== undefined;
+  }
+
+  async fetchMarketData(pair: TradingPair, timeframe: string): Promise<MarketData> {
+    const symbol = yahooSymbol(pair);
+    if (!symbol) {
+      throw new Error(`[Yahoo API] No symbol configured for ${pair}`);
+    }
+
+    const interval = YAHOO_INTERVALS[timeframe] || "15m";
+    const range = YAHOO_RANGES[timeframe] || "5d";
+
+    const data = await fetchFromYahoo(symbol, interval, range);
+    const result = data?.chart?.result?.[0];
+
+    if (!result) {
+      throw new Error(`[Yahoo API] Empty chart result for ${pair}`);
+    }
+
+    const currentPrice = result.meta.regularMarketPrice;
+    const previousClose = result.meta.previousClose || currentPrice;
+    const priceChange24h = ((currentPrice - previousClose) / previousClose) * 100;
+    const candles = convertYahooCandles(result);
+
+    console.log(`[Yahoo API] Successfully fetched ${pair}: $${currentPrice}`);
+
+    return {
+      currentPrice,
+      candles,
+      priceChange24h,
+      volumeChange24h: 0,
+    };
+  }
+
+  async getCurrentPrice(pair: TradingPair): Promise<number> {
+    const symbol = yahooSymbol(pair);
+    if (!symbol) {
+      throw new Error(`[Yahoo API] No symbol configured for ${pair}`);
+    }
+
+    const data = await fetchFromYahoo(symbol, '1m', '1d');
+    const result = data.chart.result?.[0];
+    if (!result) {
+      throw new Error(`[Yahoo API] Price data not available for ${pair}`);
+    }
+
+    return result.meta.regularMarketPrice;
+  }
+}
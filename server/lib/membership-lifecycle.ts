@@ -0,0 +1,186 @@
+import { membershipStatuses, type MembershipStatus, type StoredMember } from "@shared/schema";
+import { storage } from "../storage";
+import type { WebhookOutcome } from "./webhook-events";
+
+/**
+ * Membership lifecycle webhooks: access starting and ending, failed renewals, refunds and
+ * disputes. Each keeps the StoredMember status and the customer's unlimited access in line with
+ * Whop, and refunds (or lost disputes) claw back the admin commission earned on the payment.
+ *
+ * Whop has used both naming schemes below over time, so each action accepts either. Every
+ * handler is safe to replay: access changes are plain sets and commissions are only clawed back
+ * once per payment.
+ */
+
+const WENT_VALID_EVENTS = ["membership.went_valid", "membership.activated"];
+const WENT_INVALID_EVENTS = ["membership.went_invalid", "membership.deactivated"];
+const PAYMENT_FAILED_EVENTS = ["payment.failed"];
+const REFUND_EVENTS = ["payment.refunded", "refund.created"];
+const DISPUTE_EVENTS = ["dispute.created", "dispute.updated"];
+
+const LIFECYCLE_EVENTS = [
+  ...WENT_VALID_EVENTS,
+  ...WENT_INVALID_EVENTS,
+  ...PAYMENT_FAILED_EVENTS,
+  ...REFUND_EVENTS,
+  ...DISPUTE_EVENTS,
+];
+
+const VALID_STATUSES: MembershipStatus[] = ["trialing", "active", "completed"];
+
+export function isLifecycleEvent(eventType: string | null | undefined): eventType is string {
+  return !!eventType && LIFECYCLE_EVENTS.includes(eventType);
+}
+
+function knownStatus(status: unknown): MembershipStatus | null {
+  return membershipStatuses.includes(status as MembershipStatus) ? status as MembershipStatus : null;
+}
+
+function userIdOf(data: any): string | null {
+  return data?.user?.id || data?.user_id || null;
+}
+
+// Refund objects reference their payment; payment objects are the payment
+function paymentIdOf(eventType: string, data: any): string | null {
+  if (eventType === "payment.refunded") return data?.id || null;
+  return data?.payment?.id || data?.payment_id || null;
+}
+
+async function findMember(membershipId: string | null, userId: string | null): Promise<StoredMember | null> {
+  if (membershipId) {
+    const member = await storage.getStoredMemberByMembershipId(membershipId);
+    if (member) return member;
+  }
+  return userId ? storage.getStoredMemberByUserId(userId) : null;
+}
+
+async function handleWentValid(membership: any): Promise<WebhookOutcome> {
+  const userId = userIdOf(membership);
+  if (!userId) {
+    return { status: "ignored", reason: "Membership has no user ID" };
+  }
+
+  await storage.grantUnlimitedAccess(userId);
+
+  const member = await findMember(membership.id || null, userId);
+  if (member) {
+    const status = knownStatus(membership.status);
+    await storage.updateStoredMemberStatus(member.membershipId, status && VALID_STATUSES.includes(status) ? status : "active");
+  }
+
+  console.log(`[Webhook] Membership valid - access granted to ${userId}${member ? "" : " (no stored member)"}`);
+  return { status: "processed", reason: "Access granted" };
+}
+
+async function handleWentInvalid(membership: any): Promise<WebhookOutcome> {
+  const userId = userIdOf(membership);
+  if (!userId) {
+    return { status: "ignored", reason: "Membership has no user ID" };
+  }
+
+  await storage.revokeUnlimitedAccess(userId);
+
+  const member = await findMember(membership.id || null, userId);
+  if (member) {
+    const reported = knownStatus(membership.status);
+    const status = reported && !VALID_STATUSES.includes(reported) ? reported : "expired";
+    await storage.updateStoredMemberStatus(
+      member.membershipId,
+      status,
+      status === "canceled" ? new Date() : undefined,
+      membership.cancellation_reason || membership.cancel_option || undefined,
+    );
+  }
+
+  console.log(`[Webhook] Membership invalid - access revoked for ${userId}`);
+  return { status: "processed", reason: "Access revoked" };
+}
+
+// Whop retries the charge and sends went_invalid if it never succeeds, so access stays for now
+async function handlePaymentFailed(payment: any): Promise<WebhookOutcome> {
+  const member = await findMember(payment.membership_id || payment.membership?.id || null, userIdOf(payment));
+  if (!member) {
+    return { status: "ignored", reason: "No stored member for failed payment" };
+  }
+
+  await storage.updateStoredMemberStatus(member.membershipId, "past_due");
+  console.log(`[Webhook] Payment ${payment.id} failed - member ${member.membershipId} marked past_due`);
+  return { status: "processed", reason: "Member marked past_due" };
+}
+
+/**
+ * Refunded or charged-back payment: claw back every commission recorded for it, revoke the
+ * customer's access and mark the member canceled.
+ */
+async function reversePayment(paymentId: string, data: any, reason: string): Promise<WebhookOutcome> {
+  const refunded = await storage.refundCommissionPayments(paymentId, reason);
+  for (const commission of refunded) {
+    console.log(`[Webhook] Clawed back $${commission.commissionAmount / 100} from admin ${commission.adminUserId} (${reason})`);
+  }
+
+  const userId = userIdOf(data) || userIdOf(data?.payment) || refunded[0]?.customerUserId || null;
+  if (userId) {
+    await storage.revokeUnlimitedAccess(userId);
+  }
+
+  const member = await findMember(data?.membership_id || data?.payment?.membership_id || null, userId);
+  if (member) {
+    await storage.updateStoredMemberStatus(member.membershipId, "canceled", new Date(), reason);
+  }
+
+  return {
+    status: "processed",
+    reason: `${reason} - ${refunded.length} commission(s) clawed back${userId ? ", access revoked" : ""}`,
+  };
+}
+
+async function handleRefund(eventType: string, data: any): Promise<WebhookOutcome> {
+  const paymentId = paymentIdOf(eventType, data);
+  if (!paymentId) {
+    return { status: "ignored", reason: "Refund has no payment ID" };
+  }
+
+  return reversePayment(paymentId, data, "Payment refunded");
+}
+
+/**
+ * Open disputes suspend access and mark the member unresolved. The commission is only clawed back
+ * once the dispute is lost; a won dispute restores access.
+ */
+async function handleDispute(eventType: string, dispute: any): Promise<WebhookOutcome> {
+  const paymentId = paymentIdOf(eventType, dispute);
+  if (!paymentId) {
+    return { status: "ignored", reason: "Dispute has no payment ID" };
+  }
+
+  if (dispute.status === "lost") {
+    return reversePayment(paymentId, dispute, "Dispute lost");
+  }
+
+  const userId = userIdOf(dispute) || userIdOf(dispute.payment);
+  const member = await findMember(dispute.payment?.membership_id || null, userId);
+
+  if (dispute.status === "won") {
+    if (userId) await storage.grantUnlimitedAccess(userId);
+    if (member) await storage.updateStoredMemberStatus(member.membershipId, "active");
+    console.log(`[Webhook] Dispute on ${paymentId} won - access restored`);
+    return { status: "processed", reason: "Dispute won - access restored" };
+  }
+
+  if (userId) await storage.revokeUnlimitedAccess(userId);
+  if (member) await storage.updateStoredMemberStatus(member.membershipId, "unresolved");
+  console.log(`[Webhook] Dispute on ${paymentId} ${dispute.status || "opened"} - access suspended`);
+  return { status: "processed", reason: "Dispute open - access suspended" };
+}
+
+export async function processLifecycleEvent(eventType: string, data: any): Promise<WebhookOutcome> {
+  if (!data) {
+    return { status: "ignored", reason: `Test webhook without ${eventType.split(".")[0]} data` };
+  }
+
+  if (WENT_VALID_EVENTS.includes(eventType)) return handleWentValid(data);
+  if (WENT_INVALID_EVENTS.includes(eventType)) return handleWentInvalid(data);
+  if (PAYMENT_FAILED_EVENTS.includes(eventType)) return handlePaymentFailed(data);
+  if (REFUND_EVENTS.includes(eventType)) return handleRefund(eventType, data);
+  return handleDispute(eventType, data);
+}
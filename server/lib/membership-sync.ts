@@ -1,8 +1,10 @@
 import { whopSdk, isWhopEnabled } from "./whop-sdk";
 import { storage } from "../storage";
 import { InsertStoredMember, MembershipStatus } from "@shared/schema";
+import { quoteCommission } from "./commission-rules";
 
-const DEFAULT_COMMISSION_AMOUNT = 500; // $5.00 (50% of $10)
+// Commission rules are applied to this price; the default 50% rule pays $5.00
+const MEMBERSHIP_PRICE_CENTS = 1000; // $10.00
 
 interface MembershipSyncResult {
   synced: number;
@@ -47,8 +49,7 @@ function extractProfilePictureUrl(profilePicture: any): string | null {
  */
 export async function syncMembershipsForCompany(
   adminCompanyId: string,
-  adminUserId: string,
-  commissionAmount: number = DEFAULT_COMMISSION_AMOUNT
+  adminUserId: string
 ): Promise<MembershipSyncResult> {
   const result: MembershipSyncResult = {
     synced: 0,
@@ -69,8 +70,7 @@ export async function syncMembershipsForCompany(
 async function processCommissionForMember(
   membershipId: string,
   adminUserId: string,
-  customerUserId: string | undefined,
-  commissionAmount: number
+  customerUserId: string | undefined
 ): Promise<boolean> {
   try {
     const existingMember = await storage.getStoredMemberByMembershipId(membershipId);
@@ -87,19 +87,27 @@ async function processCommissionForMember(
       return false;
     }
 
+    const quote = await quoteCommission(
+      adminUserId,
+      existingMember?.companyId ?? null,
+      existingMember?.planId ?? null,
+      MEMBERSHIP_PRICE_CENTS,
+    );
+
     await storage.recordCommissionPayment({
       id: `comm_${membershipId}_${Date.now()}`,
       paymentId,
       adminUserId,
-      amount: commissionAmount,
-      commissionAmount,
+      amount: MEMBERSHIP_PRICE_CENTS,
+      commissionAmount: quote.commissionAmount,
+      commissionRuleId: quote.rule.id,
       customerUserId: customerUserId || null,
       customerEmail: null,
     });
 
     await storage.markMemberCommissionProcessed(membershipId);
 
-    console.log(`[MembershipSync] Commission of ${commissionAmount} added for admin ${adminUserId} from membership ${membershipId}`);
+    console.log(`[MembershipSync] Commission of ${quote.commissionAmount} (rule ${quote.rule.id}) added for admin ${adminUserId} from membership ${membershipId}`);
     return true;
   } catch (error) {
     console.error(`[MembershipSync] Error processing commission for ${membershipId}:`, error);
@@ -107,7 +115,7 @@ async function processCommissionForMember(
   }
 }
 
-export async function syncAllAdminMemberships(commissionAmount: number = DEFAULT_COMMISSION_AMOUNT): Promise<Map<string, MembershipSyncResult>> {
+export async function syncAllAdminMemberships(): Promise<Map<string, MembershipSyncResult>> {
   const results = new Map<string, MembershipSyncResult>();
 
   try {
@@ -120,7 +128,7 @@ export async function syncAllAdminMemberships(commissionAmount: number = DEFAULT
         continue;
       }
 
-      const result = await syncMembershipsForCompany(admin.companyId, admin.userId, commissionAmount);
+      const result = await syncMembershipsForCompany(admin.companyId, admin.userId);
       results.set(admin.userId, result);
     }
   } catch (error) {
@@ -0,0 +1,281 @@
+import { type NewsSentiment } from "@shared/schema";
+
+/**
+ * Headline sentiment and impact scoring.
+ *
+ * Each headline is scored against a financial lexicon, with negators ("not", "fails to", ...)
+ * flipping the terms that follow them. Impact comes from the keyword classes a headline touches
+ * (regulation, security incidents, ETFs, macro) and from how credible its source is. The
+ * aggregate weights every headline by credibility, impact and an exponential recency decay, and
+ * the resulting score feeds straight into the final confidence.
+ */
+
+export type HeadlineSentiment = "positive" | "negative" | "neutral";
+export type HeadlineImpact = "high" | "medium" | "low";
+export type ImpactClass = "regulation" | "security" | "etf" | "macro" | "institutional" | "listing";
+
+export interface HeadlineInput {
+  title: string;
+  source: string;
+  // Epoch milliseconds; headlines without a timestamp are treated as half-stale
+  publishedOn?: number;
+}
+
+export interface HeadlineScore {
+  // -1 (bearish) .. 1 (bullish)
+  score: number;
+  sentiment: HeadlineSentiment;
+  impact: HeadlineImpact;
+  classes: ImpactClass[];
+  credibility: number;
+}
+
+// Term weights; multi-word phrases are matched before single words
+const LEXICON: Record<string, number> = {
+  // Bullish
+  "all-time high": 2.5, "record high": 2.5, "short squeeze": 2, "breaks out": 2, "inflows": 1.5,
+  "approval": 2, "approve": 2, "approved": 2, "approves": 2, "adoption": 1.5, "adopts": 1.5, "partnership": 1,
+  "surge": 2, "surges": 2, "soar": 2, "soars": 2, "rally": 2, "rallies": 2, "jump": 1.5, "jumps": 1.5,
+  "gain": 1, "gains": 1, "climb": 1, "climbs": 1, "rebound": 1.5, "rebounds": 1.5, "recover": 1, "recovers": 1,
+  "bull": 1.5, "bullish": 2, "upgrade": 1.5, "upgraded": 1.5, "outperform": 1.5, "beat": 1, "beats": 1,
+  "accumulation": 1, "accumulate": 1, "buy": 0.5, "buying": 0.5, "launch": 0.5, "launches": 0.5,
+  "milestone": 1, "growth": 1, "strong": 1, "optimism": 1.5, "optimistic": 1.5, "boost": 1.5, "boosts": 1.5,
+  "support": 0.5, "wins": 1.5, "win": 1,
+  // Bearish
+  "sell-off": -2.5, "selloff": -2.5, "outflows": -1.5, "liquidations": -1.5, "liquidated": -1.5,
+  "crash": -2.5, "crashes": -2.5, "plunge": -2.5, "plunges": -2.5, "tumble": -2, "tumbles": -2,
+  "slump": -2, "slumps": -2, "drop": -1.5, "drops": -1.5, "fall": -1.5, "falls": -1.5, "slide": -1.5, "slides": -1.5,
+  "decline": -1.5, "declines": -1.5, "loss": -1.5, "losses": -1.5, "bear": -1.5, "bearish": -2,
+  "hack": -2.5, "hacked": -2.5, "exploit": -2.5, "exploited": -2.5, "breach": -2, "stolen": -2.5, "drained": -2.5,
+  "scam": -2, "fraud": -2.5, "lawsuit": -1.5, "sues": -1.5, "sued": -1.5, "charges": -1.5, "charged": -1.5,
+  "ban": -2, "bans": -2, "banned": -2, "crackdown": -2, "probe": -1.5, "investigation": -1.5, "fined": -1.5,
+  "rejects": -2, "rejected": -2, "rejection": -2, "delay": -1, "delays": -1, "delayed": -1,
+  "downgrade": -1.5, "downgraded": -1.5, "bankruptcy": -3, "bankrupt": -3, "insolvent": -3, "collapse": -3,
+  "fear": -1.5, "fears": -1.5, "concern": -1, "concerns": -1, "warning": -1, "warns": -1, "risk": -0.5,
+  "weak": -1, "sell": -0.5, "selling": -0.5, "dump": -2, "dumps": -2, "halt": -1.5, "halts": -1.5,
+  "hike": -0.5, "hikes": -0.5, "inflation": -0.5,
+};
+
+const NEGATORS = new Set(["not", "no", "never", "without", "isn't", "aren't", "wasn't", "won't", "doesn't", "didn't", "fails", "failed", "unlikely", "despite"]);
+// A negator flips terms at most this many tokens after it
+const NEGATION_WINDOW = 3;
+
+const INTENSIFIERS: Record<string, number> = {
+  "massive": 1.5, "huge": 1.4, "record": 1.3, "sharply": 1.4, "major": 1.3, "biggest": 1.4, "historic": 1.4,
+  "slightly": 0.6, "modest": 0.7, "minor": 0.6,
+};
+
+const IMPACT_CLASSES: Record<ImpactClass, string[]> = {
+  regulation: ["sec", "cftc", "regulator", "regulators", "regulation", "regulatory", "lawsuit", "court", "ban", "bans", "banned", "crackdown", "legislation", "bill", "senate", "congress", "treasury", "sanctions", "license"],
+  security: ["hack", "hacked", "exploit", "exploited", "breach", "stolen", "drained", "attack", "vulnerability", "rug", "phishing"],
+  etf: ["etf", "etfs", "etp", "spot etf", "inflows", "outflows", "grayscale", "blackrock", "fidelity"],
+  macro: ["fed", "fomc", "powell", "cpi", "inflation", "rate", "rates", "recession", "jobs", "payrolls", "gdp", "treasury yields", "tariff", "tariffs"],
+  institutional: ["institutional", "institutions", "microstrategy", "treasury reserve", "reserve", "fund", "bank", "banks"],
+  listing: ["listing", "lists", "delisting", "delists", "coinbase", "binance", "kraken", "upbit"],
+};
+
+// Classes that move markets on their own
+const HIGH_IMPACT_CLASSES: ImpactClass[] = ["regulation", "security", "etf", "macro"];
+
+// Credibility by source name (lowercased substring match); unknown sources get the default
+const SOURCE_CREDIBILITY: [string, number][] = [
+  ["reuters", 1.0],
+  ["bloomberg", 1.0],
+  ["wall street journal", 1.0],
+  ["financial times", 1.0],
+  ["cnbc", 0.9],
+  ["coindesk", 0.9],
+  ["the block", 0.9],
+  ["theblock", 0.9],
+  ["decrypt", 0.8],
+  ["cointelegraph", 0.75],
+  ["bitcoin magazine", 0.75],
+  ["blockworks", 0.8],
+  ["cryptoslate", 0.7],
+  ["cryptopotato", 0.6],
+  ["bitcoinist", 0.55],
+  ["newsbtc", 0.55],
+  ["u.today", 0.5],
+  ["coingape", 0.5],
+];
+const DEFAULT_CREDIBILITY = 0.6;
+
+const IMPACT_WEIGHTS: Record<HeadlineImpact, number> = { high: 1.5, medium: 1, low: 0.6 };
+
+// Hours for a headline's weight to halve
+const SENTIMENT_HALF_LIFE_HOURS = parseFloat(process.env.NEWS_SENTIMENT_HALF_LIFE_HOURS || "") || 6;
+
+// Per-headline score beyond which a headline counts as positive/negative
+const HEADLINE_THRESHOLD = 0.15;
+// Aggregate score (-100..100) beyond which the feed has a bias
+const AGGREGATE_THRESHOLD = 15;
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().replace(/[’‘]/g, "'").match(/[a-z0-9$.'-]+/g)?.map(t => t.replace(/^[.'-]+|[.'-]+$/g, "")).filter(Boolean) ?? [];
+}
+
+export function sourceCredibility(source: string): number {
+  const name = source.toLowerCase();
+  const match = SOURCE_CREDIBILITY.find(([key]) => name.includes(key));
+  return match ? match[1] : DEFAULT_CREDIBILITY;
+}
+
+function classify(tokens: string[]): ImpactClass[] {
+  const text = ` ${tokens.join(" ")} `;
+  return (Object.keys(IMPACT_CLASSES) as ImpactClass[]).filter(cls =>
+    IMPACT_CLASSES[cls].some(keyword => text.includes(` ${keyword} `))
+  );
+}
+
+function lookup(table: Record<string, number>, term: string): number | undefined {
+  return Object.prototype.hasOwnProperty.call(table, term) ? table[term] : undefined;
+}
+
+function lexiconScore(tokens: string[]): number {
+  let total = 0;
+  let hits = 0;
+  let negateUntil = -1;
+  let intensity = 1;
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+
+    if (NEGATORS.has(token)) {
+      negateUntil = i + NEGATION_WINDOW;
+      continue;
+    }
+
+    // Prefer the longest phrase starting here, so "record high" is a term and not an intensifier
+    let weight: number | undefined;
+    let span = 1;
+    for (const length of [3, 2]) {
+      if (i + length > tokens.length) continue;
+      weight = lookup(LEXICON, tokens.slice(i, i + length).join(" "));
+      if (weight !== undefined) {
+        span = length;
+        break;
+      }
+    }
+    if (weight === undefined) {
+      const intensifier = lookup(INTENSIFIERS, token);
+      if (intensifier !== undefined) {
+        intensity = intensifier;
+        continue;
+      }
+      weight = lookup(LEXICON, token);
+    }
+    if (weight === undefined) continue;
+
+    const negated = i <= negateUntil;
+    total += weight * intensity * (negated ? -0.8 : 1);
+    hits++;
+    intensity = 1;
+    i += span - 1;
+  }
+
+  if (hits === 0) return 0;
+  // Dampen long lists of terms so one headline cannot saturate the scale
+  return Math.tanh(total / (2 * Math.sqrt(hits)));
+}
+
+function deriveImpact(classes: ImpactClass[], credibility: number): HeadlineImpact {
+  const highClass = classes.some(c => HIGH_IMPACT_CLASSES.includes(c));
+  if (highClass) {
+    return credibility >= 0.7 ? "high" : "medium";
+  }
+  if (classes.length > 0) {
+    return credibility >= 0.9 ? "high" : "medium";
+  }
+  return credibility >= 0.9 ? "medium" : "low";
+}
+
+export function scoreHeadline(headline: HeadlineInput): HeadlineScore {
+  const tokens = tokenize(headline.title);
+  const score = lexiconScore(tokens);
+  const classes = classify(tokens);
+  const credibility = sourceCredibility(headline.source);
+
+  return {
+    score,
+    sentiment: score > HEADLINE_THRESHOLD ? "positive" : score < -HEADLINE_THRESHOLD ? "negative" : "neutral",
+    impact: deriveImpact(classes, credibility),
+    classes,
+    credibility,
+  };
+}
+
+function recencyWeight(publishedOn: number | undefined, now: number): number {
+  if (!publishedOn) return 0.5;
+  const ageHours = Math.max(0, now - publishedOn) / 3_600_000;
+  return Math.pow(0.5, ageHours / SENTIMENT_HALF_LIFE_HOURS);
+}
+
+/**
+ * Aggregate scored headlines into one -100..100 score. Each headline counts by source
+ * credibility x impact x recency, so a fresh Reuters regulation story outweighs a day-old
+ * price recap from a small blog.
+ */
+export function aggregateNewsSentiment(
+  headlines: (HeadlineInput & { impact?: HeadlineImpact; score?: number })[],
+  now: number = Date.now()
+): NewsSentiment {
+  let weighted = 0;
+  let totalWeight = 0;
+  let positive = 0;
+  let negative = 0;
+  const contributions: { title: string; contribution: number }[] = [];
+
+  for (const headline of headlines) {
+    const scored = scoreHeadline(headline);
+    const score = headline.score ?? scored.score;
+    const impact = headline.impact ?? scored.impact;
+    const weight = scored.credibility * IMPACT_WEIGHTS[impact] * recencyWeight(headline.publishedOn, now);
+
+    weighted += score * weight;
+    totalWeight += weight;
+    if (score > HEADLINE_THRESHOLD) positive++;
+    else if (score < -HEADLINE_THRESHOLD) negative++;
+    if (score !== 0) {
+      contributions.push({ title: headline.title, contribution: score * weight });
+    }
+  }
+
+  const score = totalWeight > 0 ? Math.round((weighted / totalWeight) * 100) : 0;
+  const label = score > AGGREGATE_THRESHOLD ? "BULLISH" : score < -AGGREGATE_THRESHOLD ? "BEARISH" : "NEUTRAL";
+  const drivers = contributions
+    .sort((a, b) => Math.abs(b.contribution) - Math.abs(a.contribution))
+    .slice(0, 3)
+    .map(c => c.title);
+
+  const summary = headlines.length === 0
+    ? "No headlines available - sentiment not scored"
+    : `${label} news flow (${score > 0 ? "+" : ""}${score}): ${positive} positive, ${negative} negative of ${headlines.length} headlines`;
+
+  return {
+    score,
+    label,
+    headlineCount: headlines.length,
+    positive,
+    negative,
+    totalWeight: Math.round(totalWeight * 100) / 100,
+    drivers,
+    summary,
+  };
+}
+
+/**
+ * Confidence points to add (or subtract) for a call given the news score. The effect is
+ * scaled down when the feed carries little weight - a few stale headlines should not move it.
+ */
+export function sentimentConfidenceAdjustment(sentiment: NewsSentiment, direction: "UP" | "DOWN" | "NEUTRAL"): number {
+  if (direction === "NEUTRAL" || sentiment.label === "NEUTRAL") return 0;
+
+  const reliability = Math.min(1, sentiment.totalWeight / 3);
+  const withNews = (direction === "UP") === (sentiment.label === "BULLISH");
+  const magnitude = Math.abs(sentiment.score) / 100;
+
+  // Full effect from a score of 50: up to +4 with the news, up to -6 against it
+  return withNews
+    ? Math.min(4, Math.round(magnitude * 8 * reliability))
+    : -Math.min(6, Math.round(magnitude * 12 * reliability));
+}
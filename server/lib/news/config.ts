@@ -0,0 +1,105 @@
+import { pairSymbolSchema, type PairCategory, type TradingPair } from "@shared/schema";
+import { type NewsSource, type NewsSourceId } from "./source";
+import { CryptoCompareNewsSource } from "./cryptocompare-source";
+import { RssNewsSource, type NewsFeed } from "./rss-source";
+import { FixtureNewsSource } from "./fixture-source";
+import { getPairCategory } from "../pair-catalog";
+
+/**
+ * Source order per pair category. The first source that supports the pair and returns headlines wins;
+ * failures and empty results fall through to the next entry.
+ */
+const DEFAULT_SOURCE_ORDER: NewsSourceId[] = ["cryptocompare", "rss"];
+
+const CATEGORY_SOURCE_ORDER: Partial<Record<PairCategory, NewsSourceId[]>> = {
+  forex: ["rss"],
+  commodities: ["rss"],
+  indices: ["rss"],
+};
+
+const googleNews = (query: string): NewsFeed => ({
+  url: `https://news.google.com/rss/search?q=${encodeURIComponent(query)}&hl=en-US&gl=US&ceid=US:en`,
+  name: "Google News",
+});
+
+const FXSTREET_NEWS = "https://www.fxstreet.com/rss/news";
+
+const DEFAULT_FEEDS: Partial<Record<TradingPair, NewsFeed[]>> = {
+  "EUR/USD": [
+    googleNews("EUR/USD OR euro dollar OR ECB when:2d"),
+    { url: FXSTREET_NEWS, name: "FXStreet", keywords: ["EUR/USD", "EUR", "euro", "ECB", "Lagarde", "eurozone"] },
+  ],
+  "GBP/USD": [
+    googleNews("GBP/USD OR pound sterling OR Bank of England when:2d"),
+    { url: FXSTREET_NEWS, name: "FXStreet", keywords: ["GBP/USD", "GBP", "pound", "sterling", "BoE", "Bank of England"] },
+  ],
+  "AUD/USD": [
+    googleNews("AUD/USD OR Australian dollar OR RBA when:2d"),
+    { url: FXSTREET_NEWS, name: "FXStreet", keywords: ["AUD/USD", "AUD", "Aussie", "Australian", "RBA"] },
+  ],
+  "XAU/USD": [
+    googleNews("gold price OR XAU/USD when:2d"),
+    { url: FXSTREET_NEWS, name: "FXStreet", keywords: ["XAU/USD", "gold"] },
+  ],
+  "US100/USD": [
+    googleNews("Nasdaq 100 OR Nasdaq futures when:2d"),
+  ],
+};
+
+// NEWS_FEEDS='{"EUR/USD":["https://example.com/feed.xml"]}' replaces the feeds for the listed pairs.
+// Entries may be a URL or a { url, name, keywords } object.
+function loadFeedOverrides(): Partial<Record<TradingPair, NewsFeed[]>> {
+  if (!process.env.NEWS_FEEDS) return {};
+
+  try {
+    const parsed = JSON.parse(process.env.NEWS_FEEDS) as Record<string, (string | NewsFeed)[]>;
+    const overrides: Partial<Record<TradingPair, NewsFeed[]>> = {};
+
+    for (const [key, feeds] of Object.entries(parsed)) {
+      // The catalog is not loaded yet at startup, so only the symbol format is checked here
+      const pair = pairSymbolSchema.safeParse(key);
+      if (!pair.success || !Array.isArray(feeds)) {
+        console.warn(`[News] Ignoring NEWS_FEEDS entry for invalid pair ${key}`);
+        continue;
+      }
+      overrides[pair.data] = feeds
+        .map(feed => (typeof feed === "string" ? { url: feed } : feed))
+        .filter(feed => typeof feed?.url === "string");
+    }
+
+    return overrides;
+  } catch (error) {
+    console.warn("[News] NEWS_FEEDS is not valid JSON - using default feeds");
+    return {};
+  }
+}
+
+const sourceIds: NewsSourceId[] = ["cryptocompare", "rss", "fixture"];
+
+// NEWS_SOURCES=fixture,rss overrides the order for every pair
+// NEWS_FIXTURE=path/to/headlines.json enables the fixture source
+const envSourceOrder = (process.env.NEWS_SOURCES || "")
+  .split(",")
+  .map(id => id.trim())
+  .filter((id): id is NewsSourceId => sourceIds.includes(id as NewsSourceId));
+
+const sources = new Map<NewsSourceId, NewsSource>();
+sources.set("cryptocompare", new CryptoCompareNewsSource());
+sources.set("rss", new RssNewsSource({ ...DEFAULT_FEEDS, ...loadFeedOverrides() }));
+
+if (process.env.NEWS_FIXTURE) {
+  sources.set("fixture", new FixtureNewsSource(process.env.NEWS_FIXTURE));
+  console.log(`[News] Fixture source enabled (${process.env.NEWS_FIXTURE})`);
+} else if (envSourceOrder.includes("fixture")) {
+  console.warn("[News] NEWS_SOURCES includes fixture but NEWS_FIXTURE is not set");
+}
+
+export function getNewsSourcesForPair(pair: TradingPair): NewsSource[] {
+  const order = envSourceOrder.length > 0
+    ? envSourceOrder
+    : CATEGORY_SOURCE_ORDER[getPairCategory(pair) ?? "crypto"] || DEFAULT_SOURCE_ORDER;
+
+  return order
+    .map(id => sources.get(id))
+    .filter((s): s is NewsSource => s !== undefined && s.supports(pair));
+}
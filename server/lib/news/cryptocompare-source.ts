@@ -0,0 +1,46 @@
+import { type TradingPair } from "@shared/schema";
+import { CRYPTOCOMPARE_API_BASE, cryptoCompareHeaders, pairToCryptoCompareSymbols } from "../market-data/cryptocompare-provider";
+import { type NewsSource, type RawHeadline } from "./source";
+import { getPairCategory } from "../pair-catalog";
+
+/**
+ * CryptoCompare news, filtered by coin category. Only crypto pairs are served: the categories
+ * for EUR, PAXG or US100 return unrelated or empty results.
+ */
+export class CryptoCompareNewsSource implements NewsSource {
+  readonly id = "cryptocompare" as const;
+
+  supports(pair: TradingPair): boolean {
+    return getPairCategory(pair) === "crypto";
+  }
+
+  async fetchHeadlines(pair: TradingPair, limit: number): Promise<RawHeadline[]> {
+    const { from } = pairToCryptoCompareSymbols(pair);
+
+    console.log(`[CryptoCompare API] Fetching news for ${from}...`);
+    // 'categories' parameter allows filtering by coin symbol
+    const response = await fetch(
+      `${CRYPTOCOMPARE_API_BASE}/v2/news/?lang=EN&categories=${from}&limit=${limit}`,
+      { headers: cryptoCompareHeaders }
+    );
+
+    if (!response.ok) {
+      throw new Error(`News fetch failed: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    if (data.Message && data.Message !== 'News list successfully returned') {
+      console.warn(`[CryptoCompare API] News API Message: ${data.Message}`);
+    }
+
+    const newsItems = data.Data || [];
+
+    return newsItems.map((item: any) => ({
+      id: String(item.id),
+      title: item.title,
+      source: item.source_info?.name || "CryptoNews",
+      url: item.url,
+      publishedOn: item.published_on * 1000,
+    }));
+  }
+}
@@ -0,0 +1,89 @@
+import { readFile } from "fs/promises";
+import { z } from "zod";
+import { pairSymbolSchema, type TradingPair } from "@shared/schema";
+import { type NewsSource, type RawHeadline } from "./source";
+
+/**
+ * Serves headlines from a local fixture file, so the sentiment stage can run offline in tests
+ * and demos.
+ *
+ * File format (JSON):
+ * {
+ *   "headlines": [
+ *     { "pair": "EUR/USD", "title": "ECB holds rates", "source": "Reuters", "publishedOn": 1700000000000 }
+ *   ]
+ * }
+ *
+ * `url` and `id` are optional; publishedOn is epoch milliseconds.
+ */
+
+const fixtureHeadlineSchema = z.object({
+  pair: pairSymbolSchema,
+  title: z.string().min(1),
+  source: z.string().min(1),
+  url: z.string().optional(),
+  id: z.string().optional(),
+  publishedOn: z.number(),
+});
+
+const newsFixtureSchema = z.object({
+  headlines: z.array(fixtureHeadlineSchema),
+});
+
+export type NewsFixture = z.infer<typeof newsFixtureSchema>;
+
+export async function loadNewsFixture(filePath: string): Promise<NewsFixture> {
+  const raw = await readFile(filePath, "utf-8");
+  const parsed = newsFixtureSchema.safeParse(JSON.parse(raw));
+
+  if (!parsed.success) {
+    throw new Error(`Invalid news fixture ${filePath}: ${parsed.error.message}`);
+  }
+
+  return parsed.data;
+}
+
+export class FixtureNewsSource implements NewsSource {
+  readonly id = "fixture" as const;
+  private fixturePromise: Promise<NewsFixture> | null = null;
+
+  constructor(private readonly filePath: string) {}
+
+  private loadFixture(): Promise<NewsFixture> {
+    if (!this.fixturePromise) {
+      this.fixturePromise = loadNewsFixture(this.filePath).catch(error => {
+        // Allow a retry after the file is fixed
+        this.fixturePromise = null;
+        throw error;
+      });
+    }
+    return this.fixturePromise;
+  }
+
+  // Coverage is only known after loading, so unsupported pairs throw from fetchHeadlines instead
+  supports(_pair: TradingPair): boolean {
+    return true;
+  }
+
+  async fetchHeadlines(pair: TradingPair, limit: number): Promise<RawHeadline[]> {
+    const fixture = await this.loadFixture();
+    const entries = fixture.headlines.filter(h => h.pair === pair);
+
+    if (entries.length === 0) {
+      throw new Error(`[Fixture] No headlines for ${pair} in ${this.filePath}`);
+    }
+
+    console.log(`[Fixture] Serving ${Math.min(entries.length, limit)} headlines for ${pair}`);
+
+    return entries
+      .sort((a, b) => b.publishedOn - a.publishedOn)
+      .slice(0, limit)
+      .map((h, idx) => ({
+        id: h.id || `fixture-${pair}-${idx}`,
+        title: h.title,
+        source: h.source,
+        url: h.url || "",
+        publishedOn: h.publishedOn,
+      }));
+  }
+}
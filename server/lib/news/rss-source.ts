@@ -0,0 +1,144 @@
+import { type TradingPair } from "@shared/schema";
+import { type NewsSource, type RawHeadline } from "./source";
+
+export interface NewsFeed {
+  url: string;
+  // Used when the feed has no channel title and the item has no <source>
+  name?: string;
+  // When set, only items whose title mentions one of these (case-insensitive) are kept.
+  // General market feeds need this; per-instrument search feeds do not.
+  keywords?: string[];
+}
+
+const FEED_TIMEOUT_MS = parseInt(process.env.NEWS_FEED_TIMEOUT_MS || "", 10) || 8000;
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: "\"",
+  apos: "'",
+  nbsp: " ",
+};
+
+function decodeText(raw: string): string {
+  const cdata = raw.replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1");
+  return cdata
+    // Some feeds put markup inside titles
+    .replace(/<[^>]+>/g, "")
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&([a-z]+);/gi, (match, name) => ENTITIES[name.toLowerCase()] ?? match)
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function tagText(block: string, tag: string): string | undefined {
+  const match = block.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, "i"));
+  return match ? decodeText(match[1]) : undefined;
+}
+
+function atomLink(block: string): string | undefined {
+  // Prefer rel="alternate" (or no rel) over self/edit links
+  const links = Array.from(block.matchAll(/<link\b([^>]*)\/?>/gi)).map(m => m[1]);
+  const alternate = links.find(attrs => !/rel=["'](?!alternate)/i.test(attrs)) ?? links[0];
+  return alternate?.match(/href=["']([^"']+)["']/i)?.[1];
+}
+
+function parseDate(value: string | undefined): number {
+  const parsed = value ? Date.parse(value) : NaN;
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+/**
+ * Parse an RSS 2.0 or Atom document into headlines. Deliberately tolerant: items missing a
+ * title are skipped, and undated items get publishedOn 0 so recency weighting treats them as stale.
+ */
+export function parseFeed(xml: string, fallbackSource: string): RawHeadline[] {
+  const channelSource = tagText(xml.replace(/<(item|entry)\b[\s\S]*$/i, ""), "title") || fallbackSource;
+  const isAtom = /<feed\b/i.test(xml) && !/<rss\b/i.test(xml);
+  const blocks = Array.from(xml.matchAll(isAtom ? /<entry\b[\s\S]*?<\/entry>/gi : /<item\b[\s\S]*?<\/item>/gi)).map(m => m[0]);
+
+  const headlines: RawHeadline[] = [];
+  for (const block of blocks) {
+    const title = tagText(block, "title");
+    if (!title) continue;
+
+    const url = (isAtom ? atomLink(block) : tagText(block, "link")) || "";
+    const publishedOn = isAtom
+      ? parseDate(tagText(block, "published") || tagText(block, "updated"))
+      : parseDate(tagText(block, "pubDate") || tagText(block, "dc:date"));
+    // Aggregators such as Google News name the original publisher per item
+    const source = tagText(block, "source") || channelSource;
+
+    headlines.push({
+      id: tagText(block, isAtom ? "id" : "guid") || url || `${source}-${publishedOn}-${title}`,
+      title,
+      source,
+      url,
+      publishedOn,
+    });
+  }
+
+  return headlines;
+}
+
+function matchesKeywords(title: string, keywords: string[] | undefined): boolean {
+  if (!keywords || keywords.length === 0) return true;
+  const lower = title.toLowerCase();
+  return keywords.some(keyword => lower.includes(keyword.toLowerCase()));
+}
+
+/**
+ * Headlines from RSS/Atom feeds configured per instrument. Every feed for the pair is read in
+ * parallel; one failing feed does not drop the others. Throws only when all of them fail.
+ */
+export class RssNewsSource implements NewsSource {
+  readonly id = "rss" as const;
+
+  constructor(private readonly feeds: Partial<Record<TradingPair, NewsFeed[]>>) {}
+
+  supports(pair: TradingPair): boolean {
+    return (this.feeds[pair]?.length ?? 0) > 0;
+  }
+
+  private async fetchFeed(feed: NewsFeed): Promise<RawHeadline[]> {
+    const response = await fetch(feed.url, {
+      headers: { "Accept": "application/rss+xml, application/atom+xml, application/xml, text/xml" },
+      signal: AbortSignal.timeout(FEED_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Feed ${feed.url} returned ${response.status} ${response.statusText}`);
+    }
+
+    const fallbackSource = feed.name || new URL(feed.url).hostname;
+    return parseFeed(await response.text(), fallbackSource).filter(h => matchesKeywords(h.title, feed.keywords));
+  }
+
+  async fetchHeadlines(pair: TradingPair, limit: number): Promise<RawHeadline[]> {
+    const feeds = this.feeds[pair] ?? [];
+    console.log(`[RSS] Fetching ${feeds.length} feed(s) for ${pair}...`);
+
+    const results = await Promise.allSettled(feeds.map(feed => this.fetchFeed(feed)));
+    const failures = results.filter((r): r is PromiseRejectedResult => r.status === "rejected");
+    failures.forEach(f => console.warn(`[RSS] ${f.reason instanceof Error ? f.reason.message : f.reason}`));
+
+    if (failures.length === feeds.length) {
+      throw new Error(`All ${feeds.length} feed(s) failed for ${pair}`);
+    }
+
+    // The same story often appears in several feeds
+    const seen = new Set<string>();
+    return results
+      .flatMap(r => (r.status === "fulfilled" ? r.value : []))
+      .filter(h => {
+        const key = h.title.toLowerCase();
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      })
+      .sort((a, b) => b.publishedOn - a.publishedOn)
+      .slice(0, limit);
+  }
+}
@@ -0,0 +1,22 @@
+import { type TradingPair } from "@shared/schema";
+
+export interface RawHeadline {
+  id: string;
+  title: string;
+  source: string;
+  url: string;
+  // Epoch milliseconds
+  publishedOn: number;
+}
+
+export type NewsSourceId = "cryptocompare" | "rss" | "fixture";
+
+/**
+ * A source of headlines for an instrument. Sources throw when they cannot serve a pair
+ * so the caller can fail over to the next source configured for that pair.
+ */
+export interface NewsSource {
+  readonly id: NewsSourceId;
+  supports(pair: TradingPair): boolean;
+  fetchHeadlines(pair: TradingPair, limit: number): Promise<RawHeadline[]>;
+}
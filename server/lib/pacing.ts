@@ -0,0 +1,40 @@
+import { type PacingProfile } from "@shared/schema";
+
+/**
+ * Presentation delays for the staged analysis pipeline.
+ *
+ * The chat UI animates each stage, so the pipeline pauses between updates. Those pauses are
+ * pure presentation: "fast" shortens them and "instant" drops them, leaving only real compute
+ * and network time.
+ */
+
+export const DEFAULT_PACING_PROFILE: PacingProfile = "cinematic";
+
+const DELAY_SCALE: Record<PacingProfile, number> = {
+  cinematic: 1,
+  fast: 0.25,
+  instant: 0,
+};
+
+export interface Pacer {
+  profile: PacingProfile;
+  delay(ms: number): Promise<void>;
+  // Whether to hold the verdict until the client finishes its AI thinking animation
+  waitsForClient: boolean;
+}
+
+export function createPacer(profile: PacingProfile = DEFAULT_PACING_PROFILE): Pacer {
+  const scale = DELAY_SCALE[profile];
+
+  return {
+    profile,
+    delay(ms: number): Promise<void> {
+      const scaled = Math.round(ms * scale);
+      if (scaled <= 0) {
+        return Promise.resolve();
+      }
+      return new Promise(resolve => setTimeout(resolve, scaled));
+    },
+    waitsForClient: profile === "cinematic",
+  };
+}
@@ -0,0 +1,157 @@
+import {
+  commoditiesPairs,
+  cryptoPairs,
+  forexPairs,
+  indicesPairs,
+  setTradingPairValidator,
+  type PairCategory,
+  type TradingPairConfig,
+} from "@shared/schema";
+import { storage } from "../storage";
+
+/**
+ * Runtime trading pair catalog: category, provider symbols, price precision and the enabled
+ * flag per pair. Stored in MongoDB and cached in memory so providers and validation can read it
+ * synchronously. Built-in pairs missing from the database are inserted on load; pairs are never
+ * deleted, only disabled, so history that references them stays readable.
+ *
+ * Without MONGODB_URI the built-in catalog is used and admin edits last until restart.
+ */
+
+type PairInput = Omit<TradingPairConfig, "createdAt" | "updatedAt">;
+type PairUpdates = Partial<Pick<TradingPairConfig, "category" | "providerSymbols" | "providerOrder" | "decimals" | "minTick" | "enabled">>;
+
+// Display precision for the built-in crypto pairs; sub-cent coins need more places
+const CRYPTO_DECIMALS: Record<string, number> = {
+  "XRP/USDT": 4,
+  "TRX/USDT": 4,
+  "DOGE/USDT": 5,
+  "ADA/USDT": 4,
+  "HBAR/USDT": 5,
+  "SUI/USDT": 4,
+  "XLM/USDT": 5,
+  "ONDO/USDT": 4,
+  "ALGO/USDT": 4,
+  "SHIB/USDT": 8,
+  "PEPE/USDT": 8,
+};
+
+const BUILT_IN_OVERRIDES: Record<string, Partial<PairInput>> = {
+  // PAXG trades 24/7 and tracks spot gold closely
+  "XAU/USD": { providerSymbols: { cryptocompare: { from: "PAXG", to: "USDT" }, yahoo: "GC=F" }, decimals: 2 },
+  "US100/USD": { providerSymbols: { cryptocompare: { from: "US100", to: "USD" }, yahoo: "NQ=F" }, decimals: 2 },
+};
+
+function builtInPair(symbol: string, category: PairCategory): PairInput {
+  const [from, to] = symbol.split("/");
+  const decimals = category === "forex" ? 5 : CRYPTO_DECIMALS[symbol] ?? 2;
+
+  return {
+    symbol,
+    category,
+    providerSymbols: {
+      cryptocompare: { from, to },
+      ...(category === "forex" ? { yahoo: `${from}${to}=X` } : {}),
+    },
+    providerOrder: [],
+    decimals,
+    minTick: Number((10 ** -decimals).toFixed(decimals)),
+    enabled: true,
+    ...BUILT_IN_OVERRIDES[symbol],
+  };
+}
+
+export const BUILT_IN_PAIRS: PairInput[] = [
+  ...cryptoPairs.map(symbol => builtInPair(symbol, "crypto")),
+  ...forexPairs.map(symbol => builtInPair(symbol, "forex")),
+  ...commoditiesPairs.map(symbol => builtInPair(symbol, "commodities")),
+  ...indicesPairs.map(symbol => builtInPair(symbol, "indices")),
+];
+
+const catalog = new Map<string, TradingPairConfig>();
+
+function resetToBuiltIns(): void {
+  const now = new Date();
+  catalog.clear();
+  for (const pair of BUILT_IN_PAIRS) {
+    catalog.set(pair.symbol, { ...pair, createdAt: now, updatedAt: now });
+  }
+}
+
+resetToBuiltIns();
+setTradingPairValidator(isPairEnabled);
+
+export async function loadPairCatalog(): Promise<void> {
+  if (!process.env.MONGODB_URI) {
+    console.log(`[PairCatalog] No database - using ${catalog.size} built-in pairs`);
+    return;
+  }
+
+  const stored = await storage.getTradingPairs();
+  const known = new Set(stored.map(p => p.symbol));
+  const missing = BUILT_IN_PAIRS.filter(p => !known.has(p.symbol));
+
+  for (const pair of missing) {
+    stored.push(await storage.createTradingPair(pair));
+  }
+
+  catalog.clear();
+  for (const pair of stored) {
+    catalog.set(pair.symbol, pair);
+  }
+
+  console.log(`[PairCatalog] Loaded ${catalog.size} pairs (${getEnabledPairs().length} enabled, ${missing.length} seeded)`);
+}
+
+export function getPairCatalog(): TradingPairConfig[] {
+  return Array.from(catalog.values());
+}
+
+export function getEnabledPairs(): TradingPairConfig[] {
+  return getPairCatalog().filter(p => p.enabled);
+}
+
+// Disabled pairs are still returned so stored predictions and alerts keep resolving
+export function getPairConfig(pair: string): TradingPairConfig | undefined {
+  return catalog.get(pair);
+}
+
+export function isPairEnabled(pair: string): boolean {
+  return catalog.get(pair)?.enabled ?? false;
+}
+
+export function getPairCategory(pair: string): PairCategory | undefined {
+  return catalog.get(pair)?.category;
+}
+
+export async function addPair(input: PairInput): Promise<TradingPairConfig> {
+  if (catalog.has(input.symbol)) {
+    throw new Error(`Trading pair ${input.symbol} already exists`);
+  }
+
+  const now = new Date();
+  const pair = process.env.MONGODB_URI
+    ? await storage.createTradingPair(input)
+    : { ...input, createdAt: now, updatedAt: now };
+
+  catalog.set(pair.symbol, pair);
+  console.log(`[PairCatalog] Added ${pair.symbol} (${pair.category})`);
+  return pair;
+}
+
+export async function updatePair(symbol: string, updates: PairUpdates): Promise<TradingPairConfig | undefined> {
+  const current = catalog.get(symbol);
+  if (!current) {
+    return undefined;
+  }
+
+  const pair = process.env.MONGODB_URI
+    ? await storage.updateTradingPair(symbol, updates)
+    : { ...current, ...updates, updatedAt: new Date() };
+
+  if (pair) {
+    catalog.set(symbol, pair);
+    console.log(`[PairCatalog] Updated ${symbol}: ${JSON.stringify(updates)}`);
+  }
+  return pair;
+}
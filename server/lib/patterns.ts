@@ -0,0 +1,376 @@
+import { type Candle } from "./market-data/provider";
+import { calculateATR } from "../technical-analysis";
+import { findSwingPoints } from "./divergence";
+
+/**
+ * Candlestick and chart pattern recognition.
+ *
+ * Candlestick patterns are only reported when they complete on one of the last few candles, and
+ * chart patterns when their final swing is recent - an old double top says little about the
+ * next move. Indices refer to positions in the candle array that was passed in.
+ */
+
+export type PatternName =
+  | "Bullish Engulfing"
+  | "Bearish Engulfing"
+  | "Bullish Pin Bar"
+  | "Bearish Pin Bar"
+  | "Inside Bar"
+  | "Morning Star"
+  | "Evening Star"
+  | "Double Top"
+  | "Double Bottom"
+  | "Head and Shoulders"
+  | "Inverse Head and Shoulders";
+
+export interface CandlePattern {
+  name: PatternName;
+  type: "candlestick" | "chart";
+  direction: "UP" | "DOWN";
+  // 0-100
+  confidence: number;
+  startIndex: number;
+  endIndex: number;
+  description: string;
+}
+
+export interface PatternOptions {
+  // Candlestick patterns must end within this many bars of the last candle
+  candlestickRecency: number;
+  // Bars searched for chart pattern swings
+  chartLookback: number;
+  swingWindow: number;
+  // The last swing of a chart pattern must be within this many bars of the last candle
+  chartRecency: number;
+}
+
+export const DEFAULT_PATTERN_OPTIONS: PatternOptions = {
+  candlestickRecency: 2,
+  chartLookback: 80,
+  swingWindow: 3,
+  chartRecency: 15,
+};
+
+function body(candle: Candle): number {
+  return Math.abs(candle.close - candle.open);
+}
+
+function range(candle: Candle): number {
+  return candle.high - candle.low;
+}
+
+function isBullish(candle: Candle): boolean {
+  return candle.close > candle.open;
+}
+
+function isBearish(candle: Candle): boolean {
+  return candle.close < candle.open;
+}
+
+function clampConfidence(value: number): number {
+  return Math.round(Math.max(0, Math.min(100, value)));
+}
+
+// Net move over the bars before `index`, used to reward reversal patterns that appear after a trend
+function priorTrend(candles: Candle[], index: number, bars: number = 5): "UP" | "DOWN" | "FLAT" {
+  const start = index - bars;
+  if (start < 0) return "FLAT";
+  const change = candles[index - 1].close - candles[start].close;
+  const threshold = candles[start].close * 0.001;
+  if (change > threshold) return "UP";
+  if (change < -threshold) return "DOWN";
+  return "FLAT";
+}
+
+function detectEngulfing(candles: Candle[], i: number): CandlePattern | null {
+  if (i < 1) return null;
+  const prev = candles[i - 1];
+  const curr = candles[i];
+  if (body(prev) === 0) return null;
+
+  const bullish = isBearish(prev) && isBullish(curr) && curr.open <= prev.close && curr.close >= prev.open;
+  const bearish = isBullish(prev) && isBearish(curr) && curr.open >= prev.close && curr.close <= prev.open;
+  if (!bullish && !bearish) return null;
+
+  const direction = bullish ? "UP" : "DOWN";
+  const sizeBonus = Math.min((body(curr) / body(prev) - 1) * 10, 10);
+  const contextBonus = priorTrend(candles, i - 1) === (bullish ? "DOWN" : "UP") ? 10 : 0;
+
+  return {
+    name: bullish ? "Bullish Engulfing" : "Bearish Engulfing",
+    type: "candlestick",
+    direction,
+    confidence: clampConfidence(60 + sizeBonus + contextBonus),
+    startIndex: i - 1,
+    endIndex: i,
+    description: bullish
+      ? "Bullish candle fully engulfs the prior bearish body"
+      : "Bearish candle fully engulfs the prior bullish body",
+  };
+}
+
+function detectPinBar(candles: Candle[], i: number): CandlePattern | null {
+  const candle = candles[i];
+  const candleRange = range(candle);
+  if (candleRange === 0) return null;
+
+  const candleBody = body(candle);
+  const upperWick = candle.high - Math.max(candle.open, candle.close);
+  const lowerWick = Math.min(candle.open, candle.close) - candle.low;
+  if (candleBody > candleRange * 0.3) return null;
+
+  const bullish = lowerWick >= candleRange * 0.6 && lowerWick >= candleBody * 2;
+  const bearish = upperWick >= candleRange * 0.6 && upperWick >= candleBody * 2;
+  if (bullish === bearish) return null;
+
+  const wick = bullish ? lowerWick : upperWick;
+  const contextBonus = priorTrend(candles, i) === (bullish ? "DOWN" : "UP") ? 10 : 0;
+
+  return {
+    name: bullish ? "Bullish Pin Bar" : "Bearish Pin Bar",
+    type: "candlestick",
+    direction: bullish ? "UP" : "DOWN",
+    confidence: clampConfidence(55 + (wick / candleRange - 0.6) * 50 + contextBonus),
+    startIndex: i,
+    endIndex: i,
+    description: bullish
+      ? "Long lower wick rejects lower prices"
+      : "Long upper wick rejects higher prices",
+  };
+}
+
+// An inside bar is a pause; it is read as continuation of the move that came before it
+function detectInsideBar(candles: Candle[], i: number): CandlePattern | null {
+  if (i < 1) return null;
+  const mother = candles[i - 1];
+  const curr = candles[i];
+  if (!(curr.high < mother.high && curr.low > mother.low)) return null;
+
+  const trend = priorTrend(candles, i - 1);
+  if (trend === "FLAT") return null;
+
+  return {
+    name: "Inside Bar",
+    type: "candlestick",
+    direction: trend,
+    confidence: clampConfidence(50 + (1 - range(curr) / range(mother)) * 15),
+    startIndex: i - 1,
+    endIndex: i,
+    description: `Consolidation inside the prior candle after a move ${trend === "UP" ? "up" : "down"}`,
+  };
+}
+
+function detectStar(candles: Candle[], i: number): CandlePattern | null {
+  if (i < 2) return null;
+  const first = candles[i - 2];
+  const middle = candles[i - 1];
+  const last = candles[i];
+  const firstBody = body(first);
+  if (firstBody === 0 || body(middle) > firstBody * 0.3) return null;
+
+  const firstMid = (first.open + first.close) / 2;
+  const morning = isBearish(first) && isBullish(last) && last.close > firstMid;
+  const evening = isBullish(first) && isBearish(last) && last.close < firstMid;
+  if (!morning && !evening) return null;
+
+  // Closing deeper into the first candle makes a stronger reversal
+  const penetration = Math.abs(last.close - firstMid) / firstBody;
+  const contextBonus = priorTrend(candles, i - 2) === (morning ? "DOWN" : "UP") ? 10 : 0;
+
+  return {
+    name: morning ? "Morning Star" : "Evening Star",
+    type: "candlestick",
+    direction: morning ? "UP" : "DOWN",
+    confidence: clampConfidence(65 + Math.min(penetration * 20, 10) + contextBonus),
+    startIndex: i - 2,
+    endIndex: i,
+    description: morning
+      ? "Three-candle bullish reversal after selling pressure"
+      : "Three-candle bearish reversal after buying pressure",
+  };
+}
+
+function detectCandlestickPatterns(candles: Candle[], recency: number): CandlePattern[] {
+  const patterns: CandlePattern[] = [];
+  const detectors = [detectEngulfing, detectPinBar, detectInsideBar, detectStar];
+
+  for (let i = Math.max(0, candles.length - recency); i < candles.length; i++) {
+    for (const detect of detectors) {
+      const pattern = detect(candles, i);
+      if (pattern) patterns.push(pattern);
+    }
+  }
+
+  return patterns;
+}
+
+function detectDoubleTopBottom(
+  candles: Candle[],
+  offset: number,
+  swings: { highs: number[]; lows: number[] },
+  atr: number,
+  recency: number
+): CandlePattern[] {
+  const patterns: CandlePattern[] = [];
+  const lastIndex = candles.length - 1;
+  const close = candles[lastIndex].close;
+
+  // Double top: two similar swing highs with a meaningful trough between them
+  if (swings.highs.length >= 2) {
+    const a = swings.highs[swings.highs.length - 2];
+    const b = swings.highs[swings.highs.length - 1];
+    const between = swings.lows.filter(l => l > a && l < b);
+    if (between.length > 0 && lastIndex - b <= recency) {
+      const neckline = Math.min(...between.map(l => candles[l].low));
+      const peak = Math.max(candles[a].high, candles[b].high);
+      const similar = Math.abs(candles[a].high - candles[b].high) <= atr * 0.5;
+      if (similar && peak - neckline >= atr) {
+        const confirmed = close < neckline;
+        patterns.push({
+          name: "Double Top",
+          type: "chart",
+          direction: "DOWN",
+          confidence: clampConfidence(confirmed ? 80 : 60),
+          startIndex: offset + a,
+          endIndex: offset + lastIndex,
+          description: confirmed
+            ? `Double top confirmed below neckline ${neckline.toPrecision(6)}`
+            : `Double top forming - neckline ${neckline.toPrecision(6)} not yet broken`,
+        });
+      }
+    }
+  }
+
+  // Double bottom: two similar swing lows with a meaningful peak between them
+  if (swings.lows.length >= 2) {
+    const a = swings.lows[swings.lows.length - 2];
+    const b = swings.lows[swings.lows.length - 1];
+    const between = swings.highs.filter(h => h > a && h < b);
+    if (between.length > 0 && lastIndex - b <= recency) {
+      const neckline = Math.max(...between.map(h => candles[h].high));
+      const trough = Math.min(candles[a].low, candles[b].low);
+      const similar = Math.abs(candles[a].low - candles[b].low) <= atr * 0.5;
+      if (similar && neckline - trough >= atr) {
+        const confirmed = close > neckline;
+        patterns.push({
+          name: "Double Bottom",
+          type: "chart",
+          direction: "UP",
+          confidence: clampConfidence(confirmed ? 80 : 60),
+          startIndex: offset + a,
+          endIndex: offset + lastIndex,
+          description: confirmed
+            ? `Double bottom confirmed above neckline ${neckline.toPrecision(6)}`
+            : `Double bottom forming - neckline ${neckline.toPrecision(6)} not yet broken`,
+        });
+      }
+    }
+  }
+
+  return patterns;
+}
+
+function detectHeadAndShoulders(
+  candles: Candle[],
+  offset: number,
+  swings: { highs: number[]; lows: number[] },
+  atr: number,
+  recency: number
+): CandlePattern[] {
+  const patterns: CandlePattern[] = [];
+  const lastIndex = candles.length - 1;
+  const close = candles[lastIndex].close;
+
+  if (swings.highs.length >= 3) {
+    const [left, head, right] = swings.highs.slice(-3);
+    const l = candles[left].high;
+    const h = candles[head].high;
+    const r = candles[right].high;
+    const troughs = swings.lows.filter(i => i > left && i < right);
+    if (
+      lastIndex - right <= recency &&
+      troughs.length > 0 &&
+      h - Math.max(l, r) >= atr * 0.5 &&
+      Math.abs(l - r) <= atr * 0.75
+    ) {
+      const neckline = Math.min(...troughs.map(i => candles[i].low));
+      const confirmed = close < neckline;
+      patterns.push({
+        name: "Head and Shoulders",
+        type: "chart",
+        direction: "DOWN",
+        confidence: clampConfidence(confirmed ? 85 : 65),
+        startIndex: offset + left,
+        endIndex: offset + lastIndex,
+        description: confirmed
+          ? `Head and shoulders confirmed below neckline ${neckline.toPrecision(6)}`
+          : `Head and shoulders forming - neckline ${neckline.toPrecision(6)} not yet broken`,
+      });
+    }
+  }
+
+  if (swings.lows.length >= 3) {
+    const [left, head, right] = swings.lows.slice(-3);
+    const l = candles[left].low;
+    const h = candles[head].low;
+    const r = candles[right].low;
+    const peaks = swings.highs.filter(i => i > left && i < right);
+    if (
+      lastIndex - right <= recency &&
+      peaks.length > 0 &&
+      Math.min(l, r) - h >= atr * 0.5 &&
+      Math.abs(l - r) <= atr * 0.75
+    ) {
+      const neckline = Math.max(...peaks.map(i => candles[i].high));
+      const confirmed = close > neckline;
+      patterns.push({
+        name: "Inverse Head and Shoulders",
+        type: "chart",
+        direction: "UP",
+        confidence: clampConfidence(confirmed ? 85 : 65),
+        startIndex: offset + left,
+        endIndex: offset + lastIndex,
+        description: confirmed
+          ? `Inverse head and shoulders confirmed above neckline ${neckline.toPrecision(6)}`
+          : `Inverse head and shoulders forming - neckline ${neckline.toPrecision(6)} not yet broken`,
+      });
+    }
+  }
+
+  return patterns;
+}
+
+/**
+ * Recent candlestick and chart patterns, strongest first.
+ */
+export function detectPatterns(
+  candles: Candle[],
+  options: PatternOptions = DEFAULT_PATTERN_OPTIONS
+): CandlePattern[] {
+  if (candles.length < 3) {
+    return [];
+  }
+
+  const patterns = detectCandlestickPatterns(candles, options.candlestickRecency);
+
+  const atr = calculateATR(candles, 14);
+  if (atr > 0 && candles.length > options.swingWindow * 2 + 2) {
+    const offset = Math.max(0, candles.length - options.chartLookback);
+    const window = candles.slice(offset);
+    const swings = findSwingPoints(window, options.swingWindow);
+
+    patterns.push(
+      ...detectDoubleTopBottom(window, offset, swings, atr, options.chartRecency),
+      ...detectHeadAndShoulders(window, offset, swings, atr, options.chartRecency)
+    );
+  }
+
+  return patterns.sort((a, b) => b.confidence - a.confidence);
+}
+
+export function describePattern(pattern: CandlePattern): string {
+  const span = pattern.startIndex === pattern.endIndex
+    ? `candle ${pattern.endIndex}`
+    : `candles ${pattern.startIndex}-${pattern.endIndex}`;
+  return `${pattern.name} (${pattern.confidence}% confidence, ${span}): ${pattern.description}`;
+}
@@ -0,0 +1,187 @@
+import { storage } from "../storage";
+import { fetchMarketData, timeframeToMinutes } from "../crypto-data";
+import type { Prediction } from "../ai-prediction";
+import { timeframes, type PredictionOutcome, type PredictionRecord, type Timeframe } from "@shared/schema";
+
+interface ResolutionResult {
+  outcome: PredictionOutcome;
+  exitPrice: number | null;
+}
+
+const DURATION_UNITS_MS: Record<string, number> = {
+  minute: 60 * 1000,
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Convert a prediction duration such as "1-2 hours" or "15 minutes" into milliseconds.
+ * Uses the upper bound of a range. Falls back to two candles of the entry timeframe
+ * when the duration cannot be parsed (Gemini occasionally returns free-form text).
+ */
+export function parseDurationMs(duration: string, timeframe: string): number {
+  const match = duration.match(/(\d+(?:\.\d+)?)(?:\s*-\s*(\d+(?:\.\d+)?))?\s*(min|minute|hr|hour|day|week)/i);
+
+  if (match) {
+    const amount = parseFloat(match[2] || match[1]);
+    const rawUnit = match[3].toLowerCase();
+    const unit = rawUnit === "min" ? "minute" : rawUnit === "hr" ? "hour" : rawUnit;
+    if (amount > 0) {
+      return amount * DURATION_UNITS_MS[unit];
+    }
+  }
+
+  return timeframeToMinutes(timeframe) * 2 * 60 * 1000;
+}
+
+/**
+ * Persist a prediction to the outcome ledger so it can be resolved once its duration expires.
+ */
+export async function trackPrediction(userId: string, prediction: Prediction, timeframe: string): Promise<void> {
+  if (prediction.entryPrice === undefined) {
+    console.warn(`[PredictionResolver] Prediction for ${prediction.pair} has no entry price, not tracking`);
+    return;
+  }
+
+  // A synthetic entry price would later be scored against real candles and skew the accuracy stats
+  if (prediction.marketDataSource === "synthetic") {
+    console.warn(`[PredictionResolver] Prediction for ${prediction.pair} used synthetic market data, not tracking`);
+    return;
+  }
+
+  const entryTimeframe: Timeframe = (timeframes as readonly string[]).includes(timeframe)
+    ? (timeframe as Timeframe)
+    : "M1";
+  const createdAt = Date.now();
+
+  await storage.recordPrediction({
+    id: `pred_${createdAt}_${Math.random().toString(36).substr(2, 9)}`,
+    userId,
+    pair: prediction.pair,
+    timeframe: entryTimeframe,
+    direction: prediction.direction,
+    confidence: prediction.confidence,
+    duration: prediction.duration,
+    entryPrice: prediction.entryPrice,
+    tradeTargets: prediction.tradeTargets || null,
+    expiresAt: new Date(createdAt + parseDurationMs(prediction.duration, entryTimeframe)),
+  });
+}
+
+/**
+ * Walk the candles between creation and expiry and report whichever level was touched first.
+ * When a single candle spans both the target and the stop we assume the stop filled first.
+ */
+function evaluateOutcome(
+  record: PredictionRecord,
+  candles: Array<{ timestamp: number; high: number; low: number; close: number }>,
+  currentPrice: number
+): ResolutionResult {
+  const intervalMs = timeframeToMinutes(record.timeframe) * 60 * 1000;
+  const createdAt = record.createdAt.getTime();
+  const expiresAt = record.expiresAt.getTime();
+
+  const windowCandles = candles
+    .filter(c => c.timestamp + intervalMs > createdAt && c.timestamp < expiresAt)
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  const lastClose = windowCandles.length > 0
+    ? windowCandles[windowCandles.length - 1].close
+    : currentPrice;
+
+  const targets = record.tradeTargets;
+  if (record.direction === "NEUTRAL" || !targets) {
+    return { outcome: "expired", exitPrice: lastClose };
+  }
+
+  for (const candle of windowCandles) {
+    if (record.direction === "UP") {
+      if (candle.low <= targets.stop) {
+        return { outcome: "stop_hit", exitPrice: targets.stop };
+      }
+      if (candle.high >= targets.target.low) {
+        return { outcome: "target_hit", exitPrice: targets.target.low };
+      }
+    } else {
+      if (candle.high >= targets.stop) {
+        return { outcome: "stop_hit", exitPrice: targets.stop };
+      }
+      if (candle.low <= targets.target.high) {
+        return { outcome: "target_hit", exitPrice: targets.target.high };
+      }
+    }
+  }
+
+  return { outcome: "expired", exitPrice: lastClose };
+}
+
+export async function resolveDuePredictions(): Promise<number> {
+  const due = await storage.getDuePredictions(new Date());
+  if (due.length === 0) {
+    return 0;
+  }
+
+  console.log(`[PredictionResolver] Resolving ${due.length} expired predictions`);
+
+  // One market data request per pair/timeframe combination
+  const groups = new Map<string, PredictionRecord[]>();
+  for (const record of due) {
+    const key = `${record.pair}|${record.timeframe}`;
+    const group = groups.get(key) || [];
+    group.push(record);
+    groups.set(key, group);
+  }
+
+  let resolved = 0;
+
+  for (const records of Array.from(groups.values())) {
+    const { pair, timeframe } = records[0];
+
+    try {
+      const marketData = await fetchMarketData(pair, timeframe);
+
+      // Synthetic candles are random; resolving against them would store a fake outcome for good
+      if (marketData.source === "synthetic") {
+        console.warn(`[PredictionResolver] No live market data for ${pair} ${timeframe}, retrying ${records.length} prediction(s) next poll`);
+        continue;
+      }
+
+      for (const record of records) {
+        const result = evaluateOutcome(record, marketData.candles, marketData.currentPrice);
+        await storage.resolvePrediction(record.id, result.outcome, result.exitPrice);
+        resolved++;
+      }
+    } catch (error) {
+      console.error(`[PredictionResolver] Error resolving predictions for ${pair} ${timeframe}:`, error);
+    }
+  }
+
+  console.log(`[PredictionResolver] Resolved ${resolved}/${due.length} predictions`);
+  return resolved;
+}
+
+let resolverIntervalId: NodeJS.Timeout | null = null;
+
+export function startPredictionResolverPolling(intervalMs: number = 60 * 1000): void {
+  if (resolverIntervalId) {
+    console.log("[PredictionResolver] Polling already running");
+    return;
+  }
+
+  console.log(`[PredictionResolver] Starting polling with interval ${intervalMs}ms`);
+
+  resolverIntervalId = setInterval(() => {
+    resolveDuePredictions().catch(err => {
+      console.error("[PredictionResolver] Scheduled resolve error:", err);
+    });
+  }, intervalMs);
+}
+
+export function stopPredictionResolverPolling(): void {
+  if (resolverIntervalId) {
+    clearInterval(resolverIntervalId);
+    resolverIntervalId = null;
+    console.log("[PredictionResolver] Polling stopped");
+  }
+}
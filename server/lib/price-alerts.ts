@@ -0,0 +1,188 @@
+import { storage } from "../storage";
+import { getCurrentPrice } from "../crypto-data";
+import { generateTransparentPrediction } from "../transparent-prediction";
+import type { Prediction } from "../ai-prediction";
+import { trackPrediction } from "./prediction-resolver";
+import { describeMarketStatus, getMarketStatus, MARKET_CLOSED_POLICY } from "./trading-sessions";
+import { isPairEnabled } from "./pair-catalog";
+import { sendPriceAlertNotification } from "./resend-email";
+import { type PriceAlert, type TradingPair } from "@shared/schema";
+
+/**
+ * Delivers a triggered alert to the user's open chat sockets.
+ * Returns true when at least one socket received it; otherwise the alert falls back to email.
+ */
+export type PriceAlertLiveDelivery = (alert: PriceAlert, prediction: Prediction | null) => boolean;
+
+export function isPriceAlertTriggered(alert: Pick<PriceAlert, "condition" | "targetPrice">, price: number): boolean {
+  return alert.condition === "above" ? price >= alert.targetPrice : price <= alert.targetPrice;
+}
+
+/**
+ * Run the headless analysis for a triggered alert, charging credits like the chat flow:
+ * the user needs a credit to start, and only UP/DOWN results are deducted.
+ */
+async function runAlertAnalysis(alert: PriceAlert): Promise<Prediction | null> {
+  const userCredits = await storage.getUserCredits(alert.userId);
+  if (!userCredits || (!userCredits.hasUnlimitedAccess && userCredits.credits <= 0)) {
+    console.log(`[PriceAlerts] ${alert.id}: user ${alert.userId} has no credits, skipping analysis`);
+    return null;
+  }
+
+  if (!isPairEnabled(alert.pair)) {
+    console.log(`[PriceAlerts] ${alert.id}: ${alert.pair} is disabled in the pair catalog, skipping analysis`);
+    return null;
+  }
+
+  const marketStatus = getMarketStatus(alert.pair);
+  if (MARKET_CLOSED_POLICY === "block" && !marketStatus.open) {
+    console.log(`[PriceAlerts] ${alert.id}: ${alert.pair} market ${describeMarketStatus(marketStatus)}, skipping analysis`);
+    return null;
+  }
+
+  const prediction = await generateTransparentPrediction(alert.pair, null, undefined, alert.timeframe, "instant");
+
+  // A result built from synthetic candles is noise; deliver the alert without charging for it
+  if (prediction.marketDataSource === "synthetic") {
+    console.warn(`[PriceAlerts] ${alert.id}: no live market data for ${alert.pair}, withholding analysis`);
+    return null;
+  }
+
+  if (prediction.direction !== "NEUTRAL" && !userCredits.hasUnlimitedAccess) {
+    const success = await storage.decrementUserCredits(alert.userId);
+    if (!success) {
+      console.warn(`[PriceAlerts] ${alert.id}: credit deduction failed, withholding analysis`);
+      return null;
+    }
+  }
+
+  trackPrediction(alert.userId, prediction, alert.timeframe).catch(err => {
+    console.error("[PriceAlerts] Error recording prediction outcome:", err);
+  });
+
+  await storage.setPriceAlertResult(alert.id, prediction.direction, prediction.confidence);
+  return prediction;
+}
+
+async function handleTriggeredAlert(alert: PriceAlert, price: number, deliverLive: PriceAlertLiveDelivery): Promise<void> {
+  // Claim the alert first so a slow analysis can't be triggered twice by the next poll
+  const claimed = await storage.markPriceAlertTriggered(alert.id, price);
+  if (!claimed) {
+    return;
+  }
+
+  const triggered: PriceAlert = { ...alert, status: "triggered", triggeredAt: new Date(), triggeredPrice: price };
+  console.log(`[PriceAlerts] ${alert.id}: ${alert.pair} ${alert.condition} ${alert.targetPrice} triggered at ${price}`);
+
+  let prediction: Prediction | null = null;
+  try {
+    prediction = await runAlertAnalysis(triggered);
+  } catch (error) {
+    console.error(`[PriceAlerts] ${alert.id}: analysis failed:`, error);
+  }
+
+  if (prediction) {
+    triggered.resultDirection = prediction.direction;
+    triggered.resultConfidence = prediction.confidence;
+  }
+
+  if (deliverLive(triggered, prediction)) {
+    return;
+  }
+
+  if (!alert.notifyEmail) {
+    console.log(`[PriceAlerts] ${alert.id}: user offline and no email configured`);
+    return;
+  }
+
+  await sendPriceAlertNotification({
+    to: alert.notifyEmail,
+    pair: alert.pair,
+    timeframe: alert.timeframe,
+    condition: alert.condition,
+    targetPrice: alert.targetPrice,
+    triggeredPrice: price,
+    direction: prediction?.direction,
+    confidence: prediction?.confidence,
+    summary: prediction?.analysis,
+    timestamp: new Date().toISOString(),
+  });
+}
+
+export async function checkPriceAlerts(deliverLive: PriceAlertLiveDelivery): Promise<number> {
+  const alerts = await storage.getActivePriceAlerts();
+  if (alerts.length === 0) {
+    return 0;
+  }
+
+  // One price request per pair
+  const byPair = new Map<TradingPair, PriceAlert[]>();
+  for (const alert of alerts) {
+    const group = byPair.get(alert.pair) || [];
+    group.push(alert);
+    byPair.set(alert.pair, group);
+  }
+
+  let triggered = 0;
+
+  for (const [pair, pairAlerts] of Array.from(byPair.entries())) {
+    let price: number;
+    try {
+      price = await getCurrentPrice(pair);
+    } catch (error) {
+      console.error(`[PriceAlerts] Could not fetch price for ${pair}:`, error);
+      continue;
+    }
+
+    for (const alert of pairAlerts) {
+      if (!isPriceAlertTriggered(alert, price)) {
+        continue;
+      }
+
+      try {
+        await handleTriggeredAlert(alert, price, deliverLive);
+        triggered++;
+      } catch (error) {
+        console.error(`[PriceAlerts] Error handling alert ${alert.id}:`, error);
+      }
+    }
+  }
+
+  return triggered;
+}
+
+let alertIntervalId: NodeJS.Timeout | null = null;
+let checkInProgress = false;
+
+export function startPriceAlertPolling(deliverLive: PriceAlertLiveDelivery, intervalMs: number = 30 * 1000): void {
+  if (alertIntervalId) {
+    console.log("[PriceAlerts] Polling already running");
+    return;
+  }
+
+  console.log(`[PriceAlerts] Starting polling with interval ${intervalMs}ms`);
+
+  alertIntervalId = setInterval(() => {
+    // Triggered alerts run a full analysis, which can outlast the interval
+    if (checkInProgress) {
+      return;
+    }
+
+    checkInProgress = true;
+    checkPriceAlerts(deliverLive)
+      .catch(err => {
+        console.error("[PriceAlerts] Scheduled check error:", err);
+      })
+      .finally(() => {
+        checkInProgress = false;
+      });
+  }, intervalMs);
+}
+
+export function stopPriceAlertPolling(): void {
+  if (alertIntervalId) {
+    clearInterval(alertIntervalId);
+    alertIntervalId = null;
+    console.log("[PriceAlerts] Polling stopped");
+  }
+}
@@ -34,6 +34,19 @@ interface WithdrawalRequestData {
   timestamp: string;
 }
 
+interface PriceAlertNotificationData {
+  to: string;
+  pair: string;
+  timeframe: string;
+  condition: "above" | "below";
+  targetPrice: number;
+  triggeredPrice: number;
+  direction?: "UP" | "DOWN" | "NEUTRAL";
+  confidence?: number;
+  summary?: string;
+  timestamp: string;
+}
+
 export async function sendWithdrawalRequestNotification(data: WithdrawalRequestData): Promise<boolean> {
   if (!resend || !notificationEmail || !fromEmail) {
     console.warn('[Resend] Withdrawal notification skipped - service not fully configured');
@@ -224,3 +237,98 @@ export async function sendUnlimitedAccessClickedNotification(data: UnlimitedAcce
     return false;
   }
 }
+
+export async function sendPriceAlertNotification(data: PriceAlertNotificationData): Promise<boolean> {
+  // Goes to the user's own address, so NOTIFICATION_EMAIL is not required here
+  if (!resend || !fromEmail) {
+    console.warn('[Resend] Price alert email skipped - service not fully configured');
+    return false;
+  }
+
+  try {
+    console.log(`[Resend] Sending price alert notification for ${data.pair}...`);
+
+    const directionColor = data.direction === "UP" ? "#10b981" : data.direction === "DOWN" ? "#ef4444" : "#6b7280";
+
+    const { data: emailData, error } = await resend.emails.send({
+      from: fromEmail,
+      to: data.to,
+      subject: `🔔 ${data.pair} crossed ${data.condition} ${data.targetPrice} - Signalix V2`,
+      html: `
+        <!DOCTYPE html>
+        <html>
+          <head>
+            <style>
+              body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+              .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+              .header { background: linear-gradient(135deg, #06b6d4 0%, #0e7490 100%); color: white; padding: 30px; border-radius: 10px 10px 0 0; text-align: center; }
+              .header h1 { margin: 0; font-size: 24px; }
+              .content { background: #f9fafb; padding: 30px; border-radius: 0 0 10px 10px; }
+              .info-box { background: white; padding: 20px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #06b6d4; }
+              .info-row { display: flex; margin: 10px 0; }
+              .info-label { font-weight: bold; width: 160px; color: #0e7490; }
+              .info-value { color: #333; }
+              .verdict { background: white; padding: 20px; border-radius: 8px; text-align: center; margin: 20px 0; border: 2px solid ${directionColor}; }
+              .verdict-value { font-size: 28px; font-weight: bold; color: ${directionColor}; margin: 10px 0; }
+              .footer { text-align: center; color: #6b7280; font-size: 14px; margin-top: 30px; }
+            </style>
+          </head>
+          <body>
+            <div class="container">
+              <div class="header">
+                <h1>🔔 Price Alert Triggered</h1>
+                <p style="margin: 10px 0 0 0; opacity: 0.9;">${data.pair} moved ${data.condition} ${data.targetPrice}</p>
+              </div>
+              <div class="content">
+                ${data.direction ? `
+                <div class="verdict">
+                  <div style="font-size: 14px; color: #6b7280;">${data.timeframe} Analysis</div>
+                  <div class="verdict-value">${data.direction}${data.confidence !== undefined ? ` · ${data.confidence}%` : ''}</div>
+                  ${data.summary ? `<p style="margin: 0; color: #333;">${data.summary}</p>` : ''}
+                </div>
+                ` : `
+                <p>The automatic analysis could not run (no credits remaining or the analysis failed). Open the app to run it manually.</p>
+                `}
+
+                <div class="info-box">
+                  <h3 style="margin-top: 0; color: #0e7490;">Alert Details</h3>
+                  <div class="info-row">
+                    <span class="info-label">Pair:</span>
+                    <span class="info-value">${data.pair}</span>
+                  </div>
+                  <div class="info-row">
+                    <span class="info-label">Condition:</span>
+                    <span class="info-value">Price ${data.condition} ${data.targetPrice}</span>
+                  </div>
+                  <div class="info-row">
+                    <span class="info-label">Triggered At Price:</span>
+                    <span class="info-value">${data.triggeredPrice}</span>
+                  </div>
+                  <div class="info-row">
+                    <span class="info-label">Time:</span>
+                    <span class="info-value">${new Date(data.timestamp).toLocaleString()}</span>
+                  </div>
+                </div>
+              </div>
+
+              <div class="footer">
+                <p>Signalix V2 - AI-Powered Crypto Predictions</p>
+              </div>
+            </div>
+          </body>
+        </html>
+      `,
+    });
+
+    if (error) {
+      console.error('[Resend] Failed to send price alert notification:', error);
+      return false;
+    }
+
+    console.log('[Resend] Price alert notification sent successfully:', emailData?.id);
+    return true;
+  } catch (error) {
+    console.error('[Resend] Error sending price alert notification:', error);
+    return false;
+  }
+}
@@ -0,0 +1,262 @@
+import { type TradeTargetIssue, type TradeTargets, type TradeTargetValidation } from "@shared/schema";
+
+/**
+ * Validation and repair of trade targets proposed by the decision model.
+ *
+ * Targets are checked against three rules: entry/target/stop ordering for the direction,
+ * a stop distance within ATR bounds, and a minimum risk/reward. Small problems are repaired in
+ * place; anything that cannot be trusted is replaced with ATR-based targets. Every repair and
+ * rejection is recorded so the UI can say when targets did not come from the model.
+ */
+
+export interface TradeTargetRules {
+  minRiskReward: number;
+  // Allowed stop distance from the entry midpoint, in ATR multiples
+  minStopAtr: number;
+  maxStopAtr: number;
+}
+
+export const DEFAULT_TRADE_TARGET_RULES: TradeTargetRules = {
+  minRiskReward: parseFloat(process.env.MIN_RISK_REWARD || "") || 1.5,
+  minStopAtr: 0.5,
+  maxStopAtr: 3,
+};
+
+export interface TradeTargetResult {
+  targets: TradeTargets;
+  validation: TradeTargetValidation;
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+// ATR can be 0 on short or flat series; keep a floor so targets never collapse onto the price
+function effectiveAtr(atr: number, currentPrice: number): number {
+  return Math.max(Math.abs(atr), Math.abs(currentPrice) * 0.002);
+}
+
+function midpoint(range: { low: number; high: number }): number {
+  return (range.low + range.high) / 2;
+}
+
+export function computeFallbackTradeTargets(
+  direction: "UP" | "DOWN",
+  currentPrice: number,
+  atr: number
+): TradeTargets {
+  const safeAtr = effectiveAtr(atr, currentPrice);
+  const entryBand = safeAtr * 0.25;
+
+  if (direction === "UP") {
+    const entryLow = currentPrice - entryBand;
+    const entryHigh = currentPrice + entryBand * 0.5;
+
+    return {
+      entry: { low: Math.min(entryLow, entryHigh), high: Math.max(entryLow, entryHigh) },
+      target: {
+        low: currentPrice + safeAtr * 1.5,
+        high: currentPrice + safeAtr * 2.4,
+      },
+      stop: entryLow - safeAtr * 1.05,
+    };
+  }
+
+  const entryLow = currentPrice - entryBand * 0.5;
+  const entryHigh = currentPrice + entryBand;
+
+  return {
+    entry: { low: Math.min(entryLow, entryHigh), high: Math.max(entryLow, entryHigh) },
+    target: {
+      low: currentPrice - safeAtr * 2.4,
+      high: currentPrice - safeAtr * 1.5,
+    },
+    stop: entryHigh + safeAtr * 1.05,
+  };
+}
+
+export function calculateRiskReward(targets: TradeTargets): number {
+  const entry = midpoint(targets.entry);
+  const risk = Math.abs(entry - targets.stop);
+  if (risk === 0) return 0;
+  return Math.abs(midpoint(targets.target) - entry) / risk;
+}
+
+function stopAtrMultiple(targets: TradeTargets, atr: number): number {
+  return Math.abs(midpoint(targets.entry) - targets.stop) / atr;
+}
+
+// Push the target band out until the risk/reward reaches the minimum, keeping its width
+function extendTargetToRiskReward(
+  targets: TradeTargets,
+  direction: "UP" | "DOWN",
+  minRiskReward: number
+): TradeTargets {
+  const entry = midpoint(targets.entry);
+  const risk = Math.abs(entry - targets.stop);
+  const halfWidth = (targets.target.high - targets.target.low) / 2;
+  const targetMid = direction === "UP" ? entry + risk * minRiskReward : entry - risk * minRiskReward;
+
+  return {
+    ...targets,
+    target: { low: targetMid - halfWidth, high: targetMid + halfWidth },
+  };
+}
+
+function synthesize(
+  direction: "UP" | "DOWN",
+  currentPrice: number,
+  atr: number,
+  rules: TradeTargetRules,
+  issues: TradeTargetIssue[]
+): TradeTargetResult {
+  let targets = computeFallbackTradeTargets(direction, currentPrice, atr);
+  const safeAtr = effectiveAtr(atr, currentPrice);
+
+  if (calculateRiskReward(targets) < rules.minRiskReward) {
+    targets = extendTargetToRiskReward(targets, direction, rules.minRiskReward);
+    issues.push({
+      rule: "risk_reward",
+      action: "repaired",
+      message: `Synthesized target extended to reach the ${rules.minRiskReward.toFixed(1)} minimum R:R`,
+    });
+  }
+
+  return {
+    targets,
+    validation: {
+      source: "synthesized",
+      issues,
+      riskReward: calculateRiskReward(targets),
+      minRiskReward: rules.minRiskReward,
+      stopAtrMultiple: stopAtrMultiple(targets, safeAtr),
+    },
+  };
+}
+
+/**
+ * Validate the model's trade targets for a directional call. Always returns usable targets:
+ * the model's own, a repaired version of them, or synthesized ATR-based ones.
+ */
+export function validateTradeTargets(
+  maybeTargets: unknown,
+  direction: "UP" | "DOWN",
+  currentPrice: number,
+  atr: number,
+  rules: TradeTargetRules = DEFAULT_TRADE_TARGET_RULES
+): TradeTargetResult {
+  const issues: TradeTargetIssue[] = [];
+  const safeAtr = effectiveAtr(atr, currentPrice);
+
+  // Rule 1: shape - every price must be present and finite
+  const t = maybeTargets as any;
+  if (!maybeTargets || typeof maybeTargets !== "object") {
+    issues.push({ rule: "shape", action: "rejected", message: "Model returned no trade targets" });
+    return synthesize(direction, currentPrice, atr, rules, issues);
+  }
+  if (
+    !t.entry ||
+    !t.target ||
+    !isFiniteNumber(t.stop) ||
+    !isFiniteNumber(t.entry.low) ||
+    !isFiniteNumber(t.entry.high) ||
+    !isFiniteNumber(t.target.low) ||
+    !isFiniteNumber(t.target.high)
+  ) {
+    issues.push({ rule: "shape", action: "rejected", message: "Model trade targets were incomplete or not numeric" });
+    return synthesize(direction, currentPrice, atr, rules, issues);
+  }
+
+  // Rule 2: ordering - entry, target and stop must sit on the correct sides for the direction
+  if (t.entry.low > t.entry.high || t.target.low > t.target.high) {
+    issues.push({ rule: "ordering", action: "repaired", message: "Range bounds were reversed and have been swapped" });
+  }
+  const entry = { low: Math.min(t.entry.low, t.entry.high), high: Math.max(t.entry.low, t.entry.high) };
+  const target = { low: Math.min(t.target.low, t.target.high), high: Math.max(t.target.low, t.target.high) };
+  let stop: number = t.stop;
+
+  if (direction === "UP") {
+    if (!(target.high > entry.high)) {
+      issues.push({ rule: "ordering", action: "rejected", message: "Target is not above the entry zone for an UP call" });
+      return synthesize(direction, currentPrice, atr, rules, issues);
+    }
+    if (target.low <= entry.high) {
+      target.low = entry.high;
+      issues.push({ rule: "ordering", action: "repaired", message: "Target zone overlapped the entry zone and was trimmed" });
+    }
+    if (!(stop < entry.low)) {
+      stop = entry.low - safeAtr * 1.05;
+      issues.push({ rule: "ordering", action: "repaired", message: "Stop was not below the entry zone and was reset from ATR" });
+    }
+  } else {
+    if (!(target.low < entry.low)) {
+      issues.push({ rule: "ordering", action: "rejected", message: "Target is not below the entry zone for a DOWN call" });
+      return synthesize(direction, currentPrice, atr, rules, issues);
+    }
+    if (target.high >= entry.low) {
+      target.high = entry.low;
+      issues.push({ rule: "ordering", action: "repaired", message: "Target zone overlapped the entry zone and was trimmed" });
+    }
+    if (!(stop > entry.high)) {
+      stop = entry.high + safeAtr * 1.05;
+      issues.push({ rule: "ordering", action: "repaired", message: "Stop was not above the entry zone and was reset from ATR" });
+    }
+  }
+
+  // Rule 3: stop distance - clamp to the allowed ATR band around the entry midpoint
+  const entryMid = midpoint(entry);
+  const stopMultiple = Math.abs(entryMid - stop) / safeAtr;
+  const side = direction === "UP" ? -1 : 1;
+  if (stopMultiple < rules.minStopAtr) {
+    stop = entryMid + side * safeAtr * rules.minStopAtr;
+    issues.push({
+      rule: "stop_distance",
+      action: "repaired",
+      message: `Stop was ${stopMultiple.toFixed(2)} ATR from entry - widened to ${rules.minStopAtr} ATR`,
+    });
+  } else if (stopMultiple > rules.maxStopAtr) {
+    stop = entryMid + side * safeAtr * rules.maxStopAtr;
+    issues.push({
+      rule: "stop_distance",
+      action: "repaired",
+      message: `Stop was ${stopMultiple.toFixed(2)} ATR from entry - tightened to ${rules.maxStopAtr} ATR`,
+    });
+  }
+
+  const targets: TradeTargets = { entry, target, stop };
+
+  // Rule 4: risk/reward - a setup that does not pay for its risk is not worth repairing
+  const riskReward = calculateRiskReward(targets);
+  if (riskReward < rules.minRiskReward) {
+    issues.push({
+      rule: "risk_reward",
+      action: "rejected",
+      message: `Model R:R ${riskReward.toFixed(2)} is below the ${rules.minRiskReward.toFixed(1)} minimum`,
+    });
+    return synthesize(direction, currentPrice, atr, rules, issues);
+  }
+
+  return {
+    targets,
+    validation: {
+      source: issues.length > 0 ? "repaired" : "model",
+      issues,
+      riskReward,
+      minRiskReward: rules.minRiskReward,
+      stopAtrMultiple: stopAtrMultiple(targets, safeAtr),
+    },
+  };
+}
+
+// One line for logs and key factors
+export function describeTradeTargetValidation(validation: TradeTargetValidation): string {
+  const rr = `R:R ${validation.riskReward.toFixed(2)}`;
+  if (validation.source === "model") {
+    return `Trade targets from model passed validation (${rr})`;
+  }
+  if (validation.source === "repaired") {
+    return `Trade targets from model repaired: ${validation.issues.length} fix(es) (${rr})`;
+  }
+  const rejection = validation.issues.find(i => i.action === "rejected");
+  return `Trade targets synthesized from ATR${rejection ? ` - ${rejection.message}` : ""} (${rr})`;
+}
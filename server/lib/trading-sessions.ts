@@ -0,0 +1,203 @@
+import { type PairCategory, type TradingPair } from "@shared/schema";
+import { timeframeToMinutes, type Candle } from "./market-data/provider";
+import { getPairCategory } from "./pair-catalog";
+
+/**
+ * Trading hours per instrument and the Asia / London / New York session clock.
+ *
+ * The schedule follows the pair's catalog category. Crypto trades around the clock. Spot forex
+ * runs from Sunday 17:00 to Friday 17:00 New York time. Commodities and indices (gold, Nasdaq)
+ * follow CME Globex: Sunday 18:00 to Friday 17:00 New York time, with a
+ * daily 17:00-18:00 maintenance break. Jan 1, Dec 25 and any MARKET_HOLIDAYS dates
+ * (YYYY-MM-DD, New York date) are closed for every non-crypto instrument.
+ */
+
+export type MarketSchedule = "continuous" | "forex" | "cme";
+export type MarketClosedReason = "weekend" | "daily_break" | "holiday";
+export type SessionName = "Asia" | "London" | "New York";
+
+export interface MarketStatus {
+  schedule: MarketSchedule;
+  open: boolean;
+  reason?: MarketClosedReason;
+  // Epoch ms of the next open, when closed
+  nextOpen?: number;
+}
+
+export interface SessionContext {
+  active: SessionName[];
+  // e.g. "London/New York overlap", "Asia", "Off-hours"
+  label: string;
+  liquidity: "high" | "normal" | "low";
+}
+
+export interface CandleGap {
+  // Timestamp of the last candle before and the first candle after the gap
+  from: number;
+  to: number;
+  missingBars: number;
+  // True when the market was closed during the gap, so no candles were expected
+  expected: boolean;
+}
+
+// "warn" keeps analysing closed markets and flags it; "block" refuses to start the analysis
+export const MARKET_CLOSED_POLICY: "warn" | "block" = process.env.MARKET_CLOSED_POLICY === "block" ? "block" : "warn";
+
+const CATEGORY_SCHEDULES: Record<PairCategory, MarketSchedule> = {
+  crypto: "continuous",
+  forex: "forex",
+  commodities: "cme",
+  indices: "cme",
+};
+
+// Sessions where the instrument's own market is active; liquidity is thinner outside them
+const PAIR_HOME_SESSIONS: Partial<Record<TradingPair, SessionName[]>> = {
+  "EUR/USD": ["London", "New York"],
+  "GBP/USD": ["London", "New York"],
+  "AUD/USD": ["Asia", "London"],
+  "XAU/USD": ["London", "New York"],
+  "US100/USD": ["New York"],
+};
+
+// Local opening hours [start, end) per session
+const SESSIONS: { name: SessionName; timeZone: string; start: number; end: number }[] = [
+  { name: "Asia", timeZone: "Asia/Tokyo", start: 9, end: 18 },
+  { name: "London", timeZone: "Europe/London", start: 8, end: 17 },
+  { name: "New York", timeZone: "America/New_York", start: 8, end: 17 },
+];
+
+const FIXED_HOLIDAYS = ["01-01", "12-25"];
+const EXTRA_HOLIDAYS = (process.env.MARKET_HOLIDAYS || "")
+  .split(",")
+  .map(d => d.trim())
+  .filter(d => /^\d{4}-\d{2}-\d{2}$/.test(d));
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+interface ZonedTime {
+  weekday: number;
+  hour: number;
+  minute: number;
+  date: string;
+}
+
+function zonedTime(timestamp: number, timeZone: string): ZonedTime {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      weekday: "short",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    });
+    formatters.set(timeZone, formatter);
+  }
+
+  const parts = Object.fromEntries(formatter.formatToParts(new Date(timestamp)).map(p => [p.type, p.value]));
+  return {
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+  };
+}
+
+export function getMarketSchedule(pair: TradingPair): MarketSchedule {
+  const category = getPairCategory(pair);
+  return category ? CATEGORY_SCHEDULES[category] : "continuous";
+}
+
+function closedReason(schedule: MarketSchedule, timestamp: number): MarketClosedReason | null {
+  if (schedule === "continuous") return null;
+
+  const ny = zonedTime(timestamp, "America/New_York");
+  if (FIXED_HOLIDAYS.includes(ny.date.slice(5)) || EXTRA_HOLIDAYS.includes(ny.date)) {
+    return "holiday";
+  }
+
+  // Sunday reopen: forex at 17:00, CME at 18:00
+  const reopenHour = schedule === "cme" ? 18 : 17;
+  if (ny.weekday === 6) return "weekend";
+  if (ny.weekday === 5 && ny.hour >= 17) return "weekend";
+  if (ny.weekday === 0 && ny.hour < reopenHour) return "weekend";
+
+  if (schedule === "cme" && ny.weekday >= 1 && ny.weekday <= 4 && ny.hour === 17) {
+    return "daily_break";
+  }
+
+  return null;
+}
+
+export function getMarketStatus(pair: TradingPair, at: number = Date.now()): MarketStatus {
+  const schedule = getMarketSchedule(pair);
+  const reason = closedReason(schedule, at);
+  if (!reason) {
+    return { schedule, open: true };
+  }
+
+  // Walk forward in 15 minute steps; every schedule reopens on a quarter hour
+  const step = 15 * 60 * 1000;
+  let probe = Math.ceil(at / step) * step;
+  const limit = at + 7 * 24 * 60 * 60 * 1000;
+  while (probe < limit && closedReason(schedule, probe)) {
+    probe += step;
+  }
+
+  return { schedule, open: false, reason, nextOpen: probe < limit ? probe : undefined };
+}
+
+export function getSessionContext(pair: TradingPair, at: number = Date.now()): SessionContext {
+  const active = SESSIONS
+    .filter(session => {
+      const local = zonedTime(at, session.timeZone);
+      return local.weekday >= 1 && local.weekday <= 5 && local.hour >= session.start && local.hour < session.end;
+    })
+    .map(session => session.name);
+
+  const label = active.length === 0
+    ? "Off-hours"
+    : active.length > 1 ? `${active.join("/")} overlap` : active[0];
+
+  const home = PAIR_HOME_SESSIONS[pair] ?? SESSIONS.map(s => s.name);
+  const inHome = active.some(name => home.includes(name));
+  const liquidity = inHome && active.length > 1 ? "high" : inHome ? "normal" : "low";
+
+  return { active, label, liquidity };
+}
+
+/**
+ * Gaps between consecutive candles longer than one bar. Gaps spanning a market close are
+ * expected; the rest are missing data from the provider.
+ */
+export function findCandleGaps(candles: Candle[], timeframe: string, pair: TradingPair): CandleGap[] {
+  const interval = timeframeToMinutes(timeframe) * 60 * 1000;
+  const schedule = getMarketSchedule(pair);
+  const gaps: CandleGap[] = [];
+
+  for (let i = 1; i < candles.length; i++) {
+    const from = candles[i - 1].timestamp;
+    const to = candles[i].timestamp;
+    const missingBars = Math.round((to - from) / interval) - 1;
+    if (missingBars < 1) continue;
+
+    const midpoint = from + (to - from) / 2;
+    gaps.push({ from, to, missingBars, expected: closedReason(schedule, midpoint) !== null });
+  }
+
+  return gaps;
+}
+
+// "closed (weekend), reopens Sun 22:00 UTC"
+export function describeMarketStatus(status: MarketStatus): string {
+  if (status.open) return "open";
+  const reason = status.reason === "daily_break" ? "daily break" : status.reason;
+  if (!status.nextOpen) return `closed (${reason})`;
+  const reopen = new Date(status.nextOpen);
+  const day = WEEKDAYS[reopen.getUTCDay()];
+  return `closed (${reason}), reopens ${day} ${reopen.toISOString().slice(11, 16)} UTC`;
+}
@@ -0,0 +1,166 @@
+import { storage } from "../storage";
+import { generateTransparentPrediction } from "../transparent-prediction";
+import { trackPrediction } from "./prediction-resolver";
+import { getMarketStatus, MARKET_CLOSED_POLICY } from "./trading-sessions";
+import { isPairEnabled } from "./pair-catalog";
+import { type Watchlist, type WatchlistHit, type WatchlistScan } from "@shared/schema";
+
+/**
+ * Run the headless pipeline over every pair/timeframe in a watchlist.
+ *
+ * Credits follow the chat rule: an entry needs a credit to start and only actionable
+ * (UP/DOWN) results are charged. When credits run out mid-scan the remaining entries
+ * are counted as skipped rather than analyzed, as are pairs disabled in the catalog,
+ * closed markets when MARKET_CLOSED_POLICY is "block" and entries with no live market data.
+ */
+export async function runWatchlistScan(watchlist: Watchlist): Promise<WatchlistScan> {
+  const startedAt = new Date();
+  const entries = watchlist.pairs.flatMap(pair => watchlist.timeframes.map(timeframe => ({ pair, timeframe })));
+
+  const hits: WatchlistHit[] = [];
+  let scanned = 0;
+  let neutral = 0;
+  let failed = 0;
+  let skipped = 0;
+  let creditsCharged = 0;
+
+  console.log(`[Watchlist] Scanning "${watchlist.name}" (${entries.length} entries) for user ${watchlist.userId}`);
+
+  for (let i = 0; i < entries.length; i++) {
+    const { pair, timeframe } = entries[i];
+
+    const userCredits = await storage.getUserCredits(watchlist.userId);
+    if (!userCredits || (!userCredits.hasUnlimitedAccess && userCredits.credits <= 0)) {
+      skipped += entries.length - i;
+      console.log(`[Watchlist] Out of credits, skipping ${entries.length - i} remaining entries`);
+      break;
+    }
+
+    if (!isPairEnabled(pair) || (MARKET_CLOSED_POLICY === "block" && !getMarketStatus(pair).open)) {
+      skipped++;
+      continue;
+    }
+
+    try {
+      const prediction = await generateTransparentPrediction(pair, null, undefined, timeframe, "instant");
+
+      // Synthetic candles mean every provider failed; don't charge for or report noise
+      if (prediction.marketDataSource === "synthetic") {
+        skipped++;
+        continue;
+      }
+
+      if (prediction.direction === "NEUTRAL") {
+        scanned++;
+        neutral++;
+        continue;
+      }
+
+      if (!userCredits.hasUnlimitedAccess) {
+        const success = await storage.decrementUserCredits(watchlist.userId);
+        if (!success) {
+          // Another session spent the last credit while this entry was running
+          skipped += entries.length - i;
+          break;
+        }
+        creditsCharged++;
+      }
+      scanned++;
+
+      trackPrediction(watchlist.userId, prediction, timeframe).catch(err => {
+        console.error("[Watchlist] Error recording prediction outcome:", err);
+      });
+
+      hits.push({
+        pair,
+        timeframe,
+        direction: prediction.direction,
+        confidence: prediction.confidence,
+        entryPrice: prediction.entryPrice ?? null,
+        tradeTargets: prediction.tradeTargets ?? null,
+      });
+    } catch (error) {
+      failed++;
+      console.error(`[Watchlist] Analysis failed for ${pair} ${timeframe}:`, error);
+    }
+  }
+
+  const scan: WatchlistScan = {
+    id: `scan_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    watchlistId: watchlist.id,
+    watchlistName: watchlist.name,
+    userId: watchlist.userId,
+    hits: hits.sort((a, b) => b.confidence - a.confidence),
+    scanned,
+    neutral,
+    failed,
+    skipped,
+    creditsCharged,
+    startedAt,
+    completedAt: new Date(),
+  };
+
+  await storage.recordWatchlistScan(scan);
+
+  console.log(`[Watchlist] "${watchlist.name}": ${hits.length} actionable, ${neutral} neutral, ${failed} failed, ${skipped} skipped`);
+  return scan;
+}
+
+export async function runDueWatchlistScans(): Promise<number> {
+  const now = new Date();
+  const due = await storage.getDueWatchlists(now);
+  let completed = 0;
+
+  for (const watchlist of due) {
+    const nextRunAt = new Date(now.getTime() + watchlist.intervalMinutes * 60 * 1000);
+    const claimed = await storage.claimWatchlistRun(watchlist.id, now, nextRunAt);
+    if (!claimed) {
+      continue;
+    }
+
+    try {
+      await runWatchlistScan(watchlist);
+      completed++;
+    } catch (error) {
+      console.error(`[Watchlist] Scan failed for ${watchlist.id}:`, error);
+    }
+  }
+
+  return completed;
+}
+
+let watchlistIntervalId: NodeJS.Timeout | null = null;
+let scanInProgress = false;
+
+export function startWatchlistScanPolling(intervalMs: number = 60 * 1000): void {
+  if (watchlistIntervalId) {
+    console.log("[Watchlist] Polling already running");
+    return;
+  }
+
+  console.log(`[Watchlist] Starting polling with interval ${intervalMs}ms`);
+
+  watchlistIntervalId = setInterval(() => {
+    // A scan over many pairs can outlast the interval
+    if (scanInProgress) {
+      return;
+    }
+
+    scanInProgress = true;
+    runDueWatchlistScans()
+      .catch(err => {
+        console.error("[Watchlist] Scheduled scan error:", err);
+      })
+      .finally(() => {
+        scanInProgress = false;
+      });
+  }, intervalMs);
+}
+
+export function stopWatchlistScanPolling(): void {
+  if (watchlistIntervalId) {
+    clearInterval(watchlistIntervalId);
+    watchlistIntervalId = null;
+    console.log("[Watchlist] Polling stopped");
+  }
+}
@@ -0,0 +1,332 @@
+import { createHash, randomBytes } from "crypto";
+import { SUBSCRIPTION_PRICE_CENTS, type WebhookEvent } from "@shared/schema";
+import { storage } from "../storage";
+import { whopSdk } from "./whop-sdk";
+import { isLifecycleEvent, processLifecycleEvent } from "./membership-lifecycle";
+import { quoteCommission } from "./commission-rules";
+
+/**
+ * Durable Whop webhook handling. Every delivery is stored raw (headers, body, signature
+ * validity) before anything is processed, keyed by an idempotency key so redeliveries map to the
+ * same event. Processing moves the event to processed, ignored or failed; failed events and
+ * events stuck in received (e.g. the server died mid-commission) can be replayed by an admin.
+ */
+
+export interface WebhookOutcome {
+  status: "processed" | "ignored";
+  reason?: string;
+}
+
+// Request headers that carry credentials and must not be persisted
+const REDACTED_HEADERS = ["authorization", "cookie", "x-whop-user-token"];
+
+export function storableHeaders(headers: Record<string, string | string[] | undefined>): Record<string, string> {
+  const stored: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    if (value === undefined || REDACTED_HEADERS.includes(name.toLowerCase())) continue;
+    stored[name] = Array.isArray(value) ? value.join(", ") : value;
+  }
+  return stored;
+}
+
+/**
+ * Whop signs with Standard Webhooks, whose webhook-id header is stable across retries.
+ * Unsigned payloads fall back to a hash of the body.
+ */
+export function webhookIdempotencyKey(headers: Record<string, string>, body: string): string {
+  if (headers["webhook-id"]) {
+    return `webhook:${headers["webhook-id"]}`;
+  }
+  return `body:${createHash("sha256").update(body).digest("hex")}`;
+}
+
+// Secret the admin webhook tester signs with. Development only: anyone holding it could otherwise
+// forge payments and memberships in production.
+const TEST_WEBHOOK_SECRET = process.env.NODE_ENV === "development" ? process.env.WHOP_WEBHOOK_TEST_SECRET : undefined;
+
+export interface VerifiedWebhook {
+  webhookData: any;
+  // Signed with WHOP_WEBHOOK_TEST_SECRET rather than the Whop webhook secret
+  testSigned: boolean;
+}
+
+/**
+ * Verify a signed delivery and parse it. Whop's secret is tried first, then (in development) the
+ * test secret, both through the SDK's Standard Webhooks check. Throws when no signature matches.
+ */
+export function unwrapSignedWebhook(body: string, headers: Record<string, string>): VerifiedWebhook {
+  if (!whopSdk) {
+    throw new Error("Whop SDK not configured");
+  }
+
+  try {
+    return { webhookData: whopSdk.webhooks.unwrap(body, { headers }), testSigned: false };
+  } catch (error) {
+    if (!TEST_WEBHOOK_SECRET) throw error;
+  }
+
+  // The SDK base64-encodes WHOP_WEBHOOK_SECRET the same way (see whop-sdk.ts)
+  const webhookData = whopSdk.webhooks.unwrap(body, { headers, key: btoa(TEST_WEBHOOK_SECRET) });
+  return { webhookData, testSigned: true };
+}
+
+export function newWebhookEventId(): string {
+  return `whevt_${Date.now()}_${randomBytes(4).toString("hex")}`;
+}
+
+// Whop uses "action" for test webhooks and "type" for real webhooks
+export function webhookEventType(webhookData: any): string | null {
+  return webhookData?.type || webhookData?.action || null;
+}
+
+/**
+ * Apply a webhook payload. Returns how it was handled; throws when it should be retried.
+ * Safe to run more than once for the same payment: access grants are idempotent and commissions
+ * use deterministic ids.
+ */
+export async function processWebhookPayload(webhookData: any): Promise<WebhookOutcome> {
+  // Whop uses "action" for test webhooks and "type" for real webhooks
+  const eventType = webhookData.type || webhookData.action;
+  console.log(`[Webhook] Processing ${eventType || "(missing type)"}${webhookData.data?.id ? ` ${webhookData.data.id}` : ""}`);
+
+  // Handle payment.succeeded event (support both "type" and "action" fields)
+  if (eventType === "payment.succeeded") {
+    const payment = webhookData.data;
+
+    // Skip if test webhook with no data
+    if (!payment || payment === null) {
+      console.log("[Webhook] Test webhook received with no payment data - skipping commission processing");
+      return { status: "ignored", reason: "Test webhook without payment data" };
+    }
+
+    // ================================================================
+    // MULTI-TENANT COMMISSION LOGIC
+    // ================================================================
+    // IMPORTANT: Each admin should ONLY receive commissions for THEIR OWN members
+    // This is a multi-tenant system - we must match the payment to the correct admin
+    // 
+    // Subscription Price: $35.00 (3500 cents) - FIXED PRICE
+    // Commission: per commission rules (default 50% = $17.50, 1750 cents)
+    // ================================================================
+
+    // Extract customer info for validation
+    const customerUserId = payment.user?.id;
+    const customerEmail = payment.user?.email;
+    const customerUsername = payment.user?.username;
+
+    // Validate required fields
+    if (!customerUserId) {
+      console.error(`[Webhook] ❌ Payment ${payment.id} has no customer user ID - cannot process`);
+      return { status: "ignored", reason: "Payment has no customer user ID" };
+    }
+
+    // ================================================================
+    // GRANT UNLIMITED ACCESS TO CUSTOMER (Whop Best Practice)
+    // ================================================================
+    try {
+      await storage.grantUnlimitedAccess(customerUserId);
+      console.log(`[Webhook] ✅ Unlimited access granted to customer: ${customerUserId}`);
+    } catch (error) {
+      console.error(`[Webhook] ❌ Failed to grant unlimited access to customer:`, error);
+      throw new Error("Failed to grant customer access");
+    }
+
+    // ================================================================
+    // FIND ADMIN FOR COMMISSION ATTRIBUTION FROM METADATA
+    // ================================================================
+    // MULTI-TENANT: The referring admin is stored in checkout metadata
+    // Multiple fallback strategies to ensure commission attribution
+    let admin = null;
+    let referringAdminUserId = payment.metadata?.referring_admin_user_id;
+    let referringCompanyId = payment.metadata?.referring_company_id;
+
+    // Method 1: Try metadata from checkout config
+    if (referringAdminUserId) {
+      admin = await storage.getAdminByUserId(referringAdminUserId);
+      if (admin) {
+        console.log(`[Webhook] ✓ Found referring admin from metadata: ${admin.userId}`);
+      } else {
+        console.warn(`[Webhook] ⚠️  Admin from metadata (${referringAdminUserId}) not found in database`);
+      }
+    }
+
+    // Method 2: Check if this user already exists as a stored member for an admin (direct lookup)
+    if (!admin) {
+      const existingMember = await storage.getStoredMemberByUserId(customerUserId);
+      if (existingMember) {
+        admin = await storage.getAdminByUserId(existingMember.adminUserId);
+        if (admin) {
+          referringAdminUserId = admin.userId;
+          referringCompanyId = existingMember.companyId;
+          console.log(`[Webhook] ✓ Found admin from existing member record: ${admin.userId}`);
+        }
+      }
+    }
+
+    // ================================================================
+    // STORE MEMBER FOR MULTI-TENANT TRACKING (ALWAYS - even if admin unknown)
+    // ================================================================
+    const planId = process.env.WHOP_PLAN_ID || "unknown";
+    const ownerCompanyId = process.env.WHOP_COMPANY_ID || "unknown";
+
+    try {
+      let userDetails: any = null;
+      if (whopSdk) {
+        try {
+          userDetails = await whopSdk.users.retrieve(customerUserId);
+        } catch (e) {
+          console.warn(`[Webhook] Could not fetch user details for ${customerUserId}`);
+        }
+      }
+
+      let profilePicUrl: string | null = null;
+      if (userDetails?.profile_picture) {
+        if (typeof userDetails.profile_picture === 'string') {
+          profilePicUrl = userDetails.profile_picture;
+        } else if (typeof userDetails.profile_picture === 'object') {
+          profilePicUrl = userDetails.profile_picture.url || userDetails.profile_picture.image_url || null;
+        }
+      }
+
+      // Use placeholder values if admin not found - allows future reconciliation
+      const memberAdminId = admin?.userId || "pending_attribution";
+      const memberCompanyId = referringCompanyId || ownerCompanyId;
+
+      const memberData = {
+        id: `member_${payment.id}_${Date.now()}`,
+        membershipId: payment.membership_id || `pay_${payment.id}`,
+        userId: customerUserId,
+        username: userDetails?.username || customerUsername || customerUserId,
+        name: userDetails?.name || null,
+        profilePictureUrl: profilePicUrl,
+        adminUserId: memberAdminId,
+        companyId: memberCompanyId,
+        productId: payment.product?.id || "unlimited_access",
+        productTitle: payment.product?.title || "Unlimited Access",
+        planId: planId,
+        status: "active" as const,
+        renewalPeriodStart: payment.renewal_period_start ? new Date(payment.renewal_period_start) : new Date(),
+        renewalPeriodEnd: payment.renewal_period_end ? new Date(payment.renewal_period_end) : null,
+        cancelAtPeriodEnd: false,
+        canceledAt: null,
+        cancellationReason: null,
+        commissionProcessed: admin !== null,
+      };
+
+      await storage.upsertStoredMember(memberData);
+      if (admin) {
+        console.log(`[Webhook] ✅ Member stored: ${customerUserId} attributed to admin ${admin.userId}`);
+      } else {
+        console.log(`[Webhook] ✅ Member stored with pending attribution: ${customerUserId}`);
+      }
+    } catch (error) {
+      console.error(`[Webhook] ⚠️ Failed to store member (non-critical):`, error);
+    }
+
+    // If no admin found, we've stored the member for future reconciliation but can't process commission
+    if (!admin) {
+      console.warn(`[Webhook] ⚠️  No referring admin found through any method`);
+      console.warn("[Webhook] Customer has unlimited access, member stored, but no commission will be recorded");
+      return { status: "processed", reason: "No referring admin - access granted without commission" };
+    }
+
+    // ================================================================
+    // IDEMPOTENCY CHECK - Must happen BEFORE commission processing
+    // ================================================================
+    // Check if this specific admin has already been credited for this payment
+    const alreadyProcessed = await storage.hasProcessedPayment(payment.id, admin.userId);
+    if (alreadyProcessed) {
+      console.log(`[Webhook] Payment ${payment.id} already processed for admin ${admin.userId}`);
+      console.log(`[Webhook] Customer access already granted, commission already recorded`);
+      return { status: "processed", reason: "Commission already recorded" };
+    }
+
+    // ================================================================
+    // FIXED PRICE ENFORCEMENT
+    // ================================================================
+    // Subscription Price: $35.00 = 3500 cents (ALWAYS)
+    // Commission: priced by the commission rule for the company and plan
+    // 
+    // SECURITY: We DO NOT trust the payment amount from the webhook payload
+    // Rules are always applied to the fixed price regardless of what Whop sends
+    // ================================================================
+
+    // Read incoming payment amount for logging only - DO NOT USE for commission calculation
+    const incomingPaymentAmount = (payment as any).final_amount || (payment as any).subtotal || (payment as any).amount || 0;
+
+    // Log if incoming amount differs from our fixed price (for debugging)
+    if (incomingPaymentAmount !== SUBSCRIPTION_PRICE_CENTS) {
+      console.warn(`[Webhook] ⚠️  Incoming payment amount ($${incomingPaymentAmount / 100}) doesn't match fixed price $35.00`);
+      console.warn(`[Webhook] ENFORCING fixed price - commission is calculated from $35.00 regardless of incoming amount`);
+    }
+
+    const quote = await quoteCommission(
+      admin.userId,
+      referringCompanyId || ownerCompanyId,
+      payment.plan_id || payment.plan?.id || planId,
+      SUBSCRIPTION_PRICE_CENTS,
+    );
+
+    console.log(`[Webhook] Incoming amount: $${incomingPaymentAmount / 100}, Enforced amount: $${SUBSCRIPTION_PRICE_CENTS / 100}`);
+    console.log(`[Webhook] Commission rule "${quote.rule.name}" (${quote.rule.id}, volume ${quote.volume}): $${quote.commissionAmount / 100}`);
+
+    // ================================================================
+    // COMMISSION TRACKING
+    // ================================================================
+    // Access was already granted above following Whop best practices
+
+    // Record commission payment with deterministic ID for idempotency
+    const commissionId = `comm_${payment.id}_${admin.userId}`;
+
+    try {
+      await storage.recordCommissionPayment({
+        id: commissionId,
+        paymentId: payment.id,
+        adminUserId: admin.userId,
+        amount: SUBSCRIPTION_PRICE_CENTS,      // FIXED: Always $35.00
+        commissionAmount: quote.commissionAmount,
+        commissionRuleId: quote.rule.id,
+        customerUserId: customerUserId,
+        customerEmail: customerEmail || null,
+      });
+
+      console.log(`[Webhook] ✓ Commission recorded: $${quote.commissionAmount / 100} for admin ${admin.userId}`);
+    } catch (error) {
+      console.error(`[Webhook] ❌ Failed to record commission for admin ${admin.userId}:`, error);
+      // Fail the event so Whop retries it, or an admin replays it
+      throw new Error("Failed to record commission");
+    }
+
+    // ================================================================
+    // SUCCESS - Commission tracked for admin
+    // ================================================================
+    console.log(`[Webhook] ✅ COMPLETE - Admin earned $${quote.commissionAmount / 100} commission`);
+    console.log(`[Webhook] ✓ Multi-tenant subscription processing successful!`);
+    return { status: "processed" };
+  }
+
+  if (isLifecycleEvent(eventType)) {
+    return processLifecycleEvent(eventType, webhookData.data);
+  }
+
+  return { status: "ignored", reason: `Unhandled event type ${eventType || "(missing)"}` };
+}
+
+/**
+ * Process a stored event and record the result on it. Used for fresh deliveries and replays.
+ */
+export async function runWebhookEvent(event: WebhookEvent): Promise<WebhookEvent["status"]> {
+  await storage.markWebhookAttempt(event.id);
+
+  try {
+    const outcome = await processWebhookPayload(JSON.parse(event.body));
+    await storage.updateWebhookEventStatus(event.id, outcome.status, outcome.reason ?? null);
+    console.log(`[Webhook] Event ${event.id} ${outcome.status}${outcome.reason ? ` (${outcome.reason})` : ""}`);
+    return outcome.status;
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    await storage.updateWebhookEventStatus(event.id, "failed", reason);
+    console.error(`[Webhook] Event ${event.id} failed: ${reason}`);
+    return "failed";
+  }
+}
@@ -2,16 +2,16 @@ import type { WebSocket } from "ws";
 import { type TradingPair } from "@shared/schema";
 import {
   fetchMarketData,
-  fetchCryptoNews
+  fetchNews
 } from "./crypto-data";
 import {
   analyzeMarket,
   type TechnicalIndicators
 } from "./technical-analysis";
 import {
-  getGeminiPrediction,
-  type GeminiPredictionDecision
-} from "./gemini-decision";
+  getTradingDecision,
+  type TradingDecision
+} from "./decision-engine";
 import {
   type WeightedSignal,
   type Prediction,
@@ -201,7 +201,7 @@ export async function generateProgressivePrediction(
     // FETCH REAL NEWS
     let headlines: any[] = [];
     try {
-      headlines = await fetchCryptoNews(pair, 50);
+      headlines = await fetchNews(pair, 50);
     } catch (e) {
       console.error("News fetch error:", e);
     }
@@ -283,7 +283,7 @@ export async function generateProgressivePrediction(
     await delay(1000);
 
     // Call Gemini for real
-    const geminiDecision = await getGeminiPrediction({
+    const aiDecision = await getTradingDecision({
       pair,
       currentPrice: marketData.currentPrice,
       priceChange24h: marketData.priceChange24h,
@@ -308,38 +308,38 @@ export async function generateProgressivePrediction(
     }, ws);
 
     sendStageUpdate(ws, "ai_thinking", 100, "complete", {
-      direction: geminiDecision?.direction || "NEUTRAL",
-      confidence: geminiDecision?.confidence || 0,
-      thinkingCaptured: !!geminiDecision?.thinkingProcess,
-      thinkingProcess: geminiDecision?.thinkingProcess || ""
+      direction: aiDecision?.direction || "NEUTRAL",
+      confidence: aiDecision?.confidence || 0,
+      thinkingCaptured: !!aiDecision?.thinkingProcess,
+      thinkingProcess: aiDecision?.thinkingProcess || ""
     });
     await delay(800);
 
     // Final Verdict
-    if (geminiDecision) {
+    if (aiDecision) {
       sendStageUpdate(ws, "final_verdict", 100, "complete", {
-        direction: geminiDecision.direction,
-        confidence: geminiDecision.confidence,
-        duration: geminiDecision.duration,
+        direction: aiDecision.direction,
+        confidence: aiDecision.confidence,
+        duration: aiDecision.duration,
         signalQuality: "HIGH",
-        tradeTargets: geminiDecision.tradeTargets,
-        keyFactors: geminiDecision.keyFactors,
-        riskFactors: geminiDecision.riskFactors,
+        tradeTargets: aiDecision.tradeTargets,
+        keyFactors: aiDecision.keyFactors,
+        riskFactors: aiDecision.riskFactors,
         qualityScore: 90,
-        explanation: geminiDecision.rationale // Passing rationale as explanation
+        explanation: aiDecision.rationale // Passing rationale as explanation
       });
 
       return {
         pair,
-        direction: geminiDecision.direction,
-        confidence: geminiDecision.confidence,
-        duration: geminiDecision.duration,
-        rationale: geminiDecision.rationale,
-        riskFactors: geminiDecision.riskFactors,
-        tradeTargets: geminiDecision.tradeTargets,
+        direction: aiDecision.direction,
+        confidence: aiDecision.confidence,
+        duration: aiDecision.duration,
+        rationale: aiDecision.rationale,
+        riskFactors: aiDecision.riskFactors,
+        tradeTargets: aiDecision.tradeTargets,
         detailedAnalysis: {
           qualityScore: 90,
-          thinkingProcess: geminiDecision.thinkingProcess,
+          thinkingProcess: aiDecision.thinkingProcess,
           // ... other fields as needed
         } as any
       };
@@ -0,0 +1,93 @@
+import { writeFile } from "fs/promises";
+import { loadCandleFixture } from "../lib/candle-fixture";
+import { runBacktest, DEFAULT_BACKTEST_OPTIONS, type BacktestOptions } from "../backtest";
+import { DEFAULT_VALIDATION_THRESHOLDS } from "../transparent-prediction";
+
+// Usage:
+//   npx tsx server/scripts/backtest.ts <fixture.json> [--step 5] [--horizon 10]
+//     [--min-confidence 80] [--override-confidence 85] [--min-adx 12] [--out report.json]
+
+function parseArgs(argv: string[]): { fixturePath?: string; flags: Record<string, string> } {
+    const flags: Record<string, string> = {};
+    let fixturePath: string | undefined;
+
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        if (arg.startsWith("--")) {
+            flags[arg.slice(2)] = argv[i + 1];
+            i++;
+        } else if (!fixturePath) {
+            fixturePath = arg;
+        }
+    }
+
+    return { fixturePath, flags };
+}
+
+function numberFlag(flags: Record<string, string>, name: string): number | undefined {
+    if (flags[name] === undefined) return undefined;
+    const value = Number(flags[name]);
+    if (!Number.isFinite(value)) {
+        throw new Error(`--${name} must be a number`);
+    }
+    return value;
+}
+
+async function run() {
+    const { fixturePath, flags } = parseArgs(process.argv.slice(2));
+
+    if (!fixturePath) {
+        console.error("Usage: npx tsx server/scripts/backtest.ts <fixture.json> [--step N] [--horizon N] [--min-confidence N] [--override-confidence N] [--min-adx N] [--out report.json]");
+        process.exit(1);
+    }
+
+    const options: BacktestOptions = {
+        ...DEFAULT_BACKTEST_OPTIONS,
+        step: numberFlag(flags, "step") ?? DEFAULT_BACKTEST_OPTIONS.step,
+        horizonBars: numberFlag(flags, "horizon"),
+        thresholds: {
+            ...DEFAULT_VALIDATION_THRESHOLDS,
+            minConfidence: numberFlag(flags, "min-confidence") ?? DEFAULT_VALIDATION_THRESHOLDS.minConfidence,
+            overrideConfidence: numberFlag(flags, "override-confidence") ?? DEFAULT_VALIDATION_THRESHOLDS.overrideConfidence,
+            minAdx: numberFlag(flags, "min-adx") ?? DEFAULT_VALIDATION_THRESHOLDS.minAdx,
+        },
+    };
+
+    const fixture = await loadCandleFixture(fixturePath);
+    console.log(`[Backtest] Loaded ${fixture.series.length} series from ${fixturePath}`);
+    console.log(`[Backtest] Thresholds: ${JSON.stringify(options.thresholds)}`);
+
+    const reports = runBacktest(fixture, options);
+
+    console.table(reports.map(r => ({
+        pair: r.pair,
+        timeframe: r.timeframe,
+        evaluated: r.evaluated,
+        trades: r.trades,
+        "win rate %": r.winRate,
+        "avg R": r.avgRMultiple,
+        "total R": r.totalR,
+        "max DD (R)": r.maxDrawdownR,
+        "neutral %": r.neutralRejectionRate,
+    })));
+
+    for (const report of reports) {
+        const reasons = Object.entries(report.rejectionReasons).sort((a, b) => b[1] - a[1]);
+        if (reasons.length === 0) continue;
+
+        console.log(`\n[Backtest] ${report.pair} ${report.timeframe} rejection reasons:`);
+        reasons.forEach(([reason, count]) => {
+            console.log(`  ${count.toString().padStart(6)}  ${reason}`);
+        });
+    }
+
+    if (flags.out) {
+        await writeFile(flags.out, JSON.stringify(reports, null, 2));
+        console.log(`\n[Backtest] Full report written to ${flags.out}`);
+    }
+}
+
+run().catch(error => {
+    console.error("[Backtest] Failed:", error);
+    process.exit(1);
+});
@@ -1,5 +1,6 @@
-import { UserCredits, AdminBalance, CommissionPayment, InsertCommissionPayment, Withdrawal, InsertWithdrawal, Admin, InsertAdmin, AdminAdjustment, InsertAdminAdjustment, ChatSessionWithMessages, Message, AnalysisStage, StoredMember, InsertStoredMember, MembershipStatus } from "@shared/schema";
-import { UserModel, CommissionPaymentModel, WithdrawalModel, AdminModel, AdminAdjustmentModel, ChatSessionModel, StoredMemberModel } from "./db";
+import { UserCredits, AdminBalance, CommissionPayment, InsertCommissionPayment, Withdrawal, InsertWithdrawal, Admin, InsertAdmin, AdminAdjustment, InsertAdminAdjustment, ChatSessionWithMessages, Message, AnalysisStage, StoredMember, InsertStoredMember, MembershipStatus, PredictionRecord, InsertPredictionRecord, PredictionOutcome, PredictionAccuracy, PredictionAccuracyBucket, Timeframe, TradingPair, UserPreferences, ApiKey, InsertApiKey, PriceAlert, InsertPriceAlert, PriceAlertCondition, PriceAlertStatus, Watchlist, InsertWatchlist, WatchlistScan, TradingPairConfig, PairCategory, PairProviderSymbols, LedgerEntry, InsertLedgerEntry, WebhookEvent, WebhookEventStatus, CommissionRule, CommissionRuleType, InsertCommissionRule } from "@shared/schema";
+import { UserModel, CommissionPaymentModel, WithdrawalModel, AdminModel, AdminAdjustmentModel, ChatSessionModel, StoredMemberModel, PredictionRecordModel, ApiKeyModel, PriceAlertModel, WatchlistModel, WatchlistScanModel, TradingPairModel, LedgerEntryModel, WebhookEventModel, CommissionRuleModel } from "./db";
+import { adminCommissionAccount, buildLedgerEntry, newLedgerEntryId, userCreditAccount } from "./lib/ledger/accounts";
 
 export interface IStorage {
   getUserCredits(userId: string): Promise<UserCredits | undefined>;
@@ -9,6 +10,8 @@ export interface IStorage {
   grantUnlimitedAccess(userId: string): Promise<void>;
   revokeUnlimitedAccess(userId: string): Promise<void>;
   upsertUser(userData: { id: string; username: string; name: string; profilePictureUrl?: string | null }): Promise<void>;
+  getUserPreferences(userId: string): Promise<UserPreferences>;
+  updateUserPreferences(userId: string, preferences: Partial<UserPreferences>): Promise<void>;
   
   registerAdmin(userId: string, companyId?: string): Promise<void>;
   removeAdmin(userId: string, companyId: string): Promise<void>;
@@ -21,6 +24,7 @@ export interface IStorage {
   getAdminAdjustments(targetAdminUserId: string, limit?: number): Promise<AdminAdjustment[]>;
   
   recordCommissionPayment(payment: InsertCommissionPayment): Promise<void>;
+  refundCommissionPayments(paymentId: string, reason: string): Promise<CommissionPayment[]>;
   getAdminBalance(adminUserId: string): Promise<AdminBalance>;
   getCommissionPayments(adminUserId: string, limit?: number): Promise<CommissionPayment[]>;
   getAllCommissionPayments(limit?: number): Promise<CommissionPayment[]>;
@@ -46,6 +50,63 @@ export interface IStorage {
   markMemberCommissionProcessed(membershipId: string): Promise<void>;
   getMembersAwaitingCommission(adminUserId: string): Promise<StoredMember[]>;
   getAllStoredMembers(limit?: number): Promise<StoredMember[]>;
+
+  recordPrediction(record: InsertPredictionRecord): Promise<void>;
+  getDuePredictions(now: Date, limit?: number): Promise<PredictionRecord[]>;
+  resolvePrediction(id: string, outcome: PredictionOutcome, exitPrice: number | null): Promise<void>;
+  getUserPredictions(userId: string, limit?: number): Promise<PredictionRecord[]>;
+  getPredictionAccuracy(): Promise<PredictionAccuracy>;
+
+  // API keys
+  createApiKey(apiKey: InsertApiKey): Promise<ApiKey>;
+  getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined>;
+  getUserApiKeys(userId: string): Promise<ApiKey[]>;
+  revokeApiKey(userId: string, id: string): Promise<boolean>;
+  touchApiKey(id: string): Promise<void>;
+
+  // Price alerts
+  createPriceAlert(alert: InsertPriceAlert): Promise<PriceAlert>;
+  getUserPriceAlerts(userId: string): Promise<PriceAlert[]>;
+  getActivePriceAlerts(): Promise<PriceAlert[]>;
+  cancelPriceAlert(userId: string, id: string): Promise<boolean>;
+  markPriceAlertTriggered(id: string, triggeredPrice: number): Promise<boolean>;
+  setPriceAlertResult(id: string, direction: "UP" | "DOWN" | "NEUTRAL", confidence: number): Promise<void>;
+
+  // Watchlists
+  createWatchlist(watchlist: InsertWatchlist): Promise<Watchlist>;
+  getUserWatchlists(userId: string): Promise<Watchlist[]>;
+  getWatchlist(id: string): Promise<Watchlist | undefined>;
+  updateWatchlist(userId: string, id: string, updates: Partial<Pick<Watchlist, "name" | "pairs" | "timeframes" | "intervalMinutes" | "enabled" | "nextRunAt">>): Promise<boolean>;
+  deleteWatchlist(userId: string, id: string): Promise<boolean>;
+  getDueWatchlists(now: Date, limit?: number): Promise<Watchlist[]>;
+  claimWatchlistRun(id: string, now: Date, nextRunAt: Date): Promise<boolean>;
+  recordWatchlistScan(scan: WatchlistScan): Promise<void>;
+  getUserWatchlistScans(userId: string, limit?: number): Promise<WatchlistScan[]>;
+
+  // Trading pair catalog
+  getTradingPairs(): Promise<TradingPairConfig[]>;
+  createTradingPair(pair: Omit<TradingPairConfig, "createdAt" | "updatedAt">): Promise<TradingPairConfig>;
+  updateTradingPair(symbol: string, updates: Partial<Pick<TradingPairConfig, "category" | "providerSymbols" | "providerOrder" | "decimals" | "minTick" | "enabled">>): Promise<TradingPairConfig | undefined>;
+
+  // Ledger
+  appendLedgerEntry(entry: InsertLedgerEntry | null): Promise<void>;
+  getLedgerEntries(account: string, limit?: number): Promise<LedgerEntry[]>;
+  getLedgerBalances(): Promise<Record<string, number>>;
+  getAllUserCredits(): Promise<UserCredits[]>;
+
+  // Webhook events
+  recordWebhookEvent(event: Pick<WebhookEvent, "id" | "idempotencyKey" | "eventType" | "headers" | "body" | "signatureValid" | "status" | "statusReason">): Promise<{ isNew: boolean; event: WebhookEvent }>;
+  getWebhookEvent(id: string): Promise<WebhookEvent | undefined>;
+  getWebhookEvents(status?: WebhookEventStatus, limit?: number): Promise<WebhookEvent[]>;
+  markWebhookAttempt(id: string): Promise<void>;
+  updateWebhookEventStatus(id: string, status: WebhookEventStatus, statusReason?: string | null): Promise<void>;
+
+  // Commission rules
+  getCommissionRules(): Promise<CommissionRule[]>;
+  getCommissionRule(id: string): Promise<CommissionRule | undefined>;
+  createCommissionRule(rule: InsertCommissionRule): Promise<CommissionRule>;
+  updateCommissionRule(id: string, updates: Partial<InsertCommissionRule>): Promise<CommissionRule | undefined>;
+  countCommissionedPayments(adminUserId: string, since: Date): Promise<number>;
 }
 
 export class MongoStorage implements IStorage {
@@ -62,7 +123,7 @@ export class MongoStorage implements IStorage {
   }
 
   async setUserCredits(userId: string, credits: number): Promise<void> {
-    await UserModel.findOneAndUpdate(
+    const previous = await UserModel.findOneAndUpdate(
       { id: userId },
       { 
         $set: { credits, updatedAt: new Date() },
@@ -72,8 +133,32 @@ export class MongoStorage implements IStorage {
           profilePictureUrl: null,
         }
       },
-      { upsert: true, new: true }
+      { upsert: true, new: false }
     );
+
+    // New users get their starting credits as a grant; changes to existing wallets are adjustments
+    await this.appendLedgerEntry(buildLedgerEntry(
+      newLedgerEntryId(previous ? "adjustment" : "grant"),
+      previous ? "adjustment" : "grant",
+      userCreditAccount(userId),
+      credits - (previous?.credits ?? 0),
+    ));
+  }
+
+  // Upserts that create a user start them on the schema's default credits; record those as a grant
+  private async recordSignupGrant(result: { value: { id: string; credits: number } | null; lastErrorObject?: { updatedExisting?: boolean } }): Promise<void> {
+    if (!result.value || result.lastErrorObject?.updatedExisting !== false) {
+      return;
+    }
+
+    await this.appendLedgerEntry(buildLedgerEntry(
+      `ledger_grant_signup_${result.value.id}`,
+      "grant",
+      userCreditAccount(result.value.id),
+      result.value.credits,
+      null,
+      "Starting credits",
+    ));
   }
 
   async decrementUserCredits(userId: string): Promise<boolean> {
@@ -95,6 +180,7 @@ export class MongoStorage implements IStorage {
     user.credits -= 1;
     user.updatedAt = new Date();
     await user.save();
+    await this.appendLedgerEntry(buildLedgerEntry(newLedgerEntryId("spend"), "spend", userCreditAccount(userId), -1));
     return true;
   }
 
@@ -112,10 +198,11 @@ export class MongoStorage implements IStorage {
         credits: amount,
       });
     }
+    await this.appendLedgerEntry(buildLedgerEntry(newLedgerEntryId("grant"), "grant", userCreditAccount(userId), amount));
   }
 
   async grantUnlimitedAccess(userId: string): Promise<void> {
-    await UserModel.findOneAndUpdate(
+    const result = await UserModel.findOneAndUpdate(
       { id: userId },
       { 
         $set: { 
@@ -123,12 +210,13 @@ export class MongoStorage implements IStorage {
           updatedAt: new Date() 
         }
       },
-      { upsert: true, new: true }
+      { upsert: true, new: true, includeResultMetadata: true }
     );
+    await this.recordSignupGrant(result);
   }
 
   async revokeUnlimitedAccess(userId: string): Promise<void> {
-    await UserModel.findOneAndUpdate(
+    const result = await UserModel.findOneAndUpdate(
       { id: userId },
       { 
         $set: { 
@@ -136,8 +224,9 @@ export class MongoStorage implements IStorage {
           updatedAt: new Date() 
         }
       },
-      { upsert: true, new: true }
+      { upsert: true, new: true, includeResultMetadata: true }
     );
+    await this.recordSignupGrant(result);
   }
 
   async upsertUser(userData: { 
@@ -146,7 +235,7 @@ export class MongoStorage implements IStorage {
     name: string; 
     profilePictureUrl?: string | null 
   }): Promise<void> {
-    await UserModel.findOneAndUpdate(
+    const result = await UserModel.findOneAndUpdate(
       { id: userData.id },
       {
         username: userData.username,
@@ -154,8 +243,32 @@ export class MongoStorage implements IStorage {
         profilePictureUrl: userData.profilePictureUrl,
         updatedAt: new Date(),
       },
-      { upsert: true, new: true, setDefaultsOnInsert: true }
+      { upsert: true, new: true, setDefaultsOnInsert: true, includeResultMetadata: true }
+    );
+    await this.recordSignupGrant(result);
+  }
+
+  async getUserPreferences(userId: string): Promise<UserPreferences> {
+    const user = await UserModel.findOne({ id: userId }).lean();
+    return {
+      pacing: (user?.pacing as UserPreferences["pacing"]) || "cinematic",
+    };
+  }
+
+  async updateUserPreferences(userId: string, preferences: Partial<UserPreferences>): Promise<void> {
+    const result = await UserModel.findOneAndUpdate(
+      { id: userId },
+      {
+        $set: { ...preferences, updatedAt: new Date() },
+        $setOnInsert: {
+          username: userId,
+          name: userId,
+          profilePictureUrl: null,
+        }
+      },
+      { upsert: true, new: true, setDefaultsOnInsert: true, includeResultMetadata: true }
     );
+    await this.recordSignupGrant(result);
   }
 
   async registerAdmin(userId: string, companyId?: string): Promise<void> {
@@ -262,8 +375,9 @@ export class MongoStorage implements IStorage {
     const balanceAfter = await this.getAdminBalance(userId);
     
     // Record the adjustment in audit log
+    const adjustmentId = `adj_${Date.now()}_${userId}`;
     await this.recordAdminAdjustment({
-      id: `adj_${Date.now()}_${userId}`,
+      id: adjustmentId,
       performedBy,
       targetAdminUserId: userId,
       amount,
@@ -271,6 +385,14 @@ export class MongoStorage implements IStorage {
       balanceBefore: balanceBefore.balance,
       balanceAfter: balanceAfter.balance,
     });
+    await this.appendLedgerEntry(buildLedgerEntry(
+      `ledger_${adjustmentId}`,
+      "adjustment",
+      adminCommissionAccount(userId),
+      amount,
+      adjustmentId,
+      reason || null,
+    ));
   }
 
   async recordAdminAdjustment(adjustment: InsertAdminAdjustment): Promise<void> {
@@ -297,17 +419,72 @@ export class MongoStorage implements IStorage {
   }
 
   async recordCommissionPayment(payment: InsertCommissionPayment): Promise<void> {
+    let recorded: Pick<InsertCommissionPayment, "adminUserId" | "commissionAmount" | "paymentId"> = payment;
+
     try {
       await CommissionPaymentModel.create(payment);
     } catch (error: any) {
-      // If duplicate key error (code 11000), this payment was already processed - silently succeed
-      if (error.code === 11000) {
-        console.log(`[Storage] Commission ${payment.id} already recorded, skipping`);
+      // Re-throw anything but a duplicate key error (code 11000)
+      if (error.code !== 11000) {
+        throw error;
+      }
+
+      // Already processed, but a crash may have cut off its ledger entry. The append below is
+      // idempotent, so post it again from the stored commission rather than this attempt's quote.
+      console.log(`[Storage] Commission ${payment.id} already recorded, checking its ledger entry`);
+      const existing = await CommissionPaymentModel.findOne({ id: payment.id }).lean();
+      if (!existing) {
         return;
       }
-      // Re-throw other errors
-      throw error;
+      recorded = existing;
     }
+
+    await this.appendLedgerEntry(buildLedgerEntry(
+      `ledger_${payment.id}`,
+      "commission",
+      adminCommissionAccount(recorded.adminUserId),
+      recorded.commissionAmount,
+      recorded.paymentId,
+    ));
+  }
+
+  async refundCommissionPayments(paymentId: string, reason: string): Promise<CommissionPayment[]> {
+    const refunded: CommissionPayment[] = [];
+    const payments = await CommissionPaymentModel.find({ paymentId, refundedAt: null }).lean();
+
+    for (const p of payments) {
+      // Conditional update so concurrent refund and dispute events claw back only once
+      const updated = await CommissionPaymentModel.findOneAndUpdate(
+        { id: p.id, refundedAt: null },
+        { $set: { refundedAt: new Date() } },
+        { new: true }
+      ).lean();
+      if (!updated) continue;
+
+      await this.appendLedgerEntry(buildLedgerEntry(
+        `ledger_refund_${p.id}`,
+        "refund",
+        adminCommissionAccount(p.adminUserId),
+        -p.commissionAmount,
+        paymentId,
+        reason,
+      ));
+
+      refunded.push({
+        id: updated.id,
+        paymentId: updated.paymentId,
+        adminUserId: updated.adminUserId,
+        amount: updated.amount,
+        commissionAmount: updated.commissionAmount,
+        customerUserId: updated.customerUserId || null,
+        customerEmail: updated.customerEmail || null,
+        commissionRuleId: updated.commissionRuleId || null,
+        refundedAt: updated.refundedAt || null,
+        createdAt: updated.createdAt,
+      });
+    }
+
+    return refunded;
   }
 
   async hasProcessedPayment(paymentId: string, adminUserId?: string): Promise<boolean> {
@@ -327,7 +504,8 @@ export class MongoStorage implements IStorage {
       status: 'completed' 
     });
     
-    const totalEarned = payments.reduce((sum, p) => sum + p.commissionAmount, 0);
+    // Refunded payments stay on record but their commission has been clawed back
+    const totalEarned = payments.reduce((sum, p) => sum + (p.refundedAt ? 0 : p.commissionAmount), 0);
     const totalWithdrawn = withdrawals.reduce((sum, w) => sum + w.amount, 0);
     const manualAdjustment = admin?.manualBalanceAdjustment || 0;
     const balance = totalEarned - totalWithdrawn + manualAdjustment;
@@ -355,6 +533,8 @@ export class MongoStorage implements IStorage {
       commissionAmount: p.commissionAmount,
       customerUserId: p.customerUserId || null,
       customerEmail: p.customerEmail || null,
+      commissionRuleId: p.commissionRuleId || null,
+      refundedAt: p.refundedAt || null,
       createdAt: p.createdAt,
     }));
   }
@@ -374,6 +554,8 @@ export class MongoStorage implements IStorage {
       commissionAmount: p.commissionAmount,
       customerUserId: p.customerUserId || null,
       customerEmail: p.customerEmail || null,
+      commissionRuleId: p.commissionRuleId || null,
+      refundedAt: p.refundedAt || null,
       createdAt: p.createdAt,
     }));
   }
@@ -383,7 +565,7 @@ export class MongoStorage implements IStorage {
     const allWithdrawals = await WithdrawalModel.find({ status: 'completed' });
     const allAdmins = await AdminModel.find({});
     
-    const totalEarned = allPayments.reduce((sum, p) => sum + p.commissionAmount, 0);
+    const totalEarned = allPayments.reduce((sum, p) => sum + (p.refundedAt ? 0 : p.commissionAmount), 0);
     const totalWithdrawn = allWithdrawals.reduce((sum, w) => sum + w.amount, 0);
     const totalManualAdjustments = allAdmins.reduce((sum, a) => sum + (a.manualBalanceAdjustment || 0), 0);
     const balance = totalEarned - totalWithdrawn + totalManualAdjustments;
@@ -398,6 +580,17 @@ export class MongoStorage implements IStorage {
 
   async recordWithdrawal(withdrawal: InsertWithdrawal): Promise<void> {
     await WithdrawalModel.create(withdrawal);
+
+    // Only completed withdrawals reduce the balance
+    if (withdrawal.status === "completed") {
+      await this.appendLedgerEntry(buildLedgerEntry(
+        `ledger_${withdrawal.id}`,
+        "withdrawal",
+        adminCommissionAccount(withdrawal.adminUserId),
+        -withdrawal.amount,
+        withdrawal.id,
+      ));
+    }
   }
 
   async updateWithdrawalStatus(id: string, status: string, transferId?: string): Promise<void> {
@@ -405,7 +598,24 @@ export class MongoStorage implements IStorage {
     if (transferId) {
       update.transferId = transferId;
     }
-    await WithdrawalModel.findOneAndUpdate({ id }, update);
+    const previous = await WithdrawalModel.findOneAndUpdate({ id }, update);
+    if (!previous) {
+      return;
+    }
+
+    // Moving into or out of "completed" takes the amount out of, or returns it to, the balance
+    const wasCompleted = previous.status === "completed";
+    const isCompleted = status === "completed";
+    if (wasCompleted !== isCompleted) {
+      await this.appendLedgerEntry(buildLedgerEntry(
+        `ledger_${id}_${status}_${Date.now()}`,
+        "withdrawal",
+        adminCommissionAccount(previous.adminUserId),
+        isCompleted ? -previous.amount : previous.amount,
+        id,
+        `Status ${previous.status} -> ${status}`,
+      ));
+    }
   }
 
   async getWithdrawals(adminUserId: string, limit: number = 50): Promise<Withdrawal[]> {
@@ -760,6 +970,658 @@ export class MongoStorage implements IStorage {
       updatedAt: m.updatedAt,
     }));
   }
+
+  async recordPrediction(record: InsertPredictionRecord): Promise<void> {
+    try {
+      await PredictionRecordModel.create({
+        ...record,
+        outcome: 'pending',
+        exitPrice: null,
+        resolvedAt: null,
+        createdAt: new Date(),
+      });
+    } catch (error: any) {
+      // Duplicate key error (code 11000) means this prediction was already recorded
+      if (error.code === 11000) {
+        console.log(`[Storage] Prediction ${record.id} already recorded, skipping`);
+        return;
+      }
+      throw error;
+    }
+  }
+
+  async getDuePredictions(now: Date, limit: number = 100): Promise<PredictionRecord[]> {
+    const records = await PredictionRecordModel
+      .find({ outcome: 'pending', expiresAt: { $lte: now } })
+      .sort({ expiresAt: 1 })
+      .limit(limit)
+      .lean();
+
+    return records.map(r => ({
+      id: r.id,
+      userId: r.userId,
+      pair: r.pair as TradingPair,
+      timeframe: r.timeframe as Timeframe,
+      direction: r.direction as PredictionRecord["direction"],
+      confidence: r.confidence,
+      duration: r.duration,
+      entryPrice: r.entryPrice,
+      tradeTargets: r.tradeTargets || null,
+      expiresAt: r.expiresAt,
+      outcome: r.outcome as PredictionOutcome,
+      exitPrice: r.exitPrice ?? null,
+      resolvedAt: r.resolvedAt || null,
+      createdAt: r.createdAt,
+    }));
+  }
+
+  async resolvePrediction(id: string, outcome: PredictionOutcome, exitPrice: number | null): Promise<void> {
+    await PredictionRecordModel.findOneAndUpdate(
+      { id, outcome: 'pending' },
+      { $set: { outcome, exitPrice, resolvedAt: new Date() } }
+    );
+  }
+
+  async getUserPredictions(userId: string, limit: number = 50): Promise<PredictionRecord[]> {
+    const records = await PredictionRecordModel
+      .find({ userId })
+      .sort({ createdAt: -1 })
+      .limit(limit)
+      .lean();
+
+    return records.map(r => ({
+      id: r.id,
+      userId: r.userId,
+      pair: r.pair as TradingPair,
+      timeframe: r.timeframe as Timeframe,
+      direction: r.direction as PredictionRecord["direction"],
+      confidence: r.confidence,
+      duration: r.duration,
+      entryPrice: r.entryPrice,
+      tradeTargets: r.tradeTargets || null,
+      expiresAt: r.expiresAt,
+      outcome: r.outcome as PredictionOutcome,
+      exitPrice: r.exitPrice ?? null,
+      resolvedAt: r.resolvedAt || null,
+      createdAt: r.createdAt,
+    }));
+  }
+
+  async getPredictionAccuracy(): Promise<PredictionAccuracy> {
+    // Confidence buckets line up with the validation gate in calculateValidatedConfidence
+    const buckets: Array<{ label: string; min: number; max: number }> = [
+      { label: "<80", min: 0, max: 79 },
+      { label: "80-84", min: 80, max: 84 },
+      { label: "85-89", min: 85, max: 89 },
+      { label: "90-94", min: 90, max: 94 },
+      { label: "95-100", min: 95, max: 100 },
+    ];
+
+    // Count per rounded confidence and outcome in the database rather than loading every record
+    const groups: Array<{ _id: { confidence: number | null; outcome: string; neutral: boolean }; count: number }> =
+      await PredictionRecordModel.aggregate([
+        {
+          $group: {
+            _id: {
+              // floor(x + 0.5) matches Math.round; $round rounds halves to even
+              confidence: { $floor: { $add: ["$confidence", 0.5] } },
+              outcome: "$outcome",
+              neutral: { $eq: ["$direction", "NEUTRAL"] },
+            },
+            count: { $sum: 1 },
+          },
+        },
+      ]);
+
+    const byConfidence: PredictionAccuracyBucket[] = buckets.map(b => ({
+      bucket: b.label,
+      total: 0,
+      targetHit: 0,
+      stopHit: 0,
+      expired: 0,
+      hitRate: 0,
+    }));
+
+    let pending = 0;
+    let neutral = 0;
+
+    for (const { _id: g, count } of groups) {
+      if (g.outcome === 'pending') {
+        pending += count;
+        continue;
+      }
+      if (g.neutral) {
+        neutral += count;
+        continue;
+      }
+
+      const confidence = g.confidence ?? 0;
+      const index = buckets.findIndex(b => confidence >= b.min && confidence <= b.max);
+      const bucket = byConfidence[index >= 0 ? index : 0];
+      bucket.total += count;
+      if (g.outcome === 'target_hit') bucket.targetHit += count;
+      else if (g.outcome === 'stop_hit') bucket.stopHit += count;
+      else bucket.expired += count;
+    }
+
+    const rate = (hits: number, total: number) => total > 0 ? Math.round((hits / total) * 1000) / 10 : 0;
+
+    for (const bucket of byConfidence) {
+      bucket.hitRate = rate(bucket.targetHit, bucket.total);
+    }
+
+    const targetHit = byConfidence.reduce((sum, b) => sum + b.targetHit, 0);
+    const stopHit = byConfidence.reduce((sum, b) => sum + b.stopHit, 0);
+    const expired = byConfidence.reduce((sum, b) => sum + b.expired, 0);
+    const totalResolved = targetHit + stopHit + expired;
+
+    return {
+      totalResolved,
+      pending,
+      targetHit,
+      stopHit,
+      expired,
+      neutral,
+      hitRate: rate(targetHit, totalResolved),
+      byConfidence,
+    };
+  }
+
+  async createApiKey(apiKey: InsertApiKey): Promise<ApiKey> {
+    const createdAt = new Date();
+    await ApiKeyModel.create({
+      ...apiKey,
+      lastUsedAt: null,
+      revokedAt: null,
+      createdAt,
+    });
+
+    return {
+      id: apiKey.id,
+      userId: apiKey.userId,
+      name: apiKey.name,
+      keyPrefix: apiKey.keyPrefix,
+      rateLimitPerMinute: apiKey.rateLimitPerMinute,
+      lastUsedAt: null,
+      revokedAt: null,
+      createdAt,
+    };
+  }
+
+  async getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined> {
+    const key = await ApiKeyModel.findOne({ keyHash }).lean();
+    if (!key) {
+      return undefined;
+    }
+
+    return {
+      id: key.id,
+      userId: key.userId,
+      name: key.name,
+      keyPrefix: key.keyPrefix,
+      rateLimitPerMinute: key.rateLimitPerMinute,
+      lastUsedAt: key.lastUsedAt || null,
+      revokedAt: key.revokedAt || null,
+      createdAt: key.createdAt,
+    };
+  }
+
+  async getUserApiKeys(userId: string): Promise<ApiKey[]> {
+    const keys = await ApiKeyModel.find({ userId }).sort({ createdAt: -1 }).lean();
+
+    return keys.map(k => ({
+      id: k.id,
+      userId: k.userId,
+      name: k.name,
+      keyPrefix: k.keyPrefix,
+      rateLimitPerMinute: k.rateLimitPerMinute,
+      lastUsedAt: k.lastUsedAt || null,
+      revokedAt: k.revokedAt || null,
+      createdAt: k.createdAt,
+    }));
+  }
+
+  async revokeApiKey(userId: string, id: string): Promise<boolean> {
+    const result = await ApiKeyModel.updateOne(
+      { id, userId, revokedAt: null },
+      { $set: { revokedAt: new Date() } }
+    );
+    return result.modifiedCount > 0;
+  }
+
+  async touchApiKey(id: string): Promise<void> {
+    await ApiKeyModel.updateOne({ id }, { $set: { lastUsedAt: new Date() } });
+  }
+
+  async createPriceAlert(alert: InsertPriceAlert): Promise<PriceAlert> {
+    const createdAt = new Date();
+    await PriceAlertModel.create({
+      ...alert,
+      status: 'active',
+      createdAt,
+    });
+
+    return {
+      ...alert,
+      status: 'active',
+      triggeredAt: null,
+      triggeredPrice: null,
+      resultDirection: null,
+      resultConfidence: null,
+      createdAt,
+    };
+  }
+
+  async getUserPriceAlerts(userId: string): Promise<PriceAlert[]> {
+    const alerts = await PriceAlertModel.find({ userId }).sort({ createdAt: -1 }).limit(100).lean();
+
+    return alerts.map(a => ({
+      id: a.id,
+      userId: a.userId,
+      pair: a.pair as TradingPair,
+      timeframe: a.timeframe as Timeframe,
+      condition: a.condition as PriceAlertCondition,
+      targetPrice: a.targetPrice,
+      notifyEmail: a.notifyEmail || null,
+      status: a.status as PriceAlertStatus,
+      triggeredAt: a.triggeredAt || null,
+      triggeredPrice: a.triggeredPrice ?? null,
+      resultDirection: (a.resultDirection as PriceAlert["resultDirection"]) || null,
+      resultConfidence: a.resultConfidence ?? null,
+      createdAt: a.createdAt,
+    }));
+  }
+
+  async getActivePriceAlerts(): Promise<PriceAlert[]> {
+    const alerts = await PriceAlertModel.find({ status: 'active' }).lean();
+
+    return alerts.map(a => ({
+      id: a.id,
+      userId: a.userId,
+      pair: a.pair as TradingPair,
+      timeframe: a.timeframe as Timeframe,
+      condition: a.condition as PriceAlertCondition,
+      targetPrice: a.targetPrice,
+      notifyEmail: a.notifyEmail || null,
+      status: a.status as PriceAlertStatus,
+      triggeredAt: null,
+      triggeredPrice: null,
+      resultDirection: null,
+      resultConfidence: null,
+      createdAt: a.createdAt,
+    }));
+  }
+
+  async cancelPriceAlert(userId: string, id: string): Promise<boolean> {
+    const result = await PriceAlertModel.updateOne(
+      { id, userId, status: 'active' },
+      { $set: { status: 'cancelled' } }
+    );
+    return result.modifiedCount > 0;
+  }
+
+  // Only claims alerts that are still active so a trigger is processed exactly once
+  async markPriceAlertTriggered(id: string, triggeredPrice: number): Promise<boolean> {
+    const result = await PriceAlertModel.updateOne(
+      { id, status: 'active' },
+      { $set: { status: 'triggered', triggeredAt: new Date(), triggeredPrice } }
+    );
+    return result.modifiedCount > 0;
+  }
+
+  async setPriceAlertResult(id: string, direction: "UP" | "DOWN" | "NEUTRAL", confidence: number): Promise<void> {
+    await PriceAlertModel.updateOne(
+      { id },
+      { $set: { resultDirection: direction, resultConfidence: confidence } }
+    );
+  }
+
+  async createWatchlist(watchlist: InsertWatchlist): Promise<Watchlist> {
+    const createdAt = new Date();
+    await WatchlistModel.create({
+      ...watchlist,
+      lastRunAt: null,
+      createdAt,
+    });
+
+    return { ...watchlist, lastRunAt: null, createdAt };
+  }
+
+  async getUserWatchlists(userId: string): Promise<Watchlist[]> {
+    const watchlists = await WatchlistModel.find({ userId }).sort({ createdAt: 1 }).lean();
+
+    return watchlists.map(w => ({
+      id: w.id,
+      userId: w.userId,
+      name: w.name,
+      pairs: w.pairs as TradingPair[],
+      timeframes: w.timeframes as Timeframe[],
+      intervalMinutes: w.intervalMinutes,
+      enabled: w.enabled ?? true,
+      lastRunAt: w.lastRunAt || null,
+      nextRunAt: w.nextRunAt,
+      createdAt: w.createdAt,
+    }));
+  }
+
+  async getWatchlist(id: string): Promise<Watchlist | undefined> {
+    const w = await WatchlistModel.findOne({ id }).lean();
+    if (!w) {
+      return undefined;
+    }
+
+    return {
+      id: w.id,
+      userId: w.userId,
+      name: w.name,
+      pairs: w.pairs as TradingPair[],
+      timeframes: w.timeframes as Timeframe[],
+      intervalMinutes: w.intervalMinutes,
+      enabled: w.enabled ?? true,
+      lastRunAt: w.lastRunAt || null,
+      nextRunAt: w.nextRunAt,
+      createdAt: w.createdAt,
+    };
+  }
+
+  async updateWatchlist(
+    userId: string,
+    id: string,
+    updates: Partial<Pick<Watchlist, "name" | "pairs" | "timeframes" | "intervalMinutes" | "enabled" | "nextRunAt">>
+  ): Promise<boolean> {
+    const result = await WatchlistModel.updateOne({ id, userId }, { $set: updates });
+    return result.matchedCount > 0;
+  }
+
+  async deleteWatchlist(userId: string, id: string): Promise<boolean> {
+    const result = await WatchlistModel.deleteOne({ id, userId });
+    return result.deletedCount > 0;
+  }
+
+  async getDueWatchlists(now: Date, limit: number = 20): Promise<Watchlist[]> {
+    const watchlists = await WatchlistModel
+      .find({ enabled: true, nextRunAt: { $lte: now } })
+      .sort({ nextRunAt: 1 })
+      .limit(limit)
+      .lean();
+
+    return watchlists.map(w => ({
+      id: w.id,
+      userId: w.userId,
+      name: w.name,
+      pairs: w.pairs as TradingPair[],
+      timeframes: w.timeframes as Timeframe[],
+      intervalMinutes: w.intervalMinutes,
+      enabled: w.enabled ?? true,
+      lastRunAt: w.lastRunAt || null,
+      nextRunAt: w.nextRunAt,
+      createdAt: w.createdAt,
+    }));
+  }
+
+  // Moves nextRunAt forward only if the run is still due, so each scheduled run is claimed once
+  async claimWatchlistRun(id: string, now: Date, nextRunAt: Date): Promise<boolean> {
+    const result = await WatchlistModel.updateOne(
+      { id, enabled: true, nextRunAt: { $lte: now } },
+      { $set: { lastRunAt: now, nextRunAt } }
+    );
+    return result.modifiedCount > 0;
+  }
+
+  async recordWatchlistScan(scan: WatchlistScan): Promise<void> {
+    await WatchlistScanModel.create(scan);
+  }
+
+  async getUserWatchlistScans(userId: string, limit: number = 10): Promise<WatchlistScan[]> {
+    const scans = await WatchlistScanModel
+      .find({ userId })
+      .sort({ completedAt: -1 })
+      .limit(limit)
+      .lean();
+
+    return scans.map(s => ({
+      id: s.id,
+      watchlistId: s.watchlistId,
+      watchlistName: s.watchlistName,
+      userId: s.userId,
+      hits: s.hits || [],
+      scanned: s.scanned,
+      neutral: s.neutral,
+      failed: s.failed,
+      skipped: s.skipped,
+      creditsCharged: s.creditsCharged,
+      startedAt: s.startedAt,
+      completedAt: s.completedAt,
+    }));
+  }
+
+  async getTradingPairs(): Promise<TradingPairConfig[]> {
+    const pairs = await TradingPairModel.find({}).sort({ createdAt: 1 }).lean();
+    return pairs.map(toTradingPairConfig);
+  }
+
+  async createTradingPair(pair: Omit<TradingPairConfig, "createdAt" | "updatedAt">): Promise<TradingPairConfig> {
+    const now = new Date();
+    await TradingPairModel.create({ ...pair, createdAt: now, updatedAt: now });
+    return { ...pair, createdAt: now, updatedAt: now };
+  }
+
+  async updateTradingPair(
+    symbol: string,
+    updates: Partial<Pick<TradingPairConfig, "category" | "providerSymbols" | "providerOrder" | "decimals" | "minTick" | "enabled">>
+  ): Promise<TradingPairConfig | undefined> {
+    const pair = await TradingPairModel.findOneAndUpdate(
+      { symbol },
+      { $set: { ...updates, updatedAt: new Date() } },
+      { new: true }
+    ).lean();
+    return pair ? toTradingPairConfig(pair) : undefined;
+  }
+
+  /**
+   * The ledger is advisory: entries are appended after, and outside any transaction with, the
+   * credit and commission writes they mirror. Balances are always read from those records, and
+   * verifyLedgerIntegrity reports any drift when an append is lost.
+   */
+  async appendLedgerEntry(entry: InsertLedgerEntry | null): Promise<void> {
+    if (!entry) {
+      return;
+    }
+
+    try {
+      await LedgerEntryModel.create(entry);
+    } catch (error: any) {
+      // Entry ids are derived from their source record, so a duplicate means it is already posted
+      if (error.code === 11000) {
+        console.log(`[Ledger] Entry ${entry.id} already recorded, skipping`);
+        return;
+      }
+      throw error;
+    }
+  }
+
+  async getLedgerEntries(account: string, limit: number = 50): Promise<LedgerEntry[]> {
+    const entries = await LedgerEntryModel
+      .find({ $or: [{ debitAccount: account }, { creditAccount: account }] })
+      .sort({ createdAt: -1 })
+      .limit(limit)
+      .lean();
+
+    return entries.map(e => ({
+      id: e.id,
+      type: e.type as LedgerEntry["type"],
+      currency: e.currency as LedgerEntry["currency"],
+      debitAccount: e.debitAccount,
+      creditAccount: e.creditAccount,
+      amount: e.amount,
+      reference: e.reference || null,
+      memo: e.memo || null,
+      createdAt: e.createdAt,
+    }));
+  }
+
+  // Balance per account: credits received minus debits
+  async getLedgerBalances(): Promise<Record<string, number>> {
+    const [credits, debits] = await Promise.all([
+      LedgerEntryModel.aggregate<{ _id: string; total: number }>([
+        { $group: { _id: "$creditAccount", total: { $sum: "$amount" } } },
+      ]),
+      LedgerEntryModel.aggregate<{ _id: string; total: number }>([
+        { $group: { _id: "$debitAccount", total: { $sum: "$amount" } } },
+      ]),
+    ]);
+
+    const balances: Record<string, number> = {};
+    for (const c of credits) {
+      balances[c._id] = (balances[c._id] || 0) + c.total;
+    }
+    for (const d of debits) {
+      balances[d._id] = (balances[d._id] || 0) - d.total;
+    }
+    return balances;
+  }
+
+  async getAllUserCredits(): Promise<UserCredits[]> {
+    const users = await UserModel.find({}, { id: 1, credits: 1, hasUnlimitedAccess: 1 }).lean();
+    return users.map(u => ({
+      userId: u.id,
+      credits: u.credits,
+      hasUnlimitedAccess: u.hasUnlimitedAccess || false,
+    }));
+  }
+
+  async recordWebhookEvent(
+    event: Pick<WebhookEvent, "id" | "idempotencyKey" | "eventType" | "headers" | "body" | "signatureValid" | "status" | "statusReason">
+  ): Promise<{ isNew: boolean; event: WebhookEvent }> {
+    try {
+      const receivedAt = new Date();
+      await WebhookEventModel.create({ ...event, attempts: 0, receivedAt });
+      return {
+        isNew: true,
+        event: { ...event, attempts: 0, receivedAt, lastAttemptAt: null, processedAt: null },
+      };
+    } catch (error: any) {
+      // Redelivery of an event we already stored - hand back the original
+      if (error.code === 11000) {
+        const existing = await WebhookEventModel.findOne({ idempotencyKey: event.idempotencyKey }).lean();
+        if (existing) {
+          return { isNew: false, event: toWebhookEvent(existing) };
+        }
+      }
+      throw error;
+    }
+  }
+
+  async getWebhookEvent(id: string): Promise<WebhookEvent | undefined> {
+    const event = await WebhookEventModel.findOne({ id }).lean();
+    return event ? toWebhookEvent(event) : undefined;
+  }
+
+  async getWebhookEvents(status?: WebhookEventStatus, limit: number = 50): Promise<WebhookEvent[]> {
+    const query = status ? { status } : {};
+    const events = await WebhookEventModel
+      .find(query)
+      .sort({ receivedAt: -1 })
+      .limit(limit)
+      .lean();
+    return events.map(toWebhookEvent);
+  }
+
+  async markWebhookAttempt(id: string): Promise<void> {
+    await WebhookEventModel.updateOne(
+      { id },
+      { $inc: { attempts: 1 }, $set: { lastAttemptAt: new Date() } }
+    );
+  }
+
+  async updateWebhookEventStatus(id: string, status: WebhookEventStatus, statusReason: string | null = null): Promise<void> {
+    await WebhookEventModel.updateOne(
+      { id },
+      { $set: { status, statusReason, ...(status === "processed" ? { processedAt: new Date() } : {}) } }
+    );
+  }
+
+  async getCommissionRules(): Promise<CommissionRule[]> {
+    const rules = await CommissionRuleModel.find({}).sort({ effectiveFrom: -1 }).lean();
+    return rules.map(toCommissionRule);
+  }
+
+  async getCommissionRule(id: string): Promise<CommissionRule | undefined> {
+    const rule = await CommissionRuleModel.findOne({ id }).lean();
+    return rule ? toCommissionRule(rule) : undefined;
+  }
+
+  async createCommissionRule(rule: InsertCommissionRule): Promise<CommissionRule> {
+    const now = new Date();
+    await CommissionRuleModel.create({ ...rule, createdAt: now, updatedAt: now });
+    return { ...rule, createdAt: now, updatedAt: now };
+  }
+
+  async updateCommissionRule(id: string, updates: Partial<InsertCommissionRule>): Promise<CommissionRule | undefined> {
+    const rule = await CommissionRuleModel.findOneAndUpdate(
+      { id },
+      { $set: { ...updates, updatedAt: new Date() } },
+      { new: true }
+    ).lean();
+    return rule ? toCommissionRule(rule) : undefined;
+  }
+
+  // Volume for commission tiers: payments that earned the admin a commission and were not refunded
+  async countCommissionedPayments(adminUserId: string, since: Date): Promise<number> {
+    return CommissionPaymentModel.countDocuments({
+      adminUserId,
+      commissionAmount: { $gt: 0 },
+      refundedAt: null,
+      createdAt: { $gte: since },
+    });
+  }
+}
+
+function toWebhookEvent(e: any): WebhookEvent {
+  return {
+    id: e.id,
+    idempotencyKey: e.idempotencyKey,
+    eventType: e.eventType || null,
+    headers: e.headers || {},
+    body: e.body,
+    signatureValid: e.signatureValid ?? null,
+    status: e.status as WebhookEventStatus,
+    statusReason: e.statusReason || null,
+    attempts: e.attempts || 0,
+    receivedAt: e.receivedAt,
+    lastAttemptAt: e.lastAttemptAt || null,
+    processedAt: e.processedAt || null,
+  };
+}
+
+function toCommissionRule(r: any): CommissionRule {
+  return {
+    id: r.id,
+    name: r.name,
+    companyId: r.companyId || null,
+    planId: r.planId || null,
+    type: r.type as CommissionRuleType,
+    value: r.value,
+    tiers: (r.tiers || []).map((t: any) => ({ minPayments: t.minPayments, value: t.value })),
+    effectiveFrom: r.effectiveFrom,
+    effectiveTo: r.effectiveTo || null,
+    createdAt: r.createdAt,
+    updatedAt: r.updatedAt || r.createdAt,
+  };
+}
+
+function toTradingPairConfig(p: any): TradingPairConfig {
+  return {
+    symbol: p.symbol,
+    category: p.category as PairCategory,
+    providerSymbols: (p.providerSymbols || {}) as PairProviderSymbols,
+    providerOrder: (p.providerOrder || []) as TradingPairConfig["providerOrder"],
+    decimals: p.decimals,
+    minTick: p.minTick,
+    enabled: p.enabled ?? true,
+    createdAt: p.createdAt,
+    updatedAt: p.updatedAt || p.createdAt,
+  };
 }
 
 export const storage = new MongoStorage();
@@ -53,6 +53,24 @@ export interface TechnicalIndicators {
   };
   trendStrength: number;
   marketRegime: "STRONG_TRENDING" | "TRENDING" | "RANGING";
+  vwap: number;
+  ichimoku: {
+    tenkan: number;
+    kijun: number;
+    senkouA: number;
+    senkouB: number;
+  };
+  supertrend: {
+    value: number;
+    direction: "UP" | "DOWN";
+  };
+  keltnerChannels: {
+    upper: number;
+    middle: number;
+    lower: number;
+  };
+  cci: number;
+  mfi: number;
 }
 
 export function calculateRSI(candles: Candle[], period: number = 14): number {
@@ -424,6 +442,178 @@ export function calculateROC(candles: Candle[], period: number = 12): number {
   return ((currentPrice - pastPrice) / pastPrice) * 100;
 }
 
+function typicalPrice(candle: Candle): number {
+  return (candle.high + candle.low + candle.close) / 3;
+}
+
+// Highest high and lowest low midpoint - the building block of every Ichimoku line
+function donchianMidpoint(candles: Candle[]): number {
+  const highest = Math.max(...candles.map(c => c.high));
+  const lowest = Math.min(...candles.map(c => c.low));
+  return (highest + lowest) / 2;
+}
+
+/**
+ * VWAP anchored to the start of the latest UTC day. Daily and weekly candles (or a window that
+ * only just crossed midnight) fall back to the whole window.
+ */
+export function calculateVWAP(candles: Candle[], minSessionCandles: number = 10): number {
+  if (candles.length === 0) return 0;
+
+  const last = candles[candles.length - 1];
+  const sessionStart = new Date(last.timestamp);
+  sessionStart.setUTCHours(0, 0, 0, 0);
+
+  const session = candles.filter(c => c.timestamp >= sessionStart.getTime());
+  const window = session.length >= minSessionCandles ? session : candles;
+
+  let priceVolume = 0;
+  let volume = 0;
+  for (const candle of window) {
+    priceVolume += typicalPrice(candle) * candle.volume;
+    volume += candle.volume;
+  }
+
+  return volume > 0 ? priceVolume / volume : last.close;
+}
+
+/**
+ * Ichimoku with the standard 9/26/52 settings. The senkou spans are projected 26 periods
+ * forward, so the cloud under the current candle comes from candles that closed 26 periods ago.
+ */
+export function calculateIchimoku(
+  candles: Candle[],
+  tenkanPeriod: number = 9,
+  kijunPeriod: number = 26,
+  senkouPeriod: number = 52
+): { tenkan: number; kijun: number; senkouA: number; senkouB: number } {
+  if (candles.length === 0) {
+    return { tenkan: 0, kijun: 0, senkouA: 0, senkouB: 0 };
+  }
+
+  const tenkan = donchianMidpoint(candles.slice(-tenkanPeriod));
+  const kijun = donchianMidpoint(candles.slice(-kijunPeriod));
+
+  // Not enough history to project - use the unshifted spans
+  const projected = candles.length > kijunPeriod + tenkanPeriod ? candles.slice(0, -kijunPeriod) : candles;
+  const senkouA = (donchianMidpoint(projected.slice(-tenkanPeriod)) + donchianMidpoint(projected.slice(-kijunPeriod))) / 2;
+  const senkouB = donchianMidpoint(projected.slice(-senkouPeriod));
+
+  return { tenkan, kijun, senkouA, senkouB };
+}
+
+export function calculateSupertrend(
+  candles: Candle[],
+  period: number = 10,
+  multiplier: number = 3
+): { value: number; direction: "UP" | "DOWN" } {
+  if (candles.length < period + 1) {
+    const close = candles.length > 0 ? candles[candles.length - 1].close : 0;
+    return { value: close, direction: "UP" };
+  }
+
+  // Wilder's ATR series, seeded with the first simple average
+  const trValues: number[] = [];
+  for (let i = 1; i < candles.length; i++) {
+    trValues.push(Math.max(
+      candles[i].high - candles[i].low,
+      Math.abs(candles[i].high - candles[i - 1].close),
+      Math.abs(candles[i].low - candles[i - 1].close)
+    ));
+  }
+
+  let atr = trValues.slice(0, period).reduce((a, b) => a + b) / period;
+  let finalUpper = 0;
+  let finalLower = 0;
+  let direction: "UP" | "DOWN" = "UP";
+
+  for (let i = period; i < candles.length; i++) {
+    if (i > period) {
+      atr = (atr * (period - 1) + trValues[i - 1]) / period;
+    }
+
+    const mid = (candles[i].high + candles[i].low) / 2;
+    const basicUpper = mid + multiplier * atr;
+    const basicLower = mid - multiplier * atr;
+    const prevClose = candles[i - 1].close;
+
+    if (i === period) {
+      finalUpper = basicUpper;
+      finalLower = basicLower;
+      direction = candles[i].close >= mid ? "UP" : "DOWN";
+      continue;
+    }
+
+    // Bands only tighten while price stays on the same side
+    finalUpper = basicUpper < finalUpper || prevClose > finalUpper ? basicUpper : finalUpper;
+    finalLower = basicLower > finalLower || prevClose < finalLower ? basicLower : finalLower;
+
+    if (direction === "DOWN" && candles[i].close > finalUpper) {
+      direction = "UP";
+    } else if (direction === "UP" && candles[i].close < finalLower) {
+      direction = "DOWN";
+    }
+  }
+
+  return {
+    value: direction === "UP" ? finalLower : finalUpper,
+    direction,
+  };
+}
+
+export function calculateKeltnerChannels(
+  candles: Candle[],
+  emaPeriod: number = 20,
+  atrPeriod: number = 10,
+  multiplier: number = 2
+): { upper: number; middle: number; lower: number } {
+  const prices = candles.map(c => c.close);
+  const middle = calculateEMA(prices, emaPeriod);
+  const atr = calculateATR(candles, atrPeriod);
+
+  return {
+    upper: middle + multiplier * atr,
+    middle,
+    lower: middle - multiplier * atr,
+  };
+}
+
+export function calculateCCI(candles: Candle[], period: number = 20): number {
+  if (candles.length < period) return 0;
+
+  const typicalPrices = candles.slice(-period).map(typicalPrice);
+  const mean = typicalPrices.reduce((a, b) => a + b) / period;
+  const meanDeviation = typicalPrices.reduce((sum, tp) => sum + Math.abs(tp - mean), 0) / period;
+
+  if (meanDeviation === 0) return 0;
+
+  return (typicalPrices[typicalPrices.length - 1] - mean) / (0.015 * meanDeviation);
+}
+
+export function calculateMFI(candles: Candle[], period: number = 14): number {
+  if (candles.length < period + 1) return 50;
+
+  let positiveFlow = 0;
+  let negativeFlow = 0;
+
+  for (let i = candles.length - period; i < candles.length; i++) {
+    const tp = typicalPrice(candles[i]);
+    const prevTp = typicalPrice(candles[i - 1]);
+    const rawFlow = tp * candles[i].volume;
+
+    if (tp > prevTp) {
+      positiveFlow += rawFlow;
+    } else if (tp < prevTp) {
+      negativeFlow += rawFlow;
+    }
+  }
+
+  if (negativeFlow === 0) return positiveFlow === 0 ? 50 : 100;
+
+  const moneyRatio = positiveFlow / negativeFlow;
+  return 100 - (100 / (1 + moneyRatio));
+}
+
 export function findSupportResistance(candles: Candle[], currentPrice: number): {
   nearestSupport: number;
   nearestResistance: number;
@@ -512,6 +702,138 @@ export function determineMarketRegime(adx: number, atr: number, currentPrice: nu
   }
 }
 
+/**
+ * Series variants. Each point is the scalar indicator evaluated on the candles up to and
+ * including that bar, so the last point always equals the scalar value analyzeMarket reports.
+ * Only the last `points` bars are evaluated to keep the cost proportional to what is shown.
+ */
+function rollingSeries<T>(candles: Candle[], points: number, calculate: (window: Candle[]) => T): T[] {
+  const series: T[] = [];
+  const start = Math.max(1, candles.length - points + 1);
+
+  for (let end = start; end <= candles.length; end++) {
+    series.push(calculate(candles.slice(0, end)));
+  }
+
+  return series;
+}
+
+export function calculateRSISeries(candles: Candle[], points: number, period: number = 14): number[] {
+  return rollingSeries(candles, points, window => calculateRSI(window, period));
+}
+
+export function calculateMACDSeries(candles: Candle[], points: number): { value: number; signal: number; histogram: number }[] {
+  return rollingSeries(candles, points, window => calculateMACD(window));
+}
+
+export function calculateSMASeries(candles: Candle[], points: number, period: number): number[] {
+  return rollingSeries(candles, points, window => calculateSMA(window.map(c => c.close), period));
+}
+
+export function calculateEMASeries(candles: Candle[], points: number, period: number): number[] {
+  return rollingSeries(candles, points, window => calculateEMA(window.map(c => c.close), period));
+}
+
+export function calculateBollingerBandsSeries(candles: Candle[], points: number, period: number = 20): { upper: number; middle: number; lower: number; bandwidth: number }[] {
+  return rollingSeries(candles, points, window => {
+    const bands = calculateBollingerBands(window, period);
+    return { ...bands, bandwidth: ((bands.upper - bands.lower) / bands.middle) * 100 };
+  });
+}
+
+export function calculateVolumeMASeries(candles: Candle[], points: number, period: number = 20): number[] {
+  return rollingSeries(candles, points, window => calculateVolumeMA(window, period));
+}
+
+export function calculateStochasticSeries(candles: Candle[], points: number, kPeriod: number = 14, dPeriod: number = 3): { k: number; d: number }[] {
+  return rollingSeries(candles, points, window => calculateStochastic(window, kPeriod, dPeriod));
+}
+
+export function calculateADXSeries(candles: Candle[], points: number, period: number = 14): { value: number; plusDI: number; minusDI: number }[] {
+  return rollingSeries(candles, points, window => calculateADX(window, period));
+}
+
+export function calculateATRSeries(candles: Candle[], points: number, period: number = 14): number[] {
+  return rollingSeries(candles, points, window => calculateATR(window, period));
+}
+
+export function calculateOBVSeries(candles: Candle[], points: number): number[] {
+  return rollingSeries(candles, points, window => calculateOBV(window));
+}
+
+export function calculateMomentumSeries(candles: Candle[], points: number, period: number = 10): number[] {
+  return rollingSeries(candles, points, window => calculateMomentum(window, period));
+}
+
+export function calculateROCSeries(candles: Candle[], points: number, period: number = 12): number[] {
+  return rollingSeries(candles, points, window => calculateROC(window, period));
+}
+
+export function calculateVWAPSeries(candles: Candle[], points: number): number[] {
+  return rollingSeries(candles, points, window => calculateVWAP(window));
+}
+
+export function calculateIchimokuSeries(candles: Candle[], points: number): { tenkan: number; kijun: number; senkouA: number; senkouB: number }[] {
+  return rollingSeries(candles, points, window => calculateIchimoku(window));
+}
+
+export function calculateSupertrendSeries(candles: Candle[], points: number, period: number = 10, multiplier: number = 3): { value: number; direction: "UP" | "DOWN" }[] {
+  return rollingSeries(candles, points, window => calculateSupertrend(window, period, multiplier));
+}
+
+export function calculateKeltnerChannelsSeries(candles: Candle[], points: number, emaPeriod: number = 20, atrPeriod: number = 10, multiplier: number = 2): { upper: number; middle: number; lower: number }[] {
+  return rollingSeries(candles, points, window => calculateKeltnerChannels(window, emaPeriod, atrPeriod, multiplier));
+}
+
+export function calculateCCISeries(candles: Candle[], points: number, period: number = 20): number[] {
+  return rollingSeries(candles, points, window => calculateCCI(window, period));
+}
+
+export function calculateMFISeries(candles: Candle[], points: number, period: number = 14): number[] {
+  return rollingSeries(candles, points, window => calculateMFI(window, period));
+}
+
+export interface IndicatorSeries {
+  rsi: number[];
+  stochasticK: number[];
+  macdHistogram: number[];
+  adx: number[];
+  sma20: number[];
+  bollingerBandwidth: number[];
+  momentum: number[];
+  roc: number[];
+  obv: number[];
+  vwap: number[];
+  ichimokuCloudMid: number[];
+  supertrend: number[];
+  keltnerMiddle: number[];
+  cci: number[];
+  mfi: number[];
+}
+
+/**
+ * The last `points` values of every indicator analyzeMarket reports, using the same periods.
+ */
+export function analyzeMarketSeries(candles: Candle[], points: number): IndicatorSeries {
+  return {
+    rsi: calculateRSISeries(candles, points, 14),
+    stochasticK: calculateStochasticSeries(candles, points, 14, 3).map(s => s.k),
+    macdHistogram: calculateMACDSeries(candles, points).map(m => m.histogram),
+    adx: calculateADXSeries(candles, points, 14).map(a => a.value),
+    sma20: calculateSMASeries(candles, points, 20),
+    bollingerBandwidth: calculateBollingerBandsSeries(candles, points, 20).map(b => b.bandwidth),
+    momentum: calculateMomentumSeries(candles, points, 10),
+    roc: calculateROCSeries(candles, points, 12),
+    obv: calculateOBVSeries(candles, points),
+    vwap: calculateVWAPSeries(candles, points),
+    ichimokuCloudMid: calculateIchimokuSeries(candles, points).map(i => (i.senkouA + i.senkouB) / 2),
+    supertrend: calculateSupertrendSeries(candles, points, 10, 3).map(s => s.value),
+    keltnerMiddle: calculateKeltnerChannelsSeries(candles, points, 20, 10, 2).map(k => k.middle),
+    cci: calculateCCISeries(candles, points, 20),
+    mfi: calculateMFISeries(candles, points, 14),
+  };
+}
+
 export function analyzeMarket(candles: Candle[]): TechnicalIndicators {
   const prices = candles.map(c => c.close);
   const currentPrice = prices[prices.length - 1];
@@ -557,5 +879,11 @@ export function analyzeMarket(candles: Candle[]): TechnicalIndicators {
     supportResistance: findSupportResistance(candles, currentPrice),
     trendStrength,
     marketRegime,
+    vwap: calculateVWAP(candles),
+    ichimoku: calculateIchimoku(candles),
+    supertrend: calculateSupertrend(candles, 10, 3),
+    keltnerChannels: calculateKeltnerChannels(candles, 20, 10, 2),
+    cci: calculateCCI(candles, 20),
+    mfi: calculateMFI(candles, 14),
   };
 }
@@ -1,65 +1,91 @@
 import { WebSocket } from "ws";
-import { type TradeTargets, type TradingPair } from "@shared/schema";
-import { fetchMarketData, getAnchorTimeframes, fetchCryptoNews } from "./crypto-data";
-import { analyzeMarket, type TechnicalIndicators } from "./technical-analysis";
-import { getGeminiPrediction } from "./gemini-decision";
-import type { Prediction } from "./ai-prediction";
+import { type PacingProfile, type TechnicalIndicatorDetail, type TradeTargets, type TradeTargetValidation, type TradingPair } from "@shared/schema";
+import { fetchMarketData, getAnchorTimeframes, fetchNews, timeframeToMinutes, type NewsHeadline } from "./crypto-data";
+import { analyzeMarket, analyzeMarketSeries, type IndicatorSeries, type TechnicalIndicators } from "./technical-analysis";
+import { getTradingDecision, getDecisionModelLabel, type TradingDecision } from "./decision-engine";
+import {
+  analyzeCCI,
+  analyzeDivergences,
+  analyzeIchimoku,
+  analyzeKeltnerChannels,
+  analyzeMFI,
+  analyzePatterns,
+  analyzeSupertrend,
+  analyzeVWAP,
+  type Prediction,
+  type WeightedSignal,
+} from "./ai-prediction";
+import { createPacer, DEFAULT_PACING_PROFILE } from "./lib/pacing";
+import { describeTradeTargetValidation, validateTradeTargets } from "./lib/trade-targets";
+import { DEFAULT_DIVERGENCE_OPTIONS, detectDivergences, type DivergenceIndicator } from "./lib/divergence";
+import { describePattern, detectPatterns } from "./lib/patterns";
+import { buildConfluenceMatrix, confluenceConfidenceAdjustment } from "./lib/confluence";
+import { type MarketData } from "./lib/market-data/provider";
+import { aggregateNewsSentiment, sentimentConfidenceAdjustment } from "./lib/news-sentiment";
+import { assessEventRisk, describeEvent } from "./lib/economic-calendar";
+import { parseDurationMs } from "./lib/prediction-resolver";
+import { describeMarketStatus, getMarketStatus, getSessionContext } from "./lib/trading-sessions";
+import { getPairConfig } from "./lib/pair-catalog";
+
+// Points of indicator history sent with the technical_calculation stage (0 disables)
+const INDICATOR_SERIES_POINTS = parseInt(process.env.INDICATOR_SERIES_POINTS || "30", 10) || 0;
+
+// Which series backs each row of the technical_calculation list
+const INDICATOR_SERIES_KEYS: Record<string, keyof IndicatorSeries> = {
+  "RSI": "rsi",
+  "Stochastic K/D": "stochasticK",
+  "MACD": "macdHistogram",
+  "ADX": "adx",
+  "SMA 20/50/200": "sma20",
+  "Bollinger Bands": "bollingerBandwidth",
+  "Momentum": "momentum",
+  "ROC": "roc",
+  "VWAP": "vwap",
+  "Ichimoku Cloud": "ichimokuCloudMid",
+  "Supertrend": "supertrend",
+  "Keltner Channels": "keltnerMiddle",
+  "CCI": "cci",
+  "MFI": "mfi",
+};
 
 interface StageUpdateMessage {
   type: "analysis_stage";
-  stage: "data_collection" | "protocol_execution" | "technical_calculation" | "hedge_fund_audit" | "sentiment_analysis" | "signal_aggregation" | "ai_thinking" | "final_verdict";
+  stage: "data_collection" | "protocol_execution" | "technical_calculation" | "mtf_confluence" | "hedge_fund_audit" | "sentiment_analysis" | "signal_aggregation" | "ai_thinking" | "final_verdict";
   progress: number;
   status: "pending" | "in_progress" | "complete";
   duration?: number;
   data?: any;
 }
 
-function delay(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
+interface ProtocolLog {
+  action: string;
+  status: "SUCCESS" | "WARNING" | "CRITICAL";
+  timestamp: string;
+  details: string;
+  latency?: number;
 }
 
-function sendStageUpdate(ws: WebSocket, update: StageUpdateMessage) {
-  if (ws.readyState === WebSocket.OPEN) {
+// ws is null for headless runs (REST API), which skip stage updates entirely
+function sendStageUpdate(ws: WebSocket | null, update: StageUpdateMessage) {
+  if (ws && ws.readyState === WebSocket.OPEN) {
     ws.send(JSON.stringify(update));
   }
 }
 
-function isFiniteNumber(value: unknown): value is number {
-  return typeof value === "number" && Number.isFinite(value);
-}
-
-function computeFallbackTradeTargets(
-  direction: "UP" | "DOWN",
-  currentPrice: number,
-  atr: number
-): TradeTargets {
-  const safeAtr = Math.max(Math.abs(atr), Math.abs(currentPrice) * 0.002);
-  const entryBand = safeAtr * 0.25;
-
-  if (direction === "UP") {
-    const entryLow = currentPrice - entryBand;
-    const entryHigh = currentPrice + entryBand * 0.5;
-
-    return {
-      entry: { low: Math.min(entryLow, entryHigh), high: Math.max(entryLow, entryHigh) },
-      target: {
-        low: currentPrice + safeAtr * 1.5,
-        high: currentPrice + safeAtr * 2.4,
-      },
-      stop: entryLow - safeAtr * 1.05,
-    };
-  }
-
-  const entryLow = currentPrice - entryBand * 0.5;
-  const entryHigh = currentPrice + entryBand;
-
+// Indicator row for the technical_calculation stage, driven by the weighted analyzer's verdict
+function indicatorDetailFromSignal(
+  name: string,
+  value: string,
+  signal: WeightedSignal,
+  category: TechnicalIndicatorDetail["category"]
+) {
   return {
-    entry: { low: Math.min(entryLow, entryHigh), high: Math.max(entryLow, entryHigh) },
-    target: {
-      low: currentPrice - safeAtr * 2.4,
-      high: currentPrice - safeAtr * 1.5,
-    },
-    stop: entryHigh + safeAtr * 1.05,
+    name,
+    value,
+    signal: signal.direction,
+    strength: signal.direction === "NEUTRAL" ? 50 : Math.round(signal.strength),
+    category,
+    description: signal.reason,
   };
 }
 
@@ -67,7 +93,7 @@ function computeFallbackTradeTargets(
  * Check if volume meets the 1.1x Volume MA threshold
  * This is the "Fuel" rule - volume must be at least 1.1x average
  */
-function checkVolumeConfirmation(currentVolume: number, volumeMA: number): {
+export function checkVolumeConfirmation(currentVolume: number, volumeMA: number): {
   passes: boolean;
   reason: string;
   ratio: number;
@@ -87,7 +113,7 @@ function checkVolumeConfirmation(currentVolume: number, volumeMA: number): {
 /**
  * Check for volume divergence (price up but volume down = weak breakout)
  */
-function checkVolumeDivergence(
+export function checkVolumeDivergence(
   candles: any[],
   direction: "UP" | "DOWN" | "NEUTRAL"
 ): {
@@ -137,7 +163,7 @@ function checkVolumeDivergence(
 /**
  * Check RSI for neutral zone (45-55 = observation mode)
  */
-function checkRSINeutralZone(rsi: number): {
+export function checkRSINeutralZone(rsi: number): {
   isNeutral: boolean;
   reason: string;
 } {
@@ -158,7 +184,7 @@ function checkRSINeutralZone(rsi: number): {
  * Check trend alignment between entry timeframe and anchor timeframe
  * Returns true if signals align, false if conflict
  */
-function checkTrendAlignment(
+export function checkTrendAlignment(
   entryTrendBias: "BULLISH" | "BEARISH" | "NEUTRAL",
   anchorTrendBias: "BULLISH" | "BEARISH" | "NEUTRAL",
   entryDirection: "UP" | "DOWN" | "NEUTRAL"
@@ -205,24 +231,41 @@ function checkTrendAlignment(
   };
 }
 
+export interface ValidationThresholds {
+  overrideConfidence: number;
+  minConfidence: number;
+  minVolumeRatio: number;
+  decentSetupVolumeRatio: number;
+  minAdx: number;
+}
+
+export const DEFAULT_VALIDATION_THRESHOLDS: ValidationThresholds = {
+  overrideConfidence: 85,
+  minConfidence: 80,
+  minVolumeRatio: 1.0,
+  decentSetupVolumeRatio: 0.8,
+  minAdx: 12,
+};
+
 /**
  * Calculate confidence score with all validation rules
  * Returns minimum of 75 for valid signals, otherwise neutral
  */
-function calculateValidatedConfidence(
+export function calculateValidatedConfidence(
   baseConfidence: number,
   volumeRatio: number,
   adxValue: number,
   trendAlignment: boolean,
   rsiNeutral: boolean,
-  hasVolumeDivergence: boolean
+  hasVolumeDivergence: boolean,
+  thresholds: ValidationThresholds = DEFAULT_VALIDATION_THRESHOLDS
 ): {
   confidence: number;
   shouldProceed: boolean;
   rejectionReason: string | null;
 } {
   // SUPER OVERRIDE: If the AI is highly confident (>=85%), trust the AI and override technical warnings.
-  if (baseConfidence >= 85) {
+  if (baseConfidence >= thresholds.overrideConfidence) {
     return {
       confidence: baseConfidence,
       shouldProceed: true,
@@ -232,14 +275,14 @@ function calculateValidatedConfidence(
 
   // SEMI-OVERRIDE: If confidence is 80-84%, ONLY strictly invalidating flaws should stop it.
   // We want to avoid "thinking says yes, verdict says no" for decent setups.
-  const isDecentSetup = baseConfidence >= 80;
+  const isDecentSetup = baseConfidence >= thresholds.minConfidence;
 
   // Rule 1: Minimum confidence threshold (Adjusted from 90 to 80)
-  if (baseConfidence < 80) {
+  if (baseConfidence < thresholds.minConfidence) {
     return {
       confidence: baseConfidence,
       shouldProceed: false,
-      rejectionReason: `Confidence below minimum threshold (${baseConfidence}% < 80%)`,
+      rejectionReason: `Confidence below minimum threshold (${baseConfidence}% < ${thresholds.minConfidence}%)`,
     };
   }
 
@@ -255,8 +298,8 @@ function calculateValidatedConfidence(
 
   // Rule 3: Volume confirmation (Relaxed)
   // If decent setup, allow lower volume (0.8x)
-  const volThreshold = isDecentSetup ? 0.8 : 1.0;
-  if (volumeRatio < volThreshold && baseConfidence < 85) {
+  const volThreshold = isDecentSetup ? thresholds.decentSetupVolumeRatio : thresholds.minVolumeRatio;
+  if (volumeRatio < volThreshold && baseConfidence < thresholds.overrideConfidence) {
     return {
       confidence: baseConfidence,
       shouldProceed: false,
@@ -265,7 +308,7 @@ function calculateValidatedConfidence(
   }
 
   // Rule 4: Volume divergence check (Only reject if extreme, override threshold 90→85)
-  if (hasVolumeDivergence && baseConfidence < 85) {
+  if (hasVolumeDivergence && baseConfidence < thresholds.overrideConfidence) {
     return {
       confidence: baseConfidence,
       shouldProceed: false,
@@ -275,7 +318,7 @@ function calculateValidatedConfidence(
 
   // Rule 5: RSI neutral zone (Much tighter now: 48-52)
   // Rule 5: RSI neutral zone (Much tighter now: 49-51)
-  if (rsiNeutral && baseConfidence < 85) {
+  if (rsiNeutral && baseConfidence < thresholds.overrideConfidence) {
     // Only reject if confidence isn't very high. If AI is 90% sure, ignore RSI neutral.
     return {
       confidence: baseConfidence,
@@ -289,11 +332,11 @@ function calculateValidatedConfidence(
   // Rule 6: ADX Check
   // If confidence is >= 80%, we TRUST the AI's judgment on volatility (e.g. trading a breakout from a squeeze).
   // We only block low ADX for low-confidence/weak signals.
-  if (!isDecentSetup && adxValue < 12) {
+  if (!isDecentSetup && adxValue < thresholds.minAdx) {
     return {
       confidence: baseConfidence,
       shouldProceed: false,
-      rejectionReason: "ADX < 12 - Dead market, no volatility",
+      rejectionReason: `ADX < ${thresholds.minAdx} - Dead market, no volatility`,
     };
   }
 
@@ -305,66 +348,33 @@ function calculateValidatedConfidence(
   };
 }
 
-function normalizeTradeTargets(
-  maybeTargets: unknown,
-  direction: "UP" | "DOWN",
-  currentPrice: number,
-  atr: number
-): TradeTargets | null {
-  if (!maybeTargets || typeof maybeTargets !== "object") return null;
-  const t = maybeTargets as any;
-
-  if (
-    !t.entry ||
-    !t.target ||
-    !isFiniteNumber(t.stop) ||
-    !isFiniteNumber(t.entry.low) ||
-    !isFiniteNumber(t.entry.high) ||
-    !isFiniteNumber(t.target.low) ||
-    !isFiniteNumber(t.target.high)
-  ) {
-    return null;
-  }
-
-  const entryLow = Math.min(t.entry.low, t.entry.high);
-  const entryHigh = Math.max(t.entry.low, t.entry.high);
-  const targetLow = Math.min(t.target.low, t.target.high);
-  const targetHigh = Math.max(t.target.low, t.target.high);
-
-  const fallback = computeFallbackTradeTargets(direction, currentPrice, atr);
-
-  let stop = t.stop;
-
-  if (direction === "UP") {
-    if (!(stop < entryLow)) {
-      stop = fallback.stop;
-    }
-    if (!(targetHigh > entryHigh)) {
-      return fallback;
-    }
-  } else {
-    if (!(stop > entryHigh)) {
-      stop = fallback.stop;
-    }
-    if (!(targetLow < entryLow)) {
-      return fallback;
-    }
-  }
-
-  return {
-    entry: { low: entryLow, high: entryHigh },
-    target: { low: targetLow, high: targetHigh },
-    stop,
+export function getDurationBasedOnTimeframe(tf: string): string {
+  const durations: Record<string, string> = {
+    "M1": "1-2 minutes",
+    "M3": "3-5 minutes",
+    "M5": "5-8 minutes",
+    "M15": "15-20 minutes",
+    "M30": "30-45 minutes",
+    "M45": "45-60 minutes",
+    "H1": "1-2 hours",
+    "H2": "2-4 hours",
+    "H3": "3-5 hours",
+    "H4": "4-6 hours",
+    "D1": "1-2 days",
+    "W1": "1-2 weeks",
   };
+  return durations[tf] || "1-2 minutes";
 }
 
 export async function generateTransparentPrediction(
   pair: TradingPair,
-  ws: WebSocket,
+  ws: WebSocket | null,
   waitForAiThinkingComplete?: () => Promise<void>,
-  timeframe: string = "M1"
+  timeframe: string = "M1",
+  pacing: PacingProfile = DEFAULT_PACING_PROFILE
 ): Promise<Prediction> {
   const overallStartTime = Date.now();
+  const pacer = createPacer(pacing);
 
   sendStageUpdate(ws, {
     type: "analysis_stage",
@@ -373,7 +383,7 @@ export async function generateTransparentPrediction(
     status: "in_progress",
   });
 
-  await delay(500);
+  await pacer.delay(500);
 
   sendStageUpdate(ws, {
     type: "analysis_stage",
@@ -386,7 +396,7 @@ export async function generateTransparentPrediction(
   const marketData = await fetchMarketData(pair, timeframe);
   const dataDuration = Date.now() - dataStartTime;
 
-  await delay(1000);
+  await pacer.delay(1000);
 
   sendStageUpdate(ws, {
     type: "analysis_stage",
@@ -404,7 +414,7 @@ export async function generateTransparentPrediction(
     },
   });
 
-  await delay(800);
+  await pacer.delay(800);
 
   // STAGE 2: Protocol Execution (System Logs)
   sendStageUpdate(ws, {
@@ -416,25 +426,154 @@ export async function generateTransparentPrediction(
   });
 
   const formatTime = () => new Date().toLocaleTimeString('en-US', { hour12: false });
-  const protocolLogs = [
-    { action: "INIT", status: "SUCCESS", timestamp: formatTime(), details: "INITIALIZING GLASS BOX DIAGNOSTICS..." },
-    { action: "CONNECT", status: "SUCCESS", timestamp: formatTime(), details: `CONNECTING TO EXCHANGE: FETCHING ${pair} STREAMS...` },
-    { action: "INGEST", status: "SUCCESS", timestamp: formatTime(), details: "DATA RECEIVED: 1H STREAMS INGESTED. DAILY ANCHOR SYNCED." },
-    { action: "NEWS", status: "SUCCESS", timestamp: formatTime(), details: "NEWS INGESTION: 50 HEADLINES QUEUED FOR SENTIMENT AUDIT." },
-    { action: "STABLE", status: "SUCCESS", timestamp: formatTime(), details: "DATA FEED STABILIZED. TRANSITIONING TO PROTOCOL EXECUTION..." },
-  ];
+  const protocolLogs: ProtocolLog[] = [];
+  const anchorTf = getAnchorTimeframes(timeframe);
 
-  for (let i = 0; i < protocolLogs.length; i++) {
-    await delay(300);
+  // Anchor candles and news are independent of each other - fetch them together
+  const timed = async <T>(task: () => Promise<T>): Promise<{ result: T; latency: number }> => {
+    const startedAt = Date.now();
+    const result = await task();
+    return { result, latency: Date.now() - startedAt };
+  };
+  const anchorFetch = timed(() => fetchMarketData(pair, anchorTf.primary)).catch(error => {
+    console.warn(`Failed to fetch anchor timeframe (${anchorTf.primary}) data:`, error);
+    return null;
+  });
+  // The secondary anchor only adds information when it differs from the other two timeframes
+  const fetchSecondary = anchorTf.secondary !== timeframe && anchorTf.secondary !== anchorTf.primary;
+  const secondaryFetch = fetchSecondary
+    ? timed(() => fetchMarketData(pair, anchorTf.secondary)).catch(error => {
+      console.warn(`Failed to fetch secondary timeframe (${anchorTf.secondary}) data:`, error);
+      return null;
+    })
+    : Promise.resolve(null);
+  const newsFetch = timed(() => fetchNews(pair, 50)).catch(error => {
+    console.error("News fetch error:", error);
+    return null;
+  });
+
+  const pushLog = async (log: Omit<ProtocolLog, "timestamp">) => {
+    protocolLogs.push({ ...log, timestamp: formatTime() });
     sendStageUpdate(ws, {
       type: "analysis_stage",
       stage: "protocol_execution",
-      progress: Math.round((i + 1) / protocolLogs.length * 100),
+      progress: Math.min(95, protocolLogs.length * 20),
       status: "in_progress",
-      data: { logs: protocolLogs.slice(0, i + 1) },
+      data: { logs: [...protocolLogs] },
     });
+    await pacer.delay(300);
+  };
+
+  const sourceLabel = (source?: string) => (source || "unknown").toUpperCase();
+
+  await pushLog({
+    action: "INIT",
+    status: "SUCCESS",
+    details: `GLASS BOX DIAGNOSTICS ONLINE: ${pair} ${timeframe} (ANCHOR ${anchorTf.primary}/${anchorTf.secondary}, PACING ${pacer.profile.toUpperCase()})`,
+  });
+
+  await pushLog(marketData.source === "synthetic"
+    ? {
+      action: "CONNECT",
+      status: "CRITICAL",
+      details: `ALL MARKET DATA PROVIDERS FAILED FOR ${pair}: USING ${marketData.candles.length} SYNTHETIC CANDLES`,
+      latency: dataDuration,
+    }
+    : {
+      action: "CONNECT",
+      status: "SUCCESS",
+      details: `${timeframe} STREAM: ${marketData.candles.length} CANDLES FROM ${sourceLabel(marketData.source)} IN ${dataDuration}MS`,
+      latency: dataDuration,
+    });
+
+  // Synthetic candles are random, so they count as unavailable rather than swaying alignment or confluence
+  const liveData = (fetched: { result: MarketData } | null): MarketData | null =>
+    fetched && fetched.result.source !== "synthetic" ? fetched.result : null;
+  const unavailableReason = (fetched: { result: MarketData } | null) => fetched ? "UNAVAILABLE (SYNTHETIC DATA ONLY)" : "UNAVAILABLE";
+
+  const anchorResult = await anchorFetch;
+  const anchorMarketData = liveData(anchorResult);
+  if (!anchorResult || !anchorMarketData) {
+    await pushLog({
+      action: "INGEST",
+      status: "WARNING",
+      details: `ANCHOR ${anchorTf.primary} ${unavailableReason(anchorResult)}: TREND ALIGNMENT CHECK SKIPPED`,
+    });
+  } else {
+    await pushLog({
+      action: "INGEST",
+      status: "SUCCESS",
+      details: `ANCHOR ${anchorTf.primary}: ${anchorMarketData.candles.length} CANDLES FROM ${sourceLabel(anchorMarketData.source)} IN ${anchorResult.latency}MS`,
+      latency: anchorResult.latency,
+    });
+  }
+
+  const secondaryResult = await secondaryFetch;
+  const secondaryMarketData = liveData(secondaryResult);
+  if (fetchSecondary) {
+    await pushLog(secondaryResult && secondaryMarketData
+      ? {
+        action: "INGEST",
+        status: "SUCCESS",
+        details: `SECONDARY ${anchorTf.secondary}: ${secondaryMarketData.candles.length} CANDLES FROM ${sourceLabel(secondaryMarketData.source)} IN ${secondaryResult.latency}MS`,
+        latency: secondaryResult.latency,
+      }
+      : {
+        action: "INGEST",
+        status: "WARNING",
+        details: `SECONDARY ${anchorTf.secondary} ${unavailableReason(secondaryResult)}: CONFLUENCE MATRIX WILL BE PARTIAL`,
+      });
   }
 
+  const newsResult = await newsFetch;
+  const headlines: NewsHeadline[] = newsResult?.result ?? [];
+  const newsSentiment = aggregateNewsSentiment(headlines);
+  await pushLog({
+    action: "NEWS",
+    status: headlines.length > 0 ? "SUCCESS" : "WARNING",
+    details: headlines.length > 0
+      ? `NEWS INGESTION: ${headlines.length} HEADLINES SCORED - SENTIMENT ${newsSentiment.score > 0 ? "+" : ""}${newsSentiment.score} ${newsSentiment.label}`
+      : "NEWS INGESTION: NO HEADLINES RETURNED - SENTIMENT AUDIT WILL RUN BLIND",
+    latency: newsResult?.latency,
+  });
+
+  // Closed markets and thin sessions change how much the latest candles can be trusted
+  const marketStatus = getMarketStatus(pair);
+  const sessionContext = getSessionContext(pair);
+  await pushLog({
+    action: "SESSION",
+    status: marketStatus.open ? "SUCCESS" : "WARNING",
+    details: marketStatus.open
+      ? `MARKET OPEN (${marketStatus.schedule.toUpperCase()} HOURS): ${sessionContext.label.toUpperCase()} SESSION, ${sessionContext.liquidity.toUpperCase()} LIQUIDITY`
+      : `MARKET ${describeMarketStatus(marketStatus).toUpperCase()} - SIGNALS REFLECT THE LAST SESSION`,
+  });
+
+  const gaps = marketData.gaps ?? [];
+  if (gaps.length > 0) {
+    const missing = gaps.filter(g => !g.expected);
+    await pushLog({
+      action: "GAPS",
+      status: missing.length > 0 ? "WARNING" : "SUCCESS",
+      details: `${gaps.length} CANDLE GAP(S): ${gaps.length - missing.length} MARKET CLOSURE(S), ${missing.length} MISSING DATA (${missing.reduce((sum, g) => sum + g.missingBars, 0)} BARS)`,
+    });
+  }
+
+  // Age of the most recent closed candle, relative to the timeframe length
+  const intervalMs = timeframeToMinutes(timeframe) * 60 * 1000;
+  const lastCandle = marketData.candles[marketData.candles.length - 1];
+  const candleAgeMs = lastCandle ? Math.max(0, Date.now() - lastCandle.timestamp - intervalMs) : Infinity;
+  // No new candles are expected while the market is closed
+  const isStale = marketStatus.open && candleAgeMs > intervalMs * 3;
+  const candleAgeSec = Math.round(candleAgeMs / 1000);
+  const candleAgeLabel = candleAgeSec < 120 ? `${candleAgeSec}S` : candleAgeSec < 7200 ? `${Math.round(candleAgeSec / 60)}M` : `${Math.round(candleAgeSec / 3600)}H`;
+  await pushLog({
+    action: "STABLE",
+    status: isStale ? "WARNING" : "SUCCESS",
+    details: Number.isFinite(candleAgeMs)
+      ? `LATEST ${timeframe} CANDLE CLOSED ${candleAgeLabel} AGO${isStale ? " - FEED MAY BE STALE" : ""}. TRANSITIONING TO PROTOCOL EXECUTION...`
+      : "NO CANDLES RECEIVED - FEED NOT STABLE",
+  });
+
   // Mark Stage 2 as complete before starting Stage 3
   sendStageUpdate(ws, {
     type: "analysis_stage",
@@ -444,7 +583,7 @@ export async function generateTransparentPrediction(
     data: { logs: protocolLogs },
   });
 
-  await delay(800);
+  await pacer.delay(800);
 
   sendStageUpdate(ws, {
     type: "analysis_stage",
@@ -455,21 +594,15 @@ export async function generateTransparentPrediction(
 
   const technicalStartTime = Date.now();
   const indicators = analyzeMarket(marketData.candles);
+  const divergences = detectDivergences(marketData.candles);
+  const patterns = detectPatterns(marketData.candles);
 
-  await delay(2000);
+  await pacer.delay(2000);
 
-  // Fetch anchor timeframe data for trend alignment
-  const anchorTf = getAnchorTimeframes(timeframe);
-  let anchorIndicators: TechnicalIndicators | null = null;
+  // Anchor timeframe data (fetched during protocol execution) for trend alignment
+  const anchorIndicators: TechnicalIndicators | null = anchorMarketData ? analyzeMarket(anchorMarketData.candles) : null;
   let anchorTrendValidationResult: { aligned: boolean; reason: string } = { aligned: true, reason: "No anchor check performed" };
 
-  try {
-    const anchorMarketData = await fetchMarketData(pair, anchorTf.primary);
-    anchorIndicators = analyzeMarket(anchorMarketData.candles);
-  } catch (error) {
-    console.warn(`Failed to fetch anchor timeframe (${anchorTf.primary}) data:`, error);
-  }
-
   sendStageUpdate(ws, {
     type: "analysis_stage",
     stage: "technical_calculation",
@@ -477,7 +610,12 @@ export async function generateTransparentPrediction(
     status: "in_progress",
   });
 
-  await delay(2000);
+  await pacer.delay(2000);
+
+  // Price-level indicators (VWAP, cloud, bands) use the catalog precision, falling back to a
+  // price-based guess so forex and small-cap pairs still get enough decimals
+  const priceDecimals = getPairConfig(pair)?.decimals
+    ?? (marketData.currentPrice >= 100 ? 2 : marketData.currentPrice >= 1 ? 4 : 6);
 
   const technicalIndicatorsList = [
     {
@@ -552,8 +690,49 @@ export async function generateTransparentPrediction(
       category: "MOMENTUM" as const,
       description: indicators.roc > 1.5 ? "Confirming upward momentum" : indicators.roc < -1.5 ? "Confirming downward momentum" : "Neutral",
     },
+    indicatorDetailFromSignal(
+      "VWAP",
+      indicators.vwap.toFixed(priceDecimals),
+      analyzeVWAP(indicators, marketData.currentPrice),
+      "VOLUME"
+    ),
+    indicatorDetailFromSignal(
+      "Ichimoku Cloud",
+      `${Math.min(indicators.ichimoku.senkouA, indicators.ichimoku.senkouB).toFixed(priceDecimals)}-${Math.max(indicators.ichimoku.senkouA, indicators.ichimoku.senkouB).toFixed(priceDecimals)}`,
+      analyzeIchimoku(indicators, marketData.currentPrice),
+      "TREND"
+    ),
+    indicatorDetailFromSignal(
+      "Supertrend",
+      indicators.supertrend.value.toFixed(priceDecimals),
+      analyzeSupertrend(indicators, marketData.currentPrice),
+      "TREND"
+    ),
+    indicatorDetailFromSignal(
+      "Keltner Channels",
+      `${indicators.keltnerChannels.lower.toFixed(priceDecimals)}-${indicators.keltnerChannels.upper.toFixed(priceDecimals)}`,
+      analyzeKeltnerChannels(indicators, marketData.currentPrice),
+      "VOLATILITY"
+    ),
+    indicatorDetailFromSignal(
+      "CCI",
+      indicators.cci.toFixed(0),
+      analyzeCCI(indicators),
+      "MOMENTUM"
+    ),
+    indicatorDetailFromSignal(
+      "MFI",
+      indicators.mfi.toFixed(1),
+      analyzeMFI(indicators),
+      "VOLUME"
+    ),
   ];
 
+  // History is only for the live stage display, so headless runs skip the extra work
+  const indicatorSeries = ws && INDICATOR_SERIES_POINTS > 0
+    ? analyzeMarketSeries(marketData.candles, INDICATOR_SERIES_POINTS)
+    : null;
+
   const technicalDuration = Date.now() - technicalStartTime;
 
   sendStageUpdate(ws, {
@@ -563,11 +742,46 @@ export async function generateTransparentPrediction(
     status: "complete",
     duration: technicalDuration,
     data: {
-      indicators: technicalIndicatorsList,
+      indicators: indicatorSeries
+        ? technicalIndicatorsList.map(i => {
+          const key = INDICATOR_SERIES_KEYS[i.name];
+          return key ? { ...i, series: indicatorSeries[key] } : i;
+        })
+        : technicalIndicatorsList,
     },
   });
 
-  await delay(500);
+  await pacer.delay(500);
+
+  // STAGE 3b: Multi-timeframe confluence
+  sendStageUpdate(ws, {
+    type: "analysis_stage",
+    stage: "mtf_confluence",
+    progress: 0,
+    status: "in_progress",
+  });
+
+  const confluenceStartTime = Date.now();
+  const confluenceMatrix = buildConfluenceMatrix([
+    { timeframe, role: "entry", indicators },
+    ...(fetchSecondary
+      ? [{ timeframe: anchorTf.secondary, role: "secondary" as const, indicators: secondaryMarketData ? analyzeMarket(secondaryMarketData.candles) : null }]
+      : []),
+    { timeframe: anchorTf.primary, role: "primary", indicators: anchorIndicators },
+  ]);
+
+  await pacer.delay(1200);
+
+  sendStageUpdate(ws, {
+    type: "analysis_stage",
+    stage: "mtf_confluence",
+    progress: 100,
+    status: "complete",
+    duration: Date.now() - confluenceStartTime,
+    data: { matrix: confluenceMatrix },
+  });
+
+  await pacer.delay(500);
 
   // STAGE 4: Hedge Fund Safety Audit
   sendStageUpdate(ws, {
@@ -577,7 +791,7 @@ export async function generateTransparentPrediction(
     status: "in_progress",
   });
 
-  await delay(800);
+  await pacer.delay(800);
 
   // Calculate audit checks
   const emaFast = indicators.movingAverages.ema12 || 0;
@@ -623,6 +837,66 @@ export async function generateTransparentPrediction(
     }
   ];
 
+  // Scheduled releases inside the prediction window can override any technical read
+  const eventRisk = await assessEventRisk(pair, parseDurationMs(getDurationBasedOnTimeframe(timeframe), timeframe));
+  if (eventRisk.currencies.length > 0) {
+    const nextHigh = eventRisk.highImpact[0];
+    const nextAny = eventRisk.events[0];
+    auditChecks.push({
+      name: "Economic Calendar",
+      status: nextHigh ? "FAIL" : nextAny && nextAny.impact === "medium" ? "WARN" : "PASS",
+      value: nextHigh ? "HIGH IMPACT" : nextAny ? nextAny.impact.toUpperCase() : eventRisk.calendarLoaded ? "CLEAR" : "N/A",
+      message: nextHigh || nextAny
+        ? describeEvent(nextHigh || nextAny)
+        : eventRisk.calendarLoaded
+          ? `No ${eventRisk.currencies.join("/")} events in the prediction window`
+          : "No economic calendar loaded",
+      threshold: "No high-impact event within duration window",
+      category: "Macro",
+    });
+  }
+
+  auditChecks.push({
+    name: "Market Session",
+    status: !marketStatus.open ? "FAIL" : sessionContext.liquidity === "low" ? "WARN" : "PASS",
+    value: marketStatus.open ? sessionContext.label.toUpperCase() : "CLOSED",
+    message: marketStatus.open
+      ? `${sessionContext.liquidity === "high" ? "High" : sessionContext.liquidity === "normal" ? "Normal" : "Thin"} liquidity (${marketStatus.schedule} hours)`
+      : `Market ${describeMarketStatus(marketStatus)}`,
+    threshold: "Open, active session",
+    category: "Liquidity",
+  });
+
+  auditChecks.push({
+    name: "MTF Confluence",
+    status: confluenceMatrix.alignmentScore >= 50 ? "PASS" : "WARN",
+    value: `${confluenceMatrix.alignmentScore}% ${confluenceMatrix.bias}`,
+    message: confluenceMatrix.summary,
+    threshold: ">= 50% Aligned",
+    category: "Market Structure",
+  });
+
+  // One check per divergence source; regular divergences warn of a turn against the trend
+  const divergenceSources: [DivergenceIndicator, string, string][] = [
+    ["RSI", "RSI Divergence", "Momentum"],
+    ["MACD", "MACD Divergence", "Momentum"],
+    ["OBV", "OBV Divergence", "Liquidity"],
+  ];
+  for (const [source, name, category] of divergenceSources) {
+    const latest = divergences
+      .filter(d => d.indicator === source)
+      .sort((a, b) => a.barsAgo - b.barsAgo)[0];
+
+    auditChecks.push({
+      name,
+      status: latest?.kind === "regular" ? "WARN" : "PASS",
+      value: latest ? `${latest.direction === "UP" ? "BULLISH" : "BEARISH"} ${latest.kind.toUpperCase()}` : "NONE",
+      message: latest ? latest.description : `No divergence in the last ${DEFAULT_DIVERGENCE_OPTIONS.lookback} bars`,
+      threshold: `Last 2 swings / ${DEFAULT_DIVERGENCE_OPTIONS.lookback} bars`,
+      category,
+    });
+  }
+
   const auditScore = (trendStatus === "PASS" ? 25 : 0) + (fuelStatus === "PASS" ? 25 : 15) + (volatilityStatus === "PASS" ? 25 : 0) + 25;
 
   sendStageUpdate(ws, {
@@ -633,7 +907,7 @@ export async function generateTransparentPrediction(
     data: { checks: auditChecks, score: auditScore },
   });
 
-  await delay(800);
+  await pacer.delay(800);
 
   // STAGE 5: Intelligence Sentiment Feed
   sendStageUpdate(ws, {
@@ -644,25 +918,17 @@ export async function generateTransparentPrediction(
     data: { headlines: [] },
   });
 
-  await delay(1000);
-
-  // Fetch real news
-  let headlines: any[] = [];
-  try {
-    headlines = await fetchCryptoNews(pair, 50);
-  } catch (e) {
-    console.error("News fetch error:", e);
-  }
+  await pacer.delay(1000);
 
   sendStageUpdate(ws, {
     type: "analysis_stage",
     stage: "sentiment_analysis",
     progress: 100,
     status: "complete",
-    data: { headlines },
+    data: { headlines, summary: newsSentiment.summary, sentiment: newsSentiment },
   });
 
-  await delay(800);
+  await pacer.delay(800);
 
   // STAGE 6: Signal Aggregation
   sendStageUpdate(ws, {
@@ -674,16 +940,35 @@ export async function generateTransparentPrediction(
 
   const aggregationStartTime = Date.now();
 
-  await delay(1500);
+  await pacer.delay(1500);
 
-  const upSignals = technicalIndicatorsList.filter(i => i.signal === "UP");
-  const downSignals = technicalIndicatorsList.filter(i => i.signal === "DOWN");
-  const neutralSignals = technicalIndicatorsList.filter(i => i.signal === "NEUTRAL");
+  // Divergences vote alongside the indicators
+  const divergenceSignals = analyzeDivergences(divergences).map((signal, idx) =>
+    indicatorDetailFromSignal(
+      `${divergences[idx].indicator} ${divergences[idx].kind === "regular" ? "Regular" : "Hidden"} Divergence`,
+      `${divergences[idx].swing === "high" ? "Swing highs" : "Swing lows"} ${divergences[idx].barsAgo} bars ago`,
+      signal,
+      divergences[idx].indicator === "OBV" ? "VOLUME" : "MOMENTUM"
+    )
+  );
+  const patternSignals = analyzePatterns(patterns).map((signal, idx) =>
+    indicatorDetailFromSignal(
+      patterns[idx].name,
+      `${patterns[idx].confidence}%`,
+      signal,
+      "PRICE_ACTION"
+    )
+  );
+  const aggregationSignals = [...technicalIndicatorsList, ...divergenceSignals, ...patternSignals];
+
+  const upSignals = aggregationSignals.filter(i => i.signal === "UP");
+  const downSignals = aggregationSignals.filter(i => i.signal === "DOWN");
+  const neutralSignals = aggregationSignals.filter(i => i.signal === "NEUTRAL");
 
   const upScore = upSignals.reduce((sum, s) => sum + s.strength, 0);
   const downScore = downSignals.reduce((sum, s) => sum + s.strength, 0);
 
-  const totalSignals = technicalIndicatorsList.length;
+  const totalSignals = aggregationSignals.length;
   const signalAlignment = (Math.max(upSignals.length, downSignals.length) / totalSignals) * 100;
 
   sendStageUpdate(ws, {
@@ -693,7 +978,7 @@ export async function generateTransparentPrediction(
     status: "in_progress",
   });
 
-  await delay(1500);
+  await pacer.delay(1500);
 
   const aggregationDuration = Date.now() - aggregationStartTime;
 
@@ -714,10 +999,10 @@ export async function generateTransparentPrediction(
     },
   });
 
-  await delay(500);
+  await pacer.delay(500);
 
   const aiStartTime = Date.now();
-  const thinkingModelLabel = "Gemini 3.1 Pro (Thinking Mode)";
+  const thinkingModelLabel = getDecisionModelLabel();
 
   sendStageUpdate(ws, {
     type: "analysis_stage",
@@ -752,7 +1037,15 @@ export async function generateTransparentPrediction(
     rsiValue: indicators.rsi,
     macdSignal: indicators.macd.histogram > 0 ? "bullish" : "bearish",
     adxValue: indicators.adx.value,
-    newsContext: headlines.map(h => `${h.source}: ${h.title}`).slice(0, 15),
+    marketSession: marketStatus.open
+      ? `${sessionContext.label} session, ${sessionContext.liquidity} liquidity`
+      : `Market ${describeMarketStatus(marketStatus)}`,
+    newsContext: headlines.length > 0
+      ? [
+        `Aggregate news sentiment: ${newsSentiment.summary}`,
+        ...headlines.slice(0, 15).map(h => `${h.source} [${h.impact} impact, ${h.sentiment}]: ${h.title}`),
+      ]
+      : [],
     safetyAudit: auditChecks.map(c => ({
       name: c.name,
       status: c.status,
@@ -761,7 +1054,7 @@ export async function generateTransparentPrediction(
     })),
   };
 
-  await delay(2000);
+  await pacer.delay(2000);
 
   sendStageUpdate(ws, {
     type: "analysis_stage",
@@ -775,9 +1068,15 @@ export async function generateTransparentPrediction(
     },
   });
 
-  const geminiDecision = await getGeminiPrediction(technicalSnapshot, ws);
+  let aiDecision: TradingDecision | null = null;
+  try {
+    aiDecision = await getTradingDecision(technicalSnapshot, ws ?? undefined);
+  } catch (error) {
+    console.error("All decision providers failed:", error);
+  }
+  const decisionModelLabel = aiDecision?.modelUsed || thinkingModelLabel;
 
-  await delay(1000);
+  await pacer.delay(1000);
 
   sendStageUpdate(ws, {
     type: "analysis_stage",
@@ -785,19 +1084,19 @@ export async function generateTransparentPrediction(
     progress: 100,
     status: "in_progress",
     data: {
-      thinkingProcess: geminiDecision?.thinkingProcess || "AI deep analysis complete. Evaluating all technical indicators and market conditions to generate high-confidence prediction.",
+      thinkingProcess: aiDecision?.thinkingProcess || "AI deep analysis complete. Evaluating all technical indicators and market conditions to generate high-confidence prediction.",
       analysisTime: Date.now() - aiStartTime,
-      modelUsed: thinkingModelLabel,
+      modelUsed: decisionModelLabel,
     },
   });
 
   // Give frontend time to receive the full text and start typewriter animation
-  await delay(500);
+  await pacer.delay(500);
 
-  if (waitForAiThinkingComplete) {
+  if (waitForAiThinkingComplete && pacer.waitsForClient) {
     await waitForAiThinkingComplete();
   } else {
-    await delay(3000);
+    await pacer.delay(3000);
   }
 
   const aiDuration = Date.now() - aiStartTime;
@@ -809,9 +1108,9 @@ export async function generateTransparentPrediction(
     status: "complete",
     duration: aiDuration,
     data: {
-      thinkingProcess: geminiDecision?.thinkingProcess || "AI deep analysis complete. Evaluating all technical indicators and market conditions to generate high-confidence prediction.",
+      thinkingProcess: aiDecision?.thinkingProcess || "AI deep analysis complete. Evaluating all technical indicators and market conditions to generate high-confidence prediction.",
       analysisTime: aiDuration,
-      modelUsed: thinkingModelLabel,
+      modelUsed: decisionModelLabel,
     },
   });
 
@@ -822,31 +1121,21 @@ export async function generateTransparentPrediction(
     status: "in_progress",
   });
 
-  await delay(1000);
-
-  const getDurationBasedOnTimeframe = (tf: string): string => {
-    const durations: Record<string, string> = {
-      "M1": "1-2 minutes",
-      "M3": "3-5 minutes",
-      "M5": "5-8 minutes",
-      "M15": "15-20 minutes",
-      "M30": "30-45 minutes",
-      "M45": "45-60 minutes",
-      "H1": "1-2 hours",
-      "H2": "2-4 hours",
-      "H3": "3-5 hours",
-      "H4": "4-6 hours",
-      "D1": "1-2 days",
-      "W1": "1-2 weeks",
-    };
-    return durations[tf] || "1-2 minutes";
-  };
+  await pacer.delay(1000);
+
+  let direction = aiDecision?.direction || (upScore > downScore ? "UP" : "DOWN") as "UP" | "DOWN" | "NEUTRAL";
+  let confidence = aiDecision?.confidence || Math.round(Math.min(95, (signalAlignment * 0.8) + (indicators.trendStrength * 0.2)));
 
-  let direction = geminiDecision?.direction || (upScore > downScore ? "UP" : "DOWN") as "UP" | "DOWN" | "NEUTRAL";
-  let confidence = geminiDecision?.confidence || Math.round(Math.min(95, (signalAlignment * 0.8) + (indicators.trendStrength * 0.2)));
+  // Timeframe confluence nudges confidence before the validation rules see it
+  const confluenceAdjustment = confluenceConfidenceAdjustment(confluenceMatrix, direction);
+  confidence = Math.max(0, Math.min(99, confidence + confluenceAdjustment));
+
+  // Scored news flow does the same - a call against strong, credible headlines loses confidence
+  const sentimentAdjustment = sentimentConfidenceAdjustment(newsSentiment, direction);
+  confidence = Math.max(0, Math.min(99, confidence + sentimentAdjustment));
 
   // Use AI's specific duration if available, otherwise fallback to timeframe estimate
-  const duration = geminiDecision?.duration || getDurationBasedOnTimeframe(timeframe);
+  const duration = aiDecision?.duration || getDurationBasedOnTimeframe(timeframe);
 
   const qualityScore = Math.round((signalAlignment + indicators.trendStrength) / 2);
 
@@ -886,8 +1175,14 @@ export async function generateTransparentPrediction(
   let riskFactors: string[];
   let explanation: string;
   let tradeTargets: TradeTargets | undefined;
+  let tradeTargetValidation: TradeTargetValidation | undefined;
+
+  // A high-impact release inside the window forces NEUTRAL when ECONOMIC_EVENT_FORCE_NEUTRAL is on
+  const eventBlockReason = eventRisk.forceNeutral
+    ? `High-impact event inside the prediction window: ${describeEvent(eventRisk.highImpact[0])}`
+    : null;
 
-  if (!validationResult.shouldProceed) {
+  if (eventBlockReason || !validationResult.shouldProceed) {
     // Rejection case - return neutral with explanation
     direction = "NEUTRAL";
     confidence = validationResult.confidence; // Show actual confidence, not 0
@@ -901,48 +1196,58 @@ export async function generateTransparentPrediction(
     ];
 
     riskFactors = [
-      validationResult.rejectionReason || "Multiple validation checks failed",
+      eventBlockReason || validationResult.rejectionReason || "Multiple validation checks failed",
     ];
 
-    explanation = `Market Analysis: Neutral leaning. ${validationResult.rejectionReason}. Standing aside.`;
+    explanation = `Market Analysis: Neutral leaning. ${eventBlockReason || validationResult.rejectionReason}. Standing aside.`;
   } else {
     // Proceed with valid signal
     confidence = validationResult.confidence;
 
-    keyFactors = geminiDecision?.keyFactors || [
+    keyFactors = aiDecision?.keyFactors || [
       `${upSignals.length}/${totalSignals} indicators bullish (${signalAlignment.toFixed(1)}% alignment)`,
       `Trend Aligned: Entry (${indicators.trendBias}) matches Anchor (${anchorIndicators?.trendBias || "N/A"})`,
       `${indicators.marketRegime} market (ADX: ${indicators.adx.value.toFixed(1)})`,
       volumeConfirmation.reason,
     ];
 
-    riskFactors = geminiDecision?.riskFactors || [
+    riskFactors = aiDecision?.riskFactors || [
       volumeDivergence.hasDivergence ? volumeDivergence.reason : "Monitor for volume decrease",
       indicators.atr > 3 ? "High volatility - wider stops recommended" : "Normal volatility range",
     ];
+    if (eventRisk.highImpact.length > 0) {
+      riskFactors = [...riskFactors, `Scheduled release: ${describeEvent(eventRisk.highImpact[0])}`];
+    }
+    if (!marketStatus.open) {
+      riskFactors = [...riskFactors, `Market ${describeMarketStatus(marketStatus)} - entries cannot fill until it reopens`];
+    }
 
     if (direction === "NEUTRAL") {
       tradeTargets = undefined;
     } else {
-      const nonNeutralDirection: "UP" | "DOWN" = direction;
-      tradeTargets =
-        normalizeTradeTargets(
-          geminiDecision?.tradeTargets,
-          nonNeutralDirection,
-          marketData.currentPrice,
-          indicators.atr
-        ) ??
-        computeFallbackTradeTargets(
-          nonNeutralDirection,
-          marketData.currentPrice,
-          indicators.atr
-        );
+      const checked = validateTradeTargets(
+        aiDecision?.tradeTargets,
+        direction,
+        marketData.currentPrice,
+        indicators.atr
+      );
+      tradeTargets = checked.targets;
+      tradeTargetValidation = checked.validation;
+      console.log(`[TradeTargets] ${pair}: ${describeTradeTargetValidation(checked.validation)}`);
     }
 
-    explanation = geminiDecision?.rationale || `Strong ${direction} signal detected with ${confidence}% confidence`;
+    explanation = aiDecision?.rationale || `Strong ${direction} signal detected with ${confidence}% confidence`;
   }
 
-  await delay(1500);
+  // Detected patterns, the confluence read and news sentiment are always listed, whichever way the verdict went
+  keyFactors = [
+    ...keyFactors,
+    `MTF confluence: ${confluenceMatrix.summary}${confluenceAdjustment !== 0 ? ` (${confluenceAdjustment > 0 ? "+" : ""}${confluenceAdjustment} confidence)` : ""}`,
+    ...patterns.map(p => `Pattern: ${describePattern(p)}`),
+    `News sentiment: ${newsSentiment.summary}${sentimentAdjustment !== 0 ? ` (${sentimentAdjustment > 0 ? "+" : ""}${sentimentAdjustment} confidence)` : ""}`,
+  ];
+
+  await pacer.delay(1500);
 
   const finalDuration = Date.now() - overallStartTime;
 
@@ -962,6 +1267,7 @@ export async function generateTransparentPrediction(
         keyFactors,
         riskFactors,
         tradeTargets,
+        tradeTargetValidation,
         explanation,
       },
     });
@@ -995,9 +1301,12 @@ export async function generateTransparentPrediction(
     direction,
     confidence,
     duration,
+    entryPrice: marketData.currentPrice,
+    marketDataSource: marketData.source,
     analysis: explanation,
     rationale: explanation,
     riskFactors,
+    tradeTargets,
     detailedAnalysis: {
       indicators: technicalIndicatorsList.map(i => ({
         name: i.name,
@@ -1040,8 +1349,9 @@ export async function generateTransparentPrediction(
         rawScore: Math.round((upScore + downScore) / 2),
         finalConfidence: confidence,
       },
-      thinkingProcess: geminiDecision?.thinkingProcess,
+      thinkingProcess: aiDecision?.thinkingProcess,
       keyFactors,
+      tradeTargetValidation,
     },
   };
 
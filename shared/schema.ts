@@ -45,6 +45,64 @@ export const indicesPairs = [
 
 export const tradingPairs = [...cryptoPairs, ...forexPairs, ...commoditiesPairs, ...indicesPairs] as const;
 
+// The constants above are the built-in seed catalog. At runtime the catalog lives in the
+// database (see server/lib/pair-catalog.ts) and admins can add, edit and disable pairs.
+export const pairCategories = ["crypto", "forex", "commodities", "indices"] as const;
+
+export type PairCategory = typeof pairCategories[number];
+
+// "BTC/USDT", "US100/USD"
+export const pairSymbolSchema = z.string().trim().toUpperCase().regex(/^[A-Z0-9]{1,12}\/[A-Z0-9]{1,12}$/, "Expected BASE/QUOTE");
+
+let isKnownTradingPair: (pair: string) => boolean = (pair) => (tradingPairs as readonly string[]).includes(pair);
+
+// The server swaps in a check against the enabled pairs of the stored catalog once it is loaded
+export function setTradingPairValidator(validator: (pair: string) => boolean): void {
+  isKnownTradingPair = validator;
+}
+
+// Request input: must be an enabled pair in the current catalog
+export const tradingPairSchema = z.string().refine(pair => isKnownTradingPair(pair), {
+  message: "Unsupported trading pair",
+});
+
+export const pairProviderSymbolsSchema = z.object({
+  cryptocompare: z.object({
+    from: z.string().trim().min(1).max(16),
+    to: z.string().trim().min(1).max(16),
+  }).optional(),
+  yahoo: z.string().trim().min(1).max(32).optional(),
+});
+
+export const marketDataProviderIds = ["cryptocompare", "yahoo", "fixture"] as const;
+
+// Market data providers to try for a pair, in order; empty falls back to the category order
+export const pairProviderOrderSchema = z.array(z.enum(marketDataProviderIds))
+  .refine(ids => new Set(ids).size === ids.length, "Each provider can only be listed once");
+
+export const tradingPairConfigSchema = z.object({
+  symbol: pairSymbolSchema,
+  category: z.enum(pairCategories),
+  providerSymbols: pairProviderSymbolsSchema,
+  providerOrder: pairProviderOrderSchema,
+  decimals: z.number().int().min(0).max(10),
+  minTick: z.number().positive(),
+  enabled: z.boolean(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export type TradingPairConfig = z.infer<typeof tradingPairConfigSchema>;
+export type PairProviderSymbols = z.infer<typeof pairProviderSymbolsSchema>;
+
+export const createTradingPairRequestSchema = tradingPairConfigSchema
+  .omit({ createdAt: true, updatedAt: true })
+  .extend({ providerOrder: pairProviderOrderSchema.default([]), enabled: z.boolean().default(true) });
+
+export const updateTradingPairRequestSchema = tradingPairConfigSchema
+  .pick({ category: true, providerSymbols: true, providerOrder: true, decimals: true, minTick: true, enabled: true })
+  .partial();
+
 export const timeframes = [
   "M1",
   "M3",
@@ -101,6 +159,8 @@ export const technicalIndicatorDetailSchema = z.object({
   strength: z.number(),
   category: z.enum(["MOMENTUM", "TREND", "VOLATILITY", "VOLUME", "PRICE_ACTION"]),
   description: z.string(),
+  // Recent history, oldest first, for sparklines
+  series: z.array(z.number()).optional(),
 });
 
 export const signalAggregationDataSchema = z.object({
@@ -131,6 +191,23 @@ export const tradeTargetsSchema = z.object({
   stop: z.number(),
 });
 
+export const tradeTargetSources = ["model", "repaired", "synthesized"] as const;
+
+export const tradeTargetIssueSchema = z.object({
+  rule: z.enum(["shape", "ordering", "stop_distance", "risk_reward"]),
+  action: z.enum(["repaired", "rejected"]),
+  message: z.string(),
+});
+
+// How the final trade targets relate to what the decision model proposed
+export const tradeTargetValidationSchema = z.object({
+  source: z.enum(tradeTargetSources),
+  issues: z.array(tradeTargetIssueSchema),
+  riskReward: z.number(),
+  minRiskReward: z.number(),
+  stopAtrMultiple: z.number(),
+});
+
 export const finalVerdictDataSchema = z.object({
   direction: z.enum(["UP", "DOWN", "NEUTRAL"]),
   confidence: z.number(),
@@ -139,6 +216,7 @@ export const finalVerdictDataSchema = z.object({
   keyFactors: z.array(z.string()),
   riskFactors: z.array(z.string()),
   tradeTargets: tradeTargetsSchema.optional(),
+  tradeTargetValidation: tradeTargetValidationSchema.optional(),
   explanation: z.string().optional(),
 });
 
@@ -169,6 +247,43 @@ export const newsHeadlineSchema = z.object({
   impact: z.enum(["high", "medium", "low"]),
   url: z.string().optional(),
   publishedAt: z.string(),
+  // Epoch ms, used for recency weighting
+  publishedOn: z.number().optional(),
+  // Lexicon score from -1 (bearish) to 1 (bullish)
+  score: z.number().optional(),
+});
+
+export const newsSentimentSchema = z.object({
+  // Credibility, impact and recency weighted, -100..100
+  score: z.number(),
+  label: z.enum(["BULLISH", "BEARISH", "NEUTRAL"]),
+  headlineCount: z.number(),
+  positive: z.number(),
+  negative: z.number(),
+  totalWeight: z.number(),
+  drivers: z.array(z.string()),
+  summary: z.string(),
+});
+
+export const confluenceRowSchema = z.object({
+  timeframe: z.string(),
+  role: z.enum(["entry", "secondary", "primary"]),
+  available: z.boolean(),
+  trend: z.enum(["BULLISH", "BEARISH", "NEUTRAL"]),
+  momentum: z.enum(["BULLISH", "BEARISH", "NEUTRAL"]),
+  volatility: z.enum(["HIGH", "NORMAL", "LOW"]),
+  rsi: z.number(),
+  adx: z.number(),
+  // Bollinger width relative to Keltner width: < 1 is a squeeze
+  squeezeRatio: z.number(),
+});
+
+export const confluenceMatrixSchema = z.object({
+  rows: z.array(confluenceRowSchema),
+  // 0-100: how strongly the timeframes agree on one side
+  alignmentScore: z.number(),
+  bias: z.enum(["BULLISH", "BEARISH", "NEUTRAL"]),
+  summary: z.string(),
 });
 
 export const analysisStageSchema = z.object({
@@ -176,6 +291,7 @@ export const analysisStageSchema = z.object({
     "data_collection",
     "protocol_execution",
     "technical_calculation",
+    "mtf_confluence",
     "hedge_fund_audit",
     "sentiment_analysis",
     "signal_aggregation",
@@ -190,7 +306,8 @@ export const analysisStageSchema = z.object({
     z.object({ logs: z.array(protocolActionSchema) }),
     z.object({ indicators: z.array(technicalIndicatorDetailSchema) }),
     z.object({ checks: z.array(auditCheckSchema), score: z.number() }),
-    z.object({ headlines: z.array(newsHeadlineSchema), summary: z.string().optional() }),
+    z.object({ matrix: confluenceMatrixSchema }),
+    z.object({ headlines: z.array(newsHeadlineSchema), summary: z.string().optional(), sentiment: newsSentimentSchema.optional() }),
     signalAggregationDataSchema,
     aiThinkingDataSchema,
     finalVerdictDataSchema,
@@ -214,7 +331,7 @@ export const messageSchema = z.object({
   content: z.string(),
   timestamp: z.date(),
   prediction: z.object({
-    pair: z.enum(tradingPairs),
+    pair: pairSymbolSchema,
     direction: z.enum(["UP", "DOWN", "NEUTRAL"]),
     confidence: z.number().min(0).max(100),
     duration: z.string(),
@@ -234,6 +351,7 @@ export const messageSchema = z.object({
       confidenceBreakdown: confidenceBreakdownSchema.optional(),
       thinkingProcess: z.string().optional(),
       keyFactors: z.array(z.string()).optional(),
+      tradeTargetValidation: tradeTargetValidationSchema.optional(),
     }).optional(),
   }).optional(),
   analysisStage: analysisStageSchema.optional(),
@@ -247,12 +365,19 @@ export type MarketDataSnapshot = z.infer<typeof marketDataSnapshotSchema>;
 export type ProtocolAction = z.infer<typeof protocolActionSchema>; // NEW
 export type AuditCheck = z.infer<typeof auditCheckSchema>; // NEW
 export type NewsHeadline = z.infer<typeof newsHeadlineSchema>; // NEW
+export type NewsSentiment = z.infer<typeof newsSentimentSchema>;
 export type TechnicalIndicatorDetail = z.infer<typeof technicalIndicatorDetailSchema>;
 export type SignalAggregationData = z.infer<typeof signalAggregationDataSchema>;
 export type AIThinkingData = z.infer<typeof aiThinkingDataSchema>;
 export type TradeTargets = z.infer<typeof tradeTargetsSchema>;
+export type TradeTargetSource = typeof tradeTargetSources[number];
+export type TradeTargetIssue = z.infer<typeof tradeTargetIssueSchema>;
+export type TradeTargetValidation = z.infer<typeof tradeTargetValidationSchema>;
+export type ConfluenceRow = z.infer<typeof confluenceRowSchema>;
+export type ConfluenceMatrix = z.infer<typeof confluenceMatrixSchema>;
 export type FinalVerdictData = z.infer<typeof finalVerdictDataSchema>;
-export type TradingPair = typeof tradingPairs[number];
+// Pairs are catalog entries rather than a fixed union, so any symbol string is accepted here
+export type TradingPair = string;
 export type CryptoPair = typeof cryptoPairs[number];
 export type ForexPair = typeof forexPairs[number];
 export type Timeframe = typeof timeframes[number];
@@ -292,6 +417,10 @@ export const commissionPayments = pgTable("commission_payments", {
   commissionAmount: integer("commission_amount").notNull(),
   customerUserId: varchar("customer_user_id"),
   customerEmail: varchar("customer_email"),
+  // Commission rule that priced this payment; null for payments recorded before rules existed
+  commissionRuleId: varchar("commission_rule_id"),
+  // Set when the payment was refunded or lost a dispute; the commission no longer counts
+  refundedAt: timestamp("refunded_at"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
@@ -362,6 +491,148 @@ export const insertAdminAdjustmentSchema = createInsertSchema(adminAdjustments).
 export type InsertAdminAdjustment = z.infer<typeof insertAdminAdjustmentSchema>;
 export type AdminAdjustment = typeof adminAdjustments.$inferSelect;
 
+// Append-only double-entry ledger. Every entry moves `amount` from debitAccount to
+// creditAccount, so the balances of all accounts in a currency always sum to zero.
+export const ledgerEntryTypes = ["grant", "spend", "refund", "commission", "withdrawal", "adjustment"] as const;
+export const ledgerCurrencies = ["credits", "usd_cents"] as const;
+
+export type LedgerEntryType = typeof ledgerEntryTypes[number];
+export type LedgerCurrency = typeof ledgerCurrencies[number];
+
+export const ledgerEntrySchema = z.object({
+  id: z.string(),
+  type: z.enum(ledgerEntryTypes),
+  currency: z.enum(ledgerCurrencies),
+  debitAccount: z.string(),
+  creditAccount: z.string(),
+  amount: z.number().int().positive(),
+  // Source record, e.g. a payment, withdrawal or adjustment id
+  reference: z.string().nullable(),
+  memo: z.string().nullable(),
+  createdAt: z.date(),
+});
+
+export type LedgerEntry = z.infer<typeof ledgerEntrySchema>;
+
+export const insertLedgerEntrySchema = ledgerEntrySchema.omit({
+  createdAt: true,
+});
+
+export type InsertLedgerEntry = z.infer<typeof insertLedgerEntrySchema>;
+
+// Raw Whop webhooks, stored before processing so failed events can be replayed
+export const webhookEventStatuses = ["received", "processed", "failed", "ignored"] as const;
+
+export type WebhookEventStatus = typeof webhookEventStatuses[number];
+
+export const webhookEventSchema = z.object({
+  id: z.string(),
+  // webhook-id header, falling back to the payload id or a hash of the body
+  idempotencyKey: z.string(),
+  eventType: z.string().nullable(),
+  headers: z.record(z.string()),
+  body: z.string(),
+  // null when the request carried no signature headers
+  signatureValid: z.boolean().nullable(),
+  status: z.enum(webhookEventStatuses),
+  // Why the event failed or was ignored
+  statusReason: z.string().nullable(),
+  attempts: z.number().int(),
+  receivedAt: z.date(),
+  lastAttemptAt: z.date().nullable(),
+  processedAt: z.date().nullable(),
+});
+
+export type WebhookEvent = z.infer<typeof webhookEventSchema>;
+
+// Commissions on subscription payments are always priced from this fixed amount, never the webhook's
+export const SUBSCRIPTION_PRICE_CENTS = 3500;
+
+export const commissionRuleTypes = ["percentage", "fixed"] as const;
+
+export type CommissionRuleType = typeof commissionRuleTypes[number];
+
+// From the admin's minPayments-th commissioned payment of the month, value replaces the base value
+export const commissionTierSchema = z.object({
+  minPayments: z.number().int().min(1),
+  value: z.number().min(0),
+});
+
+const commissionRuleFieldsSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  // null matches every company / plan
+  companyId: z.string().trim().min(1).nullable(),
+  planId: z.string().trim().min(1).nullable(),
+  type: z.enum(commissionRuleTypes),
+  // Percent of the payment for percentage rules, cents per payment for fixed rules
+  value: z.number().min(0),
+  tiers: z.array(commissionTierSchema).max(20),
+  effectiveFrom: z.coerce.date(),
+  effectiveTo: z.coerce.date().nullable(),
+});
+
+type CommissionRuleFields = z.infer<typeof commissionRuleFieldsSchema>;
+
+function checkCommissionRule(
+  rule: Pick<CommissionRuleFields, "type" | "value" | "tiers"> & Partial<Pick<CommissionRuleFields, "effectiveFrom" | "effectiveTo">>,
+  ctx: z.RefinementCtx,
+) {
+  const values = [rule.value, ...rule.tiers.map(t => t.value)];
+  if (rule.type === "percentage" && values.some(v => v > 100)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["value"], message: "Percentage commissions cannot exceed 100" });
+  }
+  if (rule.type === "fixed" && values.some(v => !Number.isInteger(v))) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["value"], message: "Fixed commissions must be whole cents" });
+  }
+  if (rule.type === "fixed" && values.some(v => v > SUBSCRIPTION_PRICE_CENTS)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["value"], message: `Fixed commissions cannot exceed the ${SUBSCRIPTION_PRICE_CENTS} cent subscription price` });
+  }
+  if (new Set(rule.tiers.map(t => t.minPayments)).size !== rule.tiers.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["tiers"], message: "Each tier needs a different minPayments" });
+  }
+  if (rule.effectiveFrom && rule.effectiveTo && rule.effectiveTo <= rule.effectiveFrom) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["effectiveTo"], message: "effectiveTo must be after effectiveFrom" });
+  }
+}
+
+export const commissionRuleSchema = commissionRuleFieldsSchema.extend({
+  id: z.string(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export type CommissionRule = z.infer<typeof commissionRuleSchema>;
+export type CommissionTier = z.infer<typeof commissionTierSchema>;
+export type InsertCommissionRule = Omit<CommissionRule, "createdAt" | "updatedAt">;
+
+export const createCommissionRuleRequestSchema = commissionRuleFieldsSchema
+  .extend({
+    companyId: commissionRuleFieldsSchema.shape.companyId.default(null),
+    planId: commissionRuleFieldsSchema.shape.planId.default(null),
+    tiers: commissionRuleFieldsSchema.shape.tiers.default([]),
+    effectiveFrom: commissionRuleFieldsSchema.shape.effectiveFrom.default(() => new Date()),
+    effectiveTo: commissionRuleFieldsSchema.shape.effectiveTo.default(null),
+  })
+  .superRefine(checkCommissionRule);
+
+// Payments point at the rule that priced them, so only the name and end date can change in place;
+// other changes go through a revision. Cross-field checks run on the merged rule.
+export const updateCommissionRuleRequestSchema = commissionRuleFieldsSchema
+  .pick({ name: true, effectiveTo: true })
+  .partial()
+  .strict();
+
+export const commissionPreviewRequestSchema = z.object({
+  rule: commissionRuleFieldsSchema
+    .pick({ type: true, value: true, tiers: true })
+    .extend({ tiers: commissionRuleFieldsSchema.shape.tiers.default([]) })
+    .superRefine(checkCommissionRule),
+  // Payment amount in cents
+  amount: z.number().int().positive(),
+  // Commissioned payments in a month
+  payments: z.number().int().min(1).max(1000),
+});
+
 export const chatSessions = pgTable("chat_sessions", {
   id: varchar("id").primaryKey(),
   userId: varchar("user_id").notNull(),
@@ -436,3 +707,225 @@ export const insertStoredMemberSchema = storedMemberSchema.omit({
 });
 
 export type InsertStoredMember = z.infer<typeof insertStoredMemberSchema>;
+
+export const predictionOutcomes = [
+  "pending",
+  "target_hit",
+  "stop_hit",
+  "expired",
+] as const;
+
+export type PredictionOutcome = typeof predictionOutcomes[number];
+
+export const predictionRecordSchema = z.object({
+  id: z.string(),
+  userId: z.string(),
+  pair: pairSymbolSchema,
+  timeframe: z.enum(timeframes),
+  direction: z.enum(["UP", "DOWN", "NEUTRAL"]),
+  confidence: z.number(),
+  duration: z.string(),
+  entryPrice: z.number(),
+  tradeTargets: tradeTargetsSchema.nullable(),
+  expiresAt: z.date(),
+  outcome: z.enum(predictionOutcomes),
+  exitPrice: z.number().nullable(),
+  resolvedAt: z.date().nullable(),
+  createdAt: z.date(),
+});
+
+export type PredictionRecord = z.infer<typeof predictionRecordSchema>;
+
+export const insertPredictionRecordSchema = predictionRecordSchema.omit({
+  outcome: true,
+  exitPrice: true,
+  resolvedAt: true,
+  createdAt: true,
+});
+
+export type InsertPredictionRecord = z.infer<typeof insertPredictionRecordSchema>;
+
+export const predictionAccuracyBucketSchema = z.object({
+  bucket: z.string(),
+  total: z.number(),
+  targetHit: z.number(),
+  stopHit: z.number(),
+  expired: z.number(),
+  hitRate: z.number(),
+});
+
+export const predictionAccuracySchema = z.object({
+  totalResolved: z.number(),
+  pending: z.number(),
+  targetHit: z.number(),
+  stopHit: z.number(),
+  expired: z.number(),
+  neutral: z.number(),
+  hitRate: z.number(),
+  byConfidence: z.array(predictionAccuracyBucketSchema),
+});
+
+export type PredictionAccuracyBucket = z.infer<typeof predictionAccuracyBucketSchema>;
+export type PredictionAccuracy = z.infer<typeof predictionAccuracySchema>;
+
+// Analysis pacing: cinematic keeps the staged chat animation, fast shortens it,
+// instant returns as soon as the pipeline has computed the result
+export const pacingProfiles = ["cinematic", "fast", "instant"] as const;
+export const pacingProfileSchema = z.enum(pacingProfiles);
+
+export type PacingProfile = z.infer<typeof pacingProfileSchema>;
+
+export const userPreferencesSchema = z.object({
+  pacing: pacingProfileSchema,
+});
+
+export type UserPreferences = z.infer<typeof userPreferencesSchema>;
+
+// API keys for the public REST prediction API. Only a hash of the key is stored;
+// the plaintext key is returned once, when it is created.
+export const apiKeySchema = z.object({
+  id: z.string(),
+  userId: z.string(),
+  name: z.string(),
+  keyPrefix: z.string(),
+  rateLimitPerMinute: z.number().int().positive(),
+  lastUsedAt: z.date().nullable(),
+  revokedAt: z.date().nullable(),
+  createdAt: z.date(),
+});
+
+export type ApiKey = z.infer<typeof apiKeySchema>;
+
+export const insertApiKeySchema = apiKeySchema.omit({
+  lastUsedAt: true,
+  revokedAt: true,
+  createdAt: true,
+}).extend({
+  keyHash: z.string(),
+});
+
+export type InsertApiKey = z.infer<typeof insertApiKeySchema>;
+
+export const createApiKeyRequestSchema = z.object({
+  name: z.string().trim().min(1).max(64),
+  rateLimitPerMinute: z.number().int().min(1).max(60).optional(),
+});
+
+export const predictionApiRequestSchema = z.object({
+  pair: tradingPairSchema,
+  timeframe: z.enum(timeframes).default("M1"),
+});
+
+export type PredictionApiRequest = z.infer<typeof predictionApiRequestSchema>;
+
+// Price alerts: run an analysis automatically when price crosses a level
+export const priceAlertConditions = ["above", "below"] as const;
+export const priceAlertStatuses = ["active", "triggered", "cancelled"] as const;
+
+export type PriceAlertCondition = typeof priceAlertConditions[number];
+export type PriceAlertStatus = typeof priceAlertStatuses[number];
+
+export const priceAlertSchema = z.object({
+  id: z.string(),
+  userId: z.string(),
+  pair: pairSymbolSchema,
+  timeframe: z.enum(timeframes),
+  condition: z.enum(priceAlertConditions),
+  targetPrice: z.number().positive(),
+  notifyEmail: z.string().email().nullable(),
+  status: z.enum(priceAlertStatuses),
+  triggeredAt: z.date().nullable(),
+  triggeredPrice: z.number().nullable(),
+  resultDirection: z.enum(["UP", "DOWN", "NEUTRAL"]).nullable(),
+  resultConfidence: z.number().nullable(),
+  createdAt: z.date(),
+});
+
+export type PriceAlert = z.infer<typeof priceAlertSchema>;
+
+export const insertPriceAlertSchema = priceAlertSchema.omit({
+  status: true,
+  triggeredAt: true,
+  triggeredPrice: true,
+  resultDirection: true,
+  resultConfidence: true,
+  createdAt: true,
+});
+
+export type InsertPriceAlert = z.infer<typeof insertPriceAlertSchema>;
+
+export const createPriceAlertRequestSchema = z.object({
+  pair: tradingPairSchema,
+  timeframe: z.enum(timeframes).default("H1"),
+  condition: z.enum(priceAlertConditions),
+  targetPrice: z.number().positive(),
+  notifyEmail: z.string().email().optional(),
+});
+
+// Watchlists: scheduled headless scans across several pairs and timeframes
+export const watchlistSchema = z.object({
+  id: z.string(),
+  userId: z.string(),
+  name: z.string(),
+  pairs: z.array(pairSymbolSchema),
+  timeframes: z.array(z.enum(timeframes)),
+  intervalMinutes: z.number().int(),
+  enabled: z.boolean(),
+  lastRunAt: z.date().nullable(),
+  nextRunAt: z.date(),
+  createdAt: z.date(),
+});
+
+export type Watchlist = z.infer<typeof watchlistSchema>;
+
+export const insertWatchlistSchema = watchlistSchema.omit({
+  lastRunAt: true,
+  createdAt: true,
+});
+
+export type InsertWatchlist = z.infer<typeof insertWatchlistSchema>;
+
+export const createWatchlistRequestSchema = z.object({
+  name: z.string().trim().min(1).max(64),
+  pairs: z.array(tradingPairSchema).min(1).max(20),
+  timeframes: z.array(z.enum(timeframes)).min(1).max(4),
+  intervalMinutes: z.number().int().min(15).max(24 * 60).default(60),
+});
+
+export const updateWatchlistRequestSchema = z.object({
+  name: z.string().trim().min(1).max(64).optional(),
+  pairs: z.array(tradingPairSchema).min(1).max(20).optional(),
+  timeframes: z.array(z.enum(timeframes)).min(1).max(4).optional(),
+  intervalMinutes: z.number().int().min(15).max(24 * 60).optional(),
+  enabled: z.boolean().optional(),
+});
+
+export const watchlistHitSchema = z.object({
+  pair: pairSymbolSchema,
+  timeframe: z.enum(timeframes),
+  direction: z.enum(["UP", "DOWN"]),
+  confidence: z.number(),
+  entryPrice: z.number().nullable(),
+  tradeTargets: tradeTargetsSchema.nullable(),
+});
+
+export type WatchlistHit = z.infer<typeof watchlistHitSchema>;
+
+export const watchlistScanSchema = z.object({
+  id: z.string(),
+  watchlistId: z.string(),
+  watchlistName: z.string(),
+  userId: z.string(),
+  // Actionable results ranked by validated confidence, highest first
+  hits: z.array(watchlistHitSchema),
+  scanned: z.number(),
+  neutral: z.number(),
+  failed: z.number(),
+  // Entries not analyzed because the user ran out of credits mid-scan
+  skipped: z.number(),
+  creditsCharged: z.number(),
+  startedAt: z.date(),
+  completedAt: z.date(),
+});
+
+export type WatchlistScan = z.infer<typeof watchlistScanSchema>;